@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import type { KeyValueStore } from 'apify';
+import {
+  AFFILIATE_COMMISSIONS_KEY,
+  createAffiliateResolver,
+  estimateEarnings,
+  loadAffiliateTable,
+  parseAffiliateExport,
+  parseCommissionRate,
+  parseCsv,
+} from './affiliate.js';
+import { MARKET_PROFILES } from './markets.js';
+import { mapToSupabase } from './mapping.js';
+import { createCurrencyConverter } from './currency.js';
+
+const csvExport = [
+  'Product ID;Product name;Commission rate;Commission;Open collaboration',
+  '1729384756;"Secador Taiff; 2000W";15%;"R$ 22,49";Yes',
+  '1729384757;Fone JBL;8,5%;;No',
+].join('\r\n');
+
+describe('parseCsv', () => {
+  it('should detect the delimiter and handle quoted cells', () => {
+    expect(parseCsv('a,b\n"x, ""y""",2\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', '2'],
+    ]);
+    expect(parseCsv(csvExport)[1][1]).toBe('Secador Taiff; 2000W');
+  });
+});
+
+describe('parseCommissionRate', () => {
+  it('should read percentages and fractions', () => {
+    expect(parseCommissionRate('15%')).toBe(15);
+    expect(parseCommissionRate('8,5%')).toBe(8.5);
+    expect(parseCommissionRate(0.12)).toBe(12);
+    expect(parseCommissionRate(10)).toBe(10);
+    expect(parseCommissionRate('')).toBe(null);
+    expect(parseCommissionRate('n/a')).toBe(null);
+  });
+});
+
+describe('parseAffiliateExport', () => {
+  it('should parse an Affiliate Center CSV export', () => {
+    const table = parseAffiliateExport(csvExport, MARKET_PROFILES.BR);
+
+    expect(table['1729384756']).toEqual({
+      platform_id: '1729384756',
+      commission_rate: 15,
+      commission_amount: 22.49,
+      commission_currency: 'BRL',
+      affiliate_available: true,
+    });
+    expect(table['1729384757']).toMatchObject({
+      commission_rate: 8.5,
+      commission_amount: null,
+      affiliate_available: false,
+    });
+  });
+
+  it('should parse JSON records', () => {
+    const table = parseAffiliateExport([{ platform_id: 42, commission_rate: 0.1 }]);
+    expect(table['42']).toMatchObject({ commission_rate: 10, affiliate_available: true });
+  });
+
+  it('should prefer a stated currency over the symbol of the amount', () => {
+    const table = parseAffiliateExport([
+      { product_id: '1', commission: '2.00', currency: 'usd' },
+      { product_id: '2', commission: 'R$ 5,00', moeda: 'EUR' },
+    ]);
+
+    expect(table['1']).toMatchObject({ commission_amount: 2, commission_currency: 'USD' });
+    expect(table['2']).toMatchObject({ commission_amount: 5, commission_currency: 'EUR' });
+  });
+
+  it('should fail fast on malformed exports', () => {
+    expect(() => parseAffiliateExport({ rows: [] })).toThrow('CSV text or an array');
+    expect(() => parseAffiliateExport([{ commission_rate: '10%' }])).toThrow('no product ID');
+    expect(() => parseAffiliateExport(['1729384756'])).toThrow('must be an object');
+  });
+});
+
+describe('createAffiliateResolver', () => {
+  it('should prefer imported records over item data', () => {
+    const resolver = createAffiliateResolver(parseAffiliateExport(csvExport));
+    const item = { product_id_str: '1729384756', affiliate: { commission_rate: '5%' } };
+
+    expect(resolver.resolve('1729384756', item)?.commission_rate).toBe(15);
+    expect(resolver.size).toBe(2);
+  });
+
+  it('should fall back to affiliate data on the item', () => {
+    const resolver = createAffiliateResolver();
+    const item = { affiliate: { commission_rate: '12%', affiliate_available: 'sim' } };
+
+    expect(resolver.resolve('1', item)).toEqual({
+      commission_rate: 12,
+      commission_amount: null,
+      commission_currency: null,
+      affiliate_available: true,
+    });
+    expect(resolver.resolve('1', {})).toBe(null);
+  });
+});
+
+describe('estimateEarnings', () => {
+  it('should apply the rate to the price, else use the stated amount', () => {
+    const info = {
+      commission_rate: 15,
+      commission_amount: null,
+      commission_currency: null,
+      affiliate_available: true,
+    };
+    expect(estimateEarnings(149.9, info)).toBe(22.49);
+    expect(estimateEarnings(0, { ...info, commission_rate: null, commission_amount: 5 })).toBe(5);
+  });
+
+  it('should be null for products closed to affiliates', () => {
+    const info = {
+      commission_rate: 15,
+      commission_amount: null,
+      commission_currency: null,
+      affiliate_available: false,
+    };
+    expect(estimateEarnings(100, info)).toBe(null);
+    expect(estimateEarnings(100, null)).toBe(null);
+  });
+});
+
+describe('mapToSupabase with affiliate data', () => {
+  const item = {
+    product_id_str: '1729384756',
+    title: 'Secador Taiff',
+    format_price: 'R$ 149,90',
+  };
+
+  it('should fill commission_rate and estimated earnings', () => {
+    const affiliateResolver = createAffiliateResolver(parseAffiliateExport(csvExport));
+    const mapped = mapToSupabase(item, { affiliateResolver });
+
+    expect(mapped.commission_rate).toBe(15);
+    expect(mapped.affiliate_available).toBe(true);
+    expect(mapped.estimated_earnings_per_sale).toBe(22.49);
+  });
+
+  it('should convert a stated commission amount with the price', () => {
+    const affiliateResolver = createAffiliateResolver(
+      parseAffiliateExport([{ product_id: '1729384756', commission: 'R$ 55,90' }])
+    );
+    const mapped = mapToSupabase(item, {
+      affiliateResolver,
+      converter: createCurrencyConverter(),
+      targetCurrency: 'USD',
+    });
+
+    expect(mapped.currency).toBe('USD');
+    expect(mapped.estimated_earnings_per_sale).toBe(10);
+  });
+
+  it('should convert a stated commission amount from the currency the feed states', () => {
+    const affiliateResolver = createAffiliateResolver(
+      parseAffiliateExport([{ product_id: '1729384756', commission: '2.00', currency: 'USD' }])
+    );
+    const converter = createCurrencyConverter();
+
+    const inBrl = mapToSupabase(item, { affiliateResolver, converter, targetCurrency: 'BRL' });
+    expect(inBrl.currency).toBe('BRL');
+    expect(inBrl.estimated_earnings_per_sale).toBe(11.18);
+
+    const inUsd = mapToSupabase(item, { affiliateResolver, converter, targetCurrency: 'USD' });
+    expect(inUsd.estimated_earnings_per_sale).toBe(2);
+  });
+});
+
+describe('loadAffiliateTable', () => {
+  // Affiliate key-value store holding the given export
+  const storeWith = (value: unknown): Pick<KeyValueStore, 'getValue'> => ({
+    getValue: async <T>(key: string) => (key === AFFILIATE_COMMISSIONS_KEY ? value : null) as T,
+  });
+
+  it('should prefer the input over the key-value store', async () => {
+    const store = storeWith([{ product_id: '2', commission_rate: '9%' }]);
+
+    expect(Object.keys(await loadAffiliateTable([{ product_id: '1' }], store))).toEqual(['1']);
+    expect(Object.keys(await loadAffiliateTable(undefined, store))).toEqual(['2']);
+  });
+
+  it('should read a CSV record stored as a buffer', async () => {
+    const store = storeWith(Buffer.from(csvExport));
+    const table = await loadAffiliateTable(undefined, store, MARKET_PROFILES.BR);
+    expect(table['1729384756'].commission_amount).toBe(22.49);
+  });
+
+  it('should be empty without an export', async () => {
+    expect(await loadAffiliateTable(undefined, storeWith(null))).toEqual({});
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Affiliate commission data: open-collaboration commission rate, amount and availability per
+ * product, from item data or a TikTok Affiliate Center export (CSV or JSON)
+ */
+
+import type { KeyValueStore } from 'apify';
+import type { MarketProfile } from './markets.js';
+import { parsePriceText } from './prices.js';
+import type { TikTokItem } from './schema.js';
+
+/**
+ * Affiliate terms of one product
+ */
+export interface AffiliateInfo {
+  /** Commission rate in percent (15 for 15%) */
+  commission_rate: number | null;
+  /** Commission per sale, when the source states it */
+  commission_amount: number | null;
+  /** Currency of commission_amount, when the source states it; else the price's currency */
+  commission_currency: string | null;
+  /** Whether the product is open for affiliate collaboration */
+  affiliate_available: boolean | null;
+}
+
+export interface AffiliateRecord extends AffiliateInfo {
+  platform_id: string;
+}
+
+/**
+ * Affiliate records by platform_id
+ */
+export type AffiliateTable = Record<string, AffiliateRecord>;
+
+export interface AffiliateResolver {
+  /** Imported record for the product, else affiliate data the item came with */
+  resolve(platformId: string, item?: TikTokItem): AffiliateInfo | null;
+  /** Number of imported records */
+  size: number;
+}
+
+/**
+ * Key of the affiliate export in the affiliate key-value store
+ */
+export const AFFILIATE_COMMISSIONS_KEY = 'AFFILIATE_COMMISSIONS';
+
+/**
+ * Column names of Affiliate Center exports (English and Portuguese), normalized
+ */
+const COLUMN_ALIASES: Record<keyof AffiliateRecord, string[]> = {
+  platform_id: ['platform_id', 'product_id', 'id_do_produto', 'id_produto'],
+  commission_rate: ['commission_rate', 'open_collaboration_commission_rate', 'taxa_de_comissao'],
+  commission_amount: [
+    'commission_amount',
+    'commission',
+    'estimated_commission',
+    'valor_da_comissao',
+    'comissao_estimada',
+  ],
+  commission_currency: ['commission_currency', 'currency', 'moeda_da_comissao', 'moeda'],
+  affiliate_available: [
+    'affiliate_available',
+    'open_collaboration',
+    'available',
+    'colaboracao_aberta',
+    'disponivel',
+  ],
+};
+
+const normalizeColumn = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+
+/**
+ * Parse CSV text into rows of cells. The delimiter (",", ";" or tab) is taken from the header
+ * line; quoted cells may contain delimiters, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Commission amount and its currency: a currency column wins over the symbol of the amount
+ */
+function parseCommission(
+  amount: unknown,
+  currency: unknown,
+  market?: MarketProfile
+): Pick<AffiliateInfo, 'commission_amount' | 'commission_currency'> {
+  const parsed =
+    typeof amount === 'number' || typeof amount === 'string'
+      ? parsePriceText(amount, market)
+      : { amount: null, currency: null };
+  const stated = typeof currency === 'string' && currency.trim() ? currency.trim() : null;
+  return {
+    commission_amount: parsed.amount,
+    commission_currency: parsed.amount === null ? null : (stated?.toUpperCase() ?? parsed.currency),
+  };
+}
+
+/**
+ * Commission rate in percent. "15%", "15" and "15,5" are percentages; a fraction below 1
+ * without "%" ("0.15") is scaled to a percentage.
+ */
+export function parseCommissionRate(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const isPercent = typeof value === 'string' && value.includes('%');
+  const rate =
+    typeof value === 'number' ? value : parsePriceText(String(value).replace('%', '')).amount;
+  if (rate === null || !Number.isFinite(rate) || rate < 0) return null;
+  return !isPercent && rate > 0 && rate < 1 ? Math.round(rate * 10000) / 100 : rate;
+}
+
+const parseFlag = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const flag = normalizeColumn(value);
+  if (['true', 'yes', 'sim', '1', 'open', 'aberta', 'available', 'disponivel'].includes(flag)) {
+    return true;
+  }
+  if (
+    ['false', 'no', 'nao', '0', 'closed', 'fechada', 'unavailable', 'indisponivel'].includes(flag)
+  ) {
+    return false;
+  }
+  return null;
+};
+
+/**
+ * Turn one export row (CSV row object or JSON record) into an affiliate record. Throws on
+ * rows without a product ID.
+ */
+export function toAffiliateRecord(
+  row: Record<string, unknown>,
+  market?: MarketProfile
+): AffiliateRecord {
+  const columns = new Map(Object.entries(row).map(([key, value]) => [normalizeColumn(key), value]));
+  const pick = (field: keyof AffiliateRecord): unknown => {
+    const alias = COLUMN_ALIASES[field].find(name => columns.has(name));
+    return alias === undefined ? undefined : columns.get(alias);
+  };
+
+  const platformId = pick('platform_id');
+  if (
+    (typeof platformId !== 'string' && typeof platformId !== 'number') ||
+    !String(platformId).trim()
+  ) {
+    throw new Error(`Affiliate record has no product ID: ${JSON.stringify(row)}`);
+  }
+
+  const commissionRate = parseCommissionRate(pick('commission_rate'));
+
+  return {
+    platform_id: String(platformId).trim(),
+    commission_rate: commissionRate,
+    ...parseCommission(pick('commission_amount'), pick('commission_currency'), market),
+    affiliate_available:
+      parseFlag(pick('affiliate_available')) ?? (commissionRate !== null ? true : null),
+  };
+}
+
+/**
+ * Build the affiliate table from an Affiliate Center export: CSV text with a header row, or a
+ * JSON array of records. Fails fast on malformed exports.
+ */
+export function parseAffiliateExport(data: unknown, market?: MarketProfile): AffiliateTable {
+  let rows: unknown[];
+  if (typeof data === 'string') {
+    const [header, ...lines] = parseCsv(data);
+    if (!header) {
+      throw new Error('Affiliate export CSV is empty');
+    }
+    rows = lines.map(cells => Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ''])));
+  } else if (Array.isArray(data)) {
+    rows = data;
+  } else {
+    throw new Error('Affiliate data must be CSV text or an array of records');
+  }
+
+  const table: AffiliateTable = {};
+  for (const row of rows) {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      throw new Error(`Affiliate record must be an object, got ${JSON.stringify(row)}`);
+    }
+    const record = toAffiliateRecord(row as Record<string, unknown>, market);
+    table[record.platform_id] = record;
+  }
+  return table;
+}
+
+/**
+ * Create a resolver over an imported table. Products missing from it fall back to the
+ * `affiliate` data of the item, for sources that scrape it.
+ */
+export function createAffiliateResolver(table: AffiliateTable = {}): AffiliateResolver {
+  const resolve = (platformId: string, item?: TikTokItem): AffiliateInfo | null => {
+    const record = table[platformId];
+    if (record) {
+      const { commission_rate, commission_amount, commission_currency, affiliate_available } =
+        record;
+      return { commission_rate, commission_amount, commission_currency, affiliate_available };
+    }
+    if (!item?.affiliate) {
+      return null;
+    }
+    return {
+      commission_rate: parseCommissionRate(item.affiliate.commission_rate),
+      ...parseCommission(item.affiliate.commission_amount, item.affiliate.commission_currency),
+      affiliate_available: parseFlag(item.affiliate.affiliate_available),
+    };
+  };
+
+  return { resolve, size: Object.keys(table).length };
+}
+
+/**
+ * Estimated commission per sale: price × rate, else the stated commission amount
+ */
+export function estimateEarnings(price: number, info: AffiliateInfo | null): number | null {
+  if (!info || info.affiliate_available === false) {
+    return null;
+  }
+  if (info.commission_rate !== null && price > 0) {
+    return Math.round(price * info.commission_rate) / 100;
+  }
+  return info.commission_amount;
+}
+
+/**
+ * Load the affiliate table from the `affiliateData` input, or from the affiliate key-value store
+ */
+export async function loadAffiliateTable(
+  input: unknown,
+  store: Pick<KeyValueStore, 'getValue'>,
+  market?: MarketProfile
+): Promise<AffiliateTable> {
+  if (input !== undefined && input !== null) {
+    return parseAffiliateExport(input, market);
+  }
+
+  // A CSV record comes back as a buffer, a JSON record as parsed JSON
+  const stored = await store.getValue(AFFILIATE_COMMISSIONS_KEY);
+  if (!stored) {
+    return {};
+  }
+  return parseAffiliateExport(Buffer.isBuffer(stored) ? stored.toString('utf8') : stored, market);
+}
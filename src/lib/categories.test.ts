@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CATEGORY_MAPPING_KEY,
+  createCategoryResolver,
+  loadCategoryTable,
+  normalizeCategoryText,
+  validateCategoryTable,
+} from './categories.js';
+import { mapToSupabase } from './mapping.js';
+
+const detail = (path: Array<[string, string]>) => ({
+  description: null,
+  brand: null,
+  category_path: path.map(([id, name]) => ({ id, name })),
+  images: [],
+  specs: {},
+  variants: [],
+});
+
+const shampoo = {
+  product_id_str: '1',
+  title: 'Shampoo Pantene Restauração 400ml',
+  floor_price: '24.90',
+  detail: detail([
+    ['600001', 'Beleza e Cuidados Pessoais'],
+    ['601450', 'Cuidados com o Cabelo'],
+  ]),
+};
+
+describe('createCategoryResolver', () => {
+  it('should resolve the deepest mapped TikTok category ID first', () => {
+    const resolver = createCategoryResolver({ ids: { '600001': 1, '601450': 12 } });
+    expect(resolver.resolve(shampoo)).toEqual({ category_id: 12, method: 'id' });
+  });
+
+  it('should resolve the trending category ID', () => {
+    const resolver = createCategoryResolver({ ids: { '700': 5 } });
+    const item = { title: 'Produto', trending_category_id: '700' };
+    expect(resolver.resolve(item).category_id).toBe(5);
+  });
+
+  it('should resolve the longest breadcrumb prefix, ignoring case and accents', () => {
+    const resolver = createCategoryResolver({
+      paths: {
+        'beleza e cuidados pessoais': 1,
+        'Beleza e Cuidados Pessoais > Cuidados com o Cabelo': 12,
+      },
+    });
+    expect(resolver.resolve(shampoo)).toEqual({ category_id: 12, method: 'path' });
+
+    const parentOnly = { ...shampoo, detail: detail([['600001', 'Beleza e Cuidados Pessoais']]) };
+    expect(resolver.resolve(parentOnly).category_id).toBe(1);
+  });
+
+  it('should classify items without category by Portuguese keyword groups', () => {
+    const resolver = createCategoryResolver({ keywords: { cabelo: 12, bebe: 7 } });
+
+    expect(resolver.resolve({ title: 'Chapinha Babyliss Titanium' })).toEqual({
+      category_id: 12,
+      method: 'keyword',
+    });
+    expect(resolver.resolve({ title: 'Fraldas Pampers Confort Sec M' }).category_id).toBe(7);
+    expect(resolver.resolve({ title: 'Fone Bluetooth' }).category_id).toBe(null);
+  });
+
+  it('should prefer the longest keyword match', () => {
+    const resolver = createCategoryResolver({ keywords: { pets: 40, brinquedos: 41 } });
+    expect(resolver.resolve({ title: 'Brinquedo para Cachorro Mordedor' }).category_id).toBe(40);
+    expect(resolver.resolve({ title: 'Brinquedo Educativo' }).category_id).toBe(41);
+  });
+
+  it('should not match keywords inside other words', () => {
+    const resolver = createCategoryResolver({ keywords: { bota: 3 } });
+    expect(resolver.resolve({ title: 'Garrafa Robótica' }).category_id).toBe(null);
+  });
+
+  it('should not match keywords as prefixes of longer words', () => {
+    const resolver = createCategoryResolver({ keywords: { bota: 3 } });
+    expect(resolver.resolve({ title: 'Camisa com Botão Dourado' }).category_id).toBe(null);
+    expect(resolver.resolve({ title: 'Bota Feminina Cano Curto' }).category_id).toBe(3);
+    expect(resolver.resolve({ title: 'Kit 2 Botas de Chuva' }).category_id).toBe(3);
+  });
+
+  it('should report unmapped TikTok categories with counts', () => {
+    const resolver = createCategoryResolver({ keywords: { cabelo: 12 } });
+    resolver.resolve(shampoo);
+    resolver.resolve({ ...shampoo, title: 'Condicionador Elseve' });
+    resolver.resolve({ title: 'Produto sem categoria' });
+
+    expect(resolver.unmapped()).toEqual([
+      {
+        tiktok_category_id: '601450',
+        path: 'Beleza e Cuidados Pessoais > Cuidados com o Cabelo',
+        count: 2,
+        example_title: 'Shampoo Pantene Restauração 400ml',
+      },
+    ]);
+  });
+
+  it('should count an item once when it is resolved again', () => {
+    const resolver = createCategoryResolver();
+    resolver.resolve(shampoo);
+    resolver.resolve(shampoo);
+
+    expect(resolver.unmapped()[0].count).toBe(1);
+  });
+});
+
+describe('validateCategoryTable', () => {
+  it('should reject non-integer category IDs', () => {
+    expect(() => validateCategoryTable({ ids: { '1': '12' } })).toThrow(
+      'Category mapping "ids.1" must be an integer category_id, got "12"'
+    );
+    expect(() => validateCategoryTable({ paths: [] })).toThrow('"paths" must be an object');
+    expect(() => validateCategoryTable('cabelo')).toThrow();
+  });
+});
+
+describe('loadCategoryTable', () => {
+  const store = (value: unknown) => ({
+    getValue: async (key: string) => (key === CATEGORY_MAPPING_KEY ? value : null),
+  });
+
+  it('should prefer the input table over the stored one', async () => {
+    const table = await loadCategoryTable({ ids: { '1': 1 } }, store({ ids: { '2': 2 } }));
+    expect(table).toEqual({ ids: { '1': 1 } });
+  });
+
+  it('should fall back to the key-value store, then to an empty table', async () => {
+    expect(await loadCategoryTable(undefined, store({ ids: { '2': 2 } }))).toEqual({
+      ids: { '2': 2 },
+    });
+    expect(await loadCategoryTable(undefined, store(null))).toEqual({});
+  });
+});
+
+describe('normalizeCategoryText', () => {
+  it('should strip accents, case and extra whitespace', () => {
+    expect(normalizeCategoryText('  Máscara   Capilar ')).toBe('mascara capilar');
+  });
+});
+
+describe('mapToSupabase category_id', () => {
+  it('should fill category_id through the resolver', () => {
+    const categoryResolver = createCategoryResolver({ ids: { '601450': 12 } });
+    expect(mapToSupabase(shampoo, { categoryResolver }).category_id).toBe(12);
+    expect(mapToSupabase(shampoo).category_id).toBe(null);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Category taxonomy: resolve TikTok category IDs, breadcrumb paths or title keywords
+ * to Supabase `category_id` integers
+ */
+
+import type { KeyValueStore } from 'apify';
+import type { TikTokItem } from './schema.js';
+
+/**
+ * Mapping table from TikTok categories to Supabase `category_id`
+ */
+export interface CategoryTable {
+  /** TikTok category ID → category_id */
+  ids?: Record<string, number>;
+  /** Breadcrumb path, e.g. "Beleza e Cuidados Pessoais > Cuidados com o Cabelo" → category_id */
+  paths?: Record<string, number>;
+  /** Keyword group of DEFAULT_KEYWORD_GROUPS, or a single title keyword → category_id */
+  keywords?: Record<string, number>;
+}
+
+export type CategoryMethod = 'id' | 'path' | 'keyword';
+
+export interface CategoryResolution {
+  category_id: number | null;
+  method: CategoryMethod | null;
+}
+
+/**
+ * A TikTok category that had no entry in the mapping table
+ */
+export interface UnmappedCategory {
+  tiktok_category_id: string | null;
+  path: string | null;
+  count: number;
+  example_title: string | null;
+}
+
+export interface CategoryResolver {
+  resolve(item: TikTokItem): CategoryResolution;
+  /** Unmapped categories seen so far, most frequent first */
+  unmapped(): UnmappedCategory[];
+}
+
+/**
+ * Key of the mapping table in the category key-value store
+ */
+export const CATEGORY_MAPPING_KEY = 'CATEGORY_MAPPING';
+
+/**
+ * Portuguese title keywords per category group, used when an item has no mapped category.
+ * Map a group name to a category_id in `CategoryTable.keywords` to enable it.
+ */
+export const DEFAULT_KEYWORD_GROUPS: Record<string, string[]> = {
+  cabelo: [
+    'shampoo',
+    'condicionador',
+    'chapinha',
+    'prancha alisadora',
+    'secador de cabelo',
+    'escova de cabelo',
+    'escova secadora',
+    'mascara capilar',
+    'mascara de tratamento',
+    'oleo capilar',
+    'progressiva',
+    'creme para pentear',
+    'babyliss',
+    'ampola',
+  ],
+  bebe: [
+    'fralda',
+    'mamadeira',
+    'chupeta',
+    'lenco umedecido',
+    'carrinho de bebe',
+    'body infantil',
+    'berco',
+    'babador',
+  ],
+  maquiagem: [
+    'batom',
+    'base liquida',
+    'rimel',
+    'mascara de cilios',
+    'delineador',
+    'sombra',
+    'corretivo',
+    'po compacto',
+    'blush',
+    'paleta',
+  ],
+  skincare: [
+    'protetor solar',
+    'hidratante',
+    'serum',
+    'sabonete facial',
+    'tonico facial',
+    'creme facial',
+    'acido hialuronico',
+    'vitamina c',
+  ],
+  perfumaria: ['perfume', 'colonia', 'body splash', 'desodorante'],
+  celulares: [
+    'celular',
+    'smartphone',
+    'capinha',
+    'pelicula',
+    'carregador',
+    'cabo usb',
+    'fone de ouvido',
+    'fone bluetooth',
+  ],
+  casa_cozinha: [
+    'panela',
+    'frigideira',
+    'air fryer',
+    'liquidificador',
+    'garrafa termica',
+    'organizador',
+    'jogo de cama',
+    'toalha',
+  ],
+  moda_feminina: ['vestido', 'blusa', 'saia', 'cropped', 'legging', 'sutia', 'calcinha', 'biquini'],
+  moda_masculina: ['camisa masculina', 'camiseta masculina', 'bermuda', 'cueca'],
+  calcados: ['tenis', 'sandalia', 'chinelo', 'bota', 'sapatilha'],
+  suplementos: ['whey', 'creatina', 'suplemento', 'vitamina', 'colageno'],
+  pets: ['racao', 'coleira', 'arranhador', 'brinquedo para cachorro', 'caminha pet'],
+  brinquedos: ['brinquedo', 'boneca', 'lego', 'carrinho de controle', 'pelucia'],
+};
+
+/**
+ * Lowercase, strip accents and collapse whitespace so lookups ignore spelling variants
+ */
+export function normalizeCategoryText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const normalizePath = (path: string): string =>
+  path
+    .split('>')
+    .map(segment => normalizeCategoryText(segment))
+    .filter(Boolean)
+    .join(' > ');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Check a mapping table and fail fast on entries that are not integer category IDs
+ */
+export function validateCategoryTable(table: unknown): CategoryTable {
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error('Category mapping must be an object with "ids", "paths" and/or "keywords"');
+  }
+
+  for (const section of ['ids', 'paths', 'keywords'] as const) {
+    const entries = (table as CategoryTable)[section];
+    if (entries === undefined) continue;
+    if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+      throw new Error(`Category mapping "${section}" must be an object`);
+    }
+    for (const [key, value] of Object.entries(entries)) {
+      if (!Number.isInteger(value)) {
+        const got = JSON.stringify(value);
+        throw new Error(
+          `Category mapping "${section}.${key}" must be an integer category_id, got ${got}`
+        );
+      }
+    }
+  }
+
+  return table as CategoryTable;
+}
+
+/**
+ * Create a resolver for a mapping table. Resolution order:
+ * 1. TikTok category IDs, deepest breadcrumb level first, then the trending category
+ * 2. Breadcrumb path, longest prefix first
+ * 3. Title keywords, longest match first
+ */
+export function createCategoryResolver(table: CategoryTable = {}): CategoryResolver {
+  const ids = new Map(Object.entries(table.ids ?? {}));
+  const paths = new Map(
+    Object.entries(table.paths ?? {}).map(([path, id]) => [normalizePath(path), id])
+  );
+
+  // Expand keyword groups; longer keywords are more specific and are tried first. Keywords
+  // match whole words, optionally in the plural (fralda, fraldas), not prefixes (bota, botao)
+  const keywords: Array<{ pattern: RegExp; length: number; categoryId: number }> = [];
+  for (const [key, categoryId] of Object.entries(table.keywords ?? {})) {
+    const words = DEFAULT_KEYWORD_GROUPS[key] ?? [key];
+    for (const word of words) {
+      const normalized = normalizeCategoryText(word);
+      keywords.push({
+        pattern: new RegExp(`(^|[^a-z0-9])${escapeRegExp(normalized)}(?:e?s)?(?=$|[^a-z0-9])`),
+        length: normalized.length,
+        categoryId,
+      });
+    }
+  }
+  keywords.sort((a, b) => b.length - a.length);
+
+  const unmapped = new Map<string, UnmappedCategory>();
+  // Items are resolved again when filter rules test mapped fields; count each item once
+  const reported = new WeakSet<TikTokItem>();
+
+  const report = (item: TikTokItem, categoryId: string | null, path: string | null) => {
+    if (reported.has(item)) return;
+    reported.add(item);
+    const key = `${categoryId ?? ''}|${path ?? ''}`;
+    const entry = unmapped.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      unmapped.set(key, {
+        tiktok_category_id: categoryId,
+        path,
+        count: 1,
+        example_title: item.title ?? null,
+      });
+    }
+  };
+
+  const resolve = (item: TikTokItem): CategoryResolution => {
+    const breadcrumb = item.detail?.category_path ?? [];
+
+    const categoryIds = [...breadcrumb]
+      .reverse()
+      .map(category => category.id)
+      .concat(item.trending_category_id ? [item.trending_category_id] : [])
+      .filter(Boolean);
+    for (const id of categoryIds) {
+      const categoryId = ids.get(id);
+      if (categoryId !== undefined) return { category_id: categoryId, method: 'id' };
+    }
+
+    const names = breadcrumb.map(category => normalizeCategoryText(category.name));
+    for (let depth = names.length; depth > 0; depth--) {
+      const categoryId = paths.get(names.slice(0, depth).join(' > '));
+      if (categoryId !== undefined) return { category_id: categoryId, method: 'path' };
+    }
+
+    if (categoryIds.length > 0) {
+      const path = breadcrumb.length ? breadcrumb.map(category => category.name).join(' > ') : null;
+      report(item, categoryIds[0], path);
+    }
+
+    const title = normalizeCategoryText(item.title ?? '');
+    const match = title ? keywords.find(keyword => keyword.pattern.test(title)) : undefined;
+    if (match) return { category_id: match.categoryId, method: 'keyword' };
+
+    return { category_id: null, method: null };
+  };
+
+  return {
+    resolve,
+    unmapped: () => [...unmapped.values()].sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Load the mapping table from the `categoryMapping` input, or from the category key-value store
+ */
+export async function loadCategoryTable(
+  input: unknown,
+  store: Pick<KeyValueStore, 'getValue'>
+): Promise<CategoryTable> {
+  if (input !== undefined && input !== null) {
+    return validateCategoryTable(input);
+  }
+
+  const stored = await store.getValue(CATEGORY_MAPPING_KEY);
+  return stored ? validateCategoryTable(stored) : {};
+}
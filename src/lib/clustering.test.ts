@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import type { KeyValueStore } from 'apify';
+import {
+  clusterProducts,
+  extractAttributes,
+  imageKey,
+  loadClusterIds,
+  normalizeTitle,
+  resolveClusterSimilarity,
+  saveClusterIds,
+  titleSimilarity,
+} from './clustering.js';
+import { mapToSupabase } from './mapping.js';
+import type { TikTokItem } from './schema.js';
+
+const listing = (id: string, title: string, extra: Partial<TikTokItem> = {}): TikTokItem => ({
+  product_id_str: id,
+  title,
+  format_price: 'R$ 149,90',
+  cover: `https://p16-oec-va.ibyteimg.com/tos-maliva-i-o3syd03w52-us/img${id}~tplv-o3syd03w52-resize-jpeg:800:800.jpeg`,
+  seller_product_info: { seller_id_str: `seller-${id}` },
+  sold_count: 100,
+  ...extra,
+});
+
+const cluster = (items: TikTokItem[], previousIds = {}) =>
+  clusterProducts(
+    items,
+    items.map(item => mapToSupabase(item)),
+    { previousIds }
+  );
+
+describe('normalizeTitle', () => {
+  it('should drop accents, punctuation and seller filler', () => {
+    expect(normalizeTitle('Secador de Cabelo Taiff - PROMOÇÃO Frete Grátis!')).toEqual([
+      'secador',
+      'cabelo',
+      'taiff',
+    ]);
+  });
+
+  it('should join numbers with their unit', () => {
+    expect(normalizeTitle('Secador 2000 W Bivolt 1,5 L')).toEqual([
+      'secador',
+      '2000w',
+      'bivolt',
+      '1,5l',
+    ]);
+  });
+});
+
+describe('extractAttributes', () => {
+  it('should read measures from titles and specs except the brand', () => {
+    const attributes = extractAttributes(normalizeTitle('Secador 220V 1,5 L'), {
+      Marca: 'Taiff',
+      Voltagem: 'Bivolt',
+    });
+    expect(attributes).toEqual({ v: '220', l: '1.5', 'spec:voltagem': 'bivolt' });
+  });
+});
+
+describe('imageKey', () => {
+  it('should strip the resize suffix and extension of CDN URLs', () => {
+    expect(
+      imageKey('https://p16.ibyteimg.com/obj/abc123def456ghi789~tplv-resize:800:800.jpeg?x=1')
+    ).toBe('abc123def456ghi789');
+    expect(imageKey('https://example.com/image.jpg')).toBe(null);
+    expect(imageKey(null)).toBe(null);
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('should be the share of words in common', () => {
+    expect(titleSimilarity(['a', 'b', 'c'], ['a', 'b', 'd'])).toBe(0.5);
+    expect(titleSimilarity([], [])).toBe(0);
+  });
+});
+
+describe('clusterProducts', () => {
+  it('should group listings of the same product across sellers', () => {
+    const result = cluster([
+      listing('1', 'Secador de Cabelo Taiff Style 2000W'),
+      listing('2', 'Secador Cabelo Taiff Style 2000w Promoção', { format_price: 'R$ 139,90' }),
+      listing('3', 'SECADOR DE CABELO TAIFF STYLE 2000 W PROFISSIONAL'),
+      listing('4', 'Fone de Ouvido Bluetooth JBL Tune 510'),
+    ]);
+
+    expect(result.clusters).toHaveLength(2);
+    expect(result.clusterIds[0]).toBe(result.clusterIds[1]);
+    expect(result.clusterIds[0]).toBe(result.clusterIds[2]);
+    expect(result.clusterIds[3]).not.toBe(result.clusterIds[0]);
+  });
+
+  it('should not group listings with a different brand or measure', () => {
+    const items = [
+      listing('1', 'Secador de Cabelo Style 2000W 220V'),
+      listing('2', 'Secador de Cabelo Style 2000W 110V'),
+      listing('3', 'Secador de Cabelo Style 2000W 220V'),
+    ];
+    const products = items.map(item => mapToSupabase(item));
+    products[0].brand = 'Taiff';
+    products[2].brand = 'Mondial';
+
+    expect(clusterProducts(items, products).clusters).toHaveLength(3);
+  });
+
+  it('should group listings sharing an image despite different titles', () => {
+    const cover = 'https://p16.ibyteimg.com/obj/0a1b2c3d4e5f6a7b8c9d~tplv-resize.jpeg';
+    const result = cluster([
+      listing('1', 'Secador Taiff', { cover }),
+      listing('2', 'Secador profissional potente salão', { cover }),
+    ]);
+
+    expect(result.clusters).toHaveLength(1);
+  });
+
+  it('should build a cluster record with lowest price, sellers and total sold', () => {
+    const result = cluster([
+      listing('1', 'Secador de Cabelo Taiff Style', { sold_count: 300 }),
+      listing('2', 'Secador de Cabelo Taiff Style', { format_price: 'R$ 129,90', sold_count: 50 }),
+      listing('3', 'Secador de Cabelo Taiff Style', {
+        seller_product_info: { seller_id_str: 'seller-1' },
+        format_price: 'R$ 159,90',
+      }),
+    ]);
+
+    expect(result.clusters[0]).toMatchObject({
+      title: 'Secador de Cabelo Taiff Style',
+      currency: 'BRL',
+      lowest_price: 129.9,
+      lowest_price_platform_id: '2',
+      highest_price: 159.9,
+      listing_count: 3,
+      seller_count: 2,
+      total_sold: 450,
+      platform_ids: ['1', '2', '3'],
+    });
+  });
+
+  it('should keep the cluster id of earlier runs', () => {
+    const items = [
+      listing('1', 'Secador de Cabelo Taiff Style'),
+      listing('2', 'Secador de Cabelo Taiff Style'),
+    ];
+    const first = cluster(items);
+    const second = cluster([listing('5', 'Secador de Cabelo Taiff Style'), items[1]], first.ids);
+
+    expect(second.clusterIds[0]).toBe(first.clusterIds[0]);
+    expect(second.ids['5']).toBe(first.clusterIds[0]);
+  });
+
+  it('should find the same clusters as comparing every pair', () => {
+    // Titles of 3-6 words from a small vocabulary, so many pairs are near the threshold
+    const words = 'secador cabelo taiff fone jbl escova kit pente bolsa couro preta azul'.split(
+      ' '
+    );
+    let seed = 7;
+    const next = () => (seed = (seed * 48271) % 2147483647);
+    const items = Array.from({ length: 300 }, (_, i) =>
+      listing(
+        String(i),
+        Array.from({ length: 3 + (next() % 4) }, () => words[next() % 12]).join(' ')
+      )
+    );
+    const tokens = items.map(item => normalizeTitle(item.title ?? ''));
+    const partition = (clusterIds: string[]) =>
+      clusterIds.map(id => clusterIds.indexOf(id)).join(',');
+
+    for (const similarity of [0.3, 0.5, 0.7, 1]) {
+      // Union-find over every pair, matching like clusterProducts
+      const parent = items.map((_, i) => i);
+      const root = (i: number): number => (parent[i] === i ? i : root(parent[i]));
+      for (let i = 0; i < items.length; i++) {
+        for (let j = i + 1; j < items.length; j++) {
+          const shared = new Set(tokens[i].filter(token => tokens[j].includes(token))).size;
+          if (shared >= 2 && titleSimilarity(tokens[i], tokens[j]) >= similarity) {
+            parent[root(j)] = root(i);
+          }
+        }
+      }
+      const expected = partition(items.map((_, i) => String(root(i))));
+      const products = items.map(item => mapToSupabase(item));
+
+      expect(partition(clusterProducts(items, products, { similarity }).clusterIds)).toBe(expected);
+    }
+  });
+
+  it('should give a split-off part a new id', () => {
+    const previous = { '1': 'cl_old', '2': 'cl_old', '3': 'cl_old' };
+    const result = cluster(
+      [
+        listing('1', 'Secador de Cabelo Taiff Style'),
+        listing('2', 'Secador de Cabelo Taiff Style'),
+        listing('3', 'Fone de Ouvido Bluetooth JBL'),
+      ],
+      previous
+    );
+
+    expect(result.clusterIds[0]).toBe('cl_old');
+    expect(result.clusterIds[2]).not.toBe('cl_old');
+    expect(result.clusterIds[2]).toMatch(/^cl_[0-9a-f]{12}$/);
+  });
+});
+
+describe('resolveClusterSimilarity', () => {
+  it('should default and validate the input', () => {
+    expect(resolveClusterSimilarity(undefined)).toBe(0.5);
+    expect(resolveClusterSimilarity(0.7)).toBe(0.7);
+    expect(() => resolveClusterSimilarity(0)).toThrow('clusterSimilarity');
+    expect(() => resolveClusterSimilarity('high')).toThrow('clusterSimilarity');
+  });
+});
+
+describe('cluster id persistence', () => {
+  it('should round-trip through the key-value store', async () => {
+    const values = new Map<string, unknown>();
+    const store: Pick<KeyValueStore, 'getValue' | 'setValue'> = {
+      getValue: async <T>(key: string) => (values.get(key) ?? null) as T,
+      setValue: async (key, value) => {
+        values.set(key, value);
+      },
+    };
+
+    expect(await loadClusterIds(store)).toEqual({});
+    await saveClusterIds(store, { '1': 'cl_a' });
+    expect(await loadClusterIds(store)).toEqual({ '1': 'cl_a' });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Cross-seller clustering: listings of the same product by different sellers share a cluster_id
+ */
+
+import { createHash } from 'crypto';
+import type { KeyValueStore } from 'apify';
+import type { SupabaseProduct } from './mapping.js';
+import type { TikTokItem } from './schema.js';
+
+/**
+ * cluster_id per platform_id, kept between runs so clusters keep their id
+ */
+export type ClusterIdMap = Record<string, string>;
+
+/**
+ * One product as sold by every seller in the batch
+ */
+export interface ProductCluster {
+  cluster_id: string;
+  /** Title of the best-selling listing */
+  title: string;
+  brand: string | null;
+  image_url: string | null;
+  /** Most common currency of the listings; prices in other currencies are ignored */
+  currency: string;
+  lowest_price: number | null;
+  lowest_price_platform_id: string | null;
+  highest_price: number | null;
+  listing_count: number;
+  seller_count: number;
+  total_sold: number;
+  platform_ids: string[];
+}
+
+export interface ClusterOptions {
+  /** Title similarity (0-1) above which two listings are the same product */
+  similarity?: number;
+  /** Cluster ids of earlier runs */
+  previousIds?: ClusterIdMap;
+}
+
+export interface ClusterResult {
+  /** cluster_id of each product, in input order */
+  clusterIds: string[];
+  clusters: ProductCluster[];
+  /** Previous ids updated with this run's assignments, to persist for the next run */
+  ids: ClusterIdMap;
+}
+
+/**
+ * Key of the cluster ids in the cluster key-value store
+ */
+export const CLUSTER_IDS_KEY = 'CLUSTER_IDS';
+
+export const DEFAULT_CLUSTER_SIMILARITY = 0.5;
+
+/**
+ * Words sellers add to titles that say nothing about the product
+ */
+const IGNORED_WORDS = new Set(
+  [
+    'a o e de da do das dos com para pra em no na the and for with of',
+    'promocao oferta original novo nova lancamento frete gratis envio imediato pronta entrega',
+    'barato top premium qualidade brasil',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+const UNITS = 'v w ml l g kg mm cm m gb tb mah pol pcs un'.split(' ');
+const MEASURE = new RegExp(`^(\\d+(?:[.,]\\d+)?)(${UNITS.join('|')})$`);
+
+const fold = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const shortHash = (value: string): string =>
+  createHash('sha1').update(value).digest('hex').slice(0, 12);
+
+/**
+ * Title words without accents, punctuation and seller filler. A number followed by a unit
+ * ("2000 W") becomes one word ("2000w").
+ */
+export function normalizeTitle(title: string): string[] {
+  const words = fold(title)
+    .split(/[^a-z0-9.,]+/)
+    .map(word => word.replace(/^[.,]+|[.,]+$/g, ''))
+    .filter(Boolean);
+
+  const tokens: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const next = words[i + 1];
+    if (/^\d+(?:[.,]\d+)?$/.test(word) && next && UNITS.includes(next)) {
+      tokens.push(`${word}${next}`);
+      i++;
+    } else if (!IGNORED_WORDS.has(word)) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Measured attributes by unit from title tokens ("220v", "500ml") and product specs.
+ * Two listings with a different value for the same attribute are different products.
+ */
+export function extractAttributes(
+  tokens: string[],
+  specs: Record<string, string> = {}
+): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const token of tokens) {
+    const match = token.match(MEASURE);
+    if (match) {
+      attributes[match[2]] = match[1].replace(',', '.');
+    }
+  }
+  for (const [name, value] of Object.entries(specs)) {
+    const key = fold(name).trim();
+    // The brand is compared on its own
+    if (key && key !== 'marca' && key !== 'brand') {
+      attributes[`spec:${key}`] = fold(value).trim();
+    }
+  }
+  return attributes;
+}
+
+/**
+ * File key of a TikTok CDN image: the content hash in the last path segment, without the
+ * "~tplv-..." resize suffix or extension. Null for URLs without a usable key.
+ */
+export function imageKey(url: string | null | undefined): string | null {
+  if (!url) return null;
+  const path = url.split(/[?#]/)[0];
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  const key = segment.split('~')[0].replace(/\.[a-z]+$/i, '');
+  return key.length >= 16 ? key : null;
+}
+
+/**
+ * Share of title words two listings have in common (Jaccard index)
+ */
+export function titleSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter(token => setB.has(token)).length;
+  const total = new Set([...setA, ...setB]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+interface ListingFeatures {
+  tokens: Set<string>;
+  brand: string | null;
+  attributes: Record<string, string>;
+  images: Set<string>;
+}
+
+function listingFeatures(item: TikTokItem, product: SupabaseProduct): ListingFeatures {
+  const tokens = normalizeTitle(product.title);
+  const images = [product.image_url, ...product.images]
+    .map(imageKey)
+    .filter((key): key is string => key !== null);
+  return {
+    tokens: new Set(tokens),
+    brand: product.brand ? fold(product.brand).trim() : null,
+    attributes: extractAttributes(tokens, item.detail?.specs),
+    images: new Set(images),
+  };
+}
+
+function isSameProduct(a: ListingFeatures, b: ListingFeatures, similarity: number): boolean {
+  if (a.brand && b.brand && a.brand !== b.brand) {
+    return false;
+  }
+  for (const key of Object.keys(a.attributes)) {
+    if (key in b.attributes && a.attributes[key] !== b.attributes[key]) {
+      return false;
+    }
+  }
+  for (const key of a.images) {
+    if (b.images.has(key)) {
+      return true;
+    }
+  }
+
+  let shared = 0;
+  for (const token of a.tokens) {
+    if (b.tokens.has(token)) shared++;
+  }
+  const total = a.tokens.size + b.tokens.size - shared;
+  return shared >= 2 && shared / total >= similarity;
+}
+
+/**
+ * Blocking keys of each listing: its images, and the rarest title words that any title at
+ * least `similarity` alike must share with it. With words ordered by how many titles have
+ * them, two titles with a Jaccard index of at least s share one of the first
+ * n - ceil(s * n) + 1 words of each (prefix filtering), so no match is missed.
+ */
+function blockingKeys(features: ListingFeatures[], similarity: number): string[][] {
+  const titles = new Map<string, number>();
+  for (const { tokens } of features) {
+    for (const token of tokens) titles.set(token, (titles.get(token) ?? 0) + 1);
+  }
+
+  return features.map(({ tokens, images }) => {
+    const rarest = [...tokens].sort(
+      (a, b) => (titles.get(a) ?? 0) - (titles.get(b) ?? 0) || a.localeCompare(b)
+    );
+    // The epsilon keeps float products such as 0.7 * 10 from rounding up a word too many
+    const prefix = rarest.length - Math.ceil(similarity * rarest.length - 1e-9) + 1;
+    return [
+      ...[...images].map(key => `image:${key}`),
+      ...rarest.slice(0, prefix).map(token => `word:${token}`),
+    ];
+  });
+}
+
+/**
+ * Group listings of the same product across sellers. `items` and `products` are the raw
+ * and mapped versions of the same listings, in the same order. A cluster keeps the id most of
+ * its listings had in earlier runs; new clusters get an id derived from their first listing.
+ */
+export function clusterProducts(
+  items: TikTokItem[],
+  products: SupabaseProduct[],
+  options: ClusterOptions = {}
+): ClusterResult {
+  const { similarity = DEFAULT_CLUSTER_SIMILARITY, previousIds = {} } = options;
+  const features = products.map((product, i) => listingFeatures(items[i] ?? {}, product));
+
+  // Union-find over matching listings, comparing only listings that share a blocking key
+  const parent = products.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const blocks = new Map<string, number[]>();
+  blockingKeys(features, similarity).forEach((keys, j) => {
+    const candidates = new Set<number>();
+    for (const key of keys) {
+      const block = blocks.get(key) ?? [];
+      block.forEach(i => candidates.add(i));
+      block.push(j);
+      blocks.set(key, block);
+    }
+    for (const i of candidates) {
+      if (root(i) !== root(j) && isSameProduct(features[i], features[j], similarity)) {
+        parent[root(j)] = root(i);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  products.forEach((_, i) => {
+    const members = groups.get(root(i)) ?? [];
+    members.push(i);
+    groups.set(root(i), members);
+  });
+
+  // Largest clusters claim their previous id first; a split-off part gets a new id
+  const ordered = [...groups.values()].sort((a, b) => b.length - a.length || a[0] - b[0]);
+  const claimed = new Set<string>();
+  const clusterIds: string[] = new Array(products.length);
+  const ids: ClusterIdMap = { ...previousIds };
+  const clusters = ordered.map(members => {
+    const platformIds = members.map(i => products[i].platform_id);
+    const votes = new Map<string, number>();
+    for (const platformId of platformIds) {
+      const previous = previousIds[platformId];
+      if (previous && !claimed.has(previous)) {
+        votes.set(previous, (votes.get(previous) ?? 0) + 1);
+      }
+    }
+    const [inherited] = [...votes.entries()].sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+    );
+    const clusterId = inherited?.[0] ?? `cl_${shortHash([...platformIds].sort()[0])}`;
+    claimed.add(clusterId);
+    for (const i of members) {
+      clusterIds[i] = clusterId;
+      ids[products[i].platform_id] = clusterId;
+    }
+    return buildCluster(
+      clusterId,
+      members.map(i => products[i])
+    );
+  });
+
+  return { clusterIds, clusters, ids };
+}
+
+/**
+ * Cluster-level record: lowest price, seller count and total sold across the listings
+ */
+export function buildCluster(clusterId: string, listings: SupabaseProduct[]): ProductCluster {
+  const currencyCounts = new Map<string, number>();
+  for (const listing of listings) {
+    currencyCounts.set(listing.currency, (currencyCounts.get(listing.currency) ?? 0) + 1);
+  }
+  const [currency] = [...currencyCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+  const priced = listings
+    .filter(listing => listing.currency === currency && listing.price > 0)
+    .sort((a, b) => a.price - b.price);
+  const best = [...listings].sort(
+    (a, b) => (b.sold_count_total ?? 0) - (a.sold_count_total ?? 0)
+  )[0];
+  const sellers = new Set(
+    listings.map(listing => listing.seller_id ?? listing.shop_name ?? listing.platform_id)
+  );
+
+  return {
+    cluster_id: clusterId,
+    title: best.title,
+    brand: listings.find(listing => listing.brand)?.brand ?? null,
+    image_url: best.image_url ?? listings.find(listing => listing.image_url)?.image_url ?? null,
+    currency,
+    lowest_price: priced[0]?.price ?? null,
+    lowest_price_platform_id: priced[0]?.platform_id ?? null,
+    highest_price: priced[priced.length - 1]?.price ?? null,
+    listing_count: listings.length,
+    seller_count: sellers.size,
+    total_sold: listings.reduce((sum, listing) => sum + (listing.sold_count_total ?? 0), 0),
+    platform_ids: listings.map(listing => listing.platform_id),
+  };
+}
+
+/**
+ * Check the `clusterSimilarity` input
+ */
+export function resolveClusterSimilarity(value: unknown): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_CLUSTER_SIMILARITY;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > 1) {
+    throw new Error(
+      `Input "clusterSimilarity" must be a number above 0 and up to 1, got ${JSON.stringify(value)}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Load the cluster ids stored by previous runs
+ */
+export async function loadClusterIds(
+  store: Pick<KeyValueStore, 'getValue'>
+): Promise<ClusterIdMap> {
+  return (await store.getValue<ClusterIdMap>(CLUSTER_IDS_KEY)) ?? {};
+}
+
+/**
+ * Persist cluster ids for the next run
+ */
+export async function saveClusterIds(
+  store: Pick<KeyValueStore, 'setValue'>,
+  ids: ClusterIdMap
+): Promise<void> {
+  await store.setValue(CLUSTER_IDS_KEY, ids);
+}
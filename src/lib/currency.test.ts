@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertItemPrice,
+  createCurrencyConverter,
+  DEFAULT_RATE_TABLE,
+  detectSourceCurrency,
+  EXCHANGE_RATES_KEY,
+  findMarketByCurrency,
+  loadRateTable,
+  validateRateTable,
+} from './currency.js';
+import { MARKET_PROFILES } from './markets.js';
+import { filterBrazilDetailed } from './filters.js';
+import { mapToSupabase } from './mapping.js';
+import { buildPriceHistoryRow } from './history.js';
+
+const table = { base: 'USD', rates: { BRL: 5, VND: 25000, MXN: 20 } };
+const converter = createCurrencyConverter(table);
+const BR = MARKET_PROFILES.BR;
+
+const vietnameseItem = {
+  product_id_str: '456',
+  title: 'Vietnamese Product',
+  cover: 'https://example.com/vn.jpg',
+  floor_price: '500000',
+  ceiling_price: '750.000',
+  format_price: '500.000₫',
+  currency: 'VND',
+  warehouse_region: 'Ho Chi Minh',
+};
+
+describe('createCurrencyConverter', () => {
+  it('should convert through the base currency', () => {
+    expect(converter.convert(100, 'BRL', 'USD')).toBe(20);
+    expect(converter.convert(500000, 'VND', 'BRL')).toBe(100);
+    expect(converter.convert(10, 'brl', 'mxn')).toBe(40);
+    expect(converter.convert(12.34, 'BRL', 'BRL')).toBe(12.34);
+  });
+
+  it('should return null for currencies missing from the table', () => {
+    expect(converter.convert(10, 'XYZ', 'BRL')).toBe(null);
+    expect(converter.canConvert('GBP', 'BRL')).toBe(false);
+    expect(converter.canConvert('USD', 'BRL')).toBe(true);
+  });
+
+  it('should cover every market currency in the bundled snapshot', () => {
+    const bundled = createCurrencyConverter();
+    for (const market of Object.values(MARKET_PROFILES)) {
+      expect(bundled.canConvert(market.currency, 'USD')).toBe(true);
+    }
+    expect(bundled.table).toBe(DEFAULT_RATE_TABLE);
+  });
+});
+
+describe('validateRateTable', () => {
+  it('should reject malformed tables', () => {
+    expect(() => validateRateTable([])).toThrow('must be an object');
+    expect(() => validateRateTable({ base: 'dollar', rates: {} })).toThrow('"base"');
+    expect(() => validateRateTable({ base: 'USD' })).toThrow('"rates" must be an object');
+    expect(() => validateRateTable({ base: 'USD', rates: { BRL: 0 } })).toThrow(
+      'Exchange rate "BRL" must be a positive number, got 0'
+    );
+  });
+});
+
+describe('loadRateTable', () => {
+  const store = (value: unknown) => ({
+    getValue: async (key: string) => (key === EXCHANGE_RATES_KEY ? value : null),
+  });
+
+  it('should prefer input, then the store, then the bundled snapshot', async () => {
+    const stored = { base: 'EUR', rates: { BRL: 6 } };
+    expect(await loadRateTable(table, store(stored))).toBe(table);
+    expect(await loadRateTable(undefined, store(stored))).toBe(stored);
+    expect(await loadRateTable(undefined, store(null))).toBe(DEFAULT_RATE_TABLE);
+    await expect(loadRateTable({ base: 'USD', rates: { BRL: -1 } }, store(null))).rejects.toThrow();
+  });
+});
+
+describe('detectSourceCurrency', () => {
+  it('should trust the market currency symbol in the formatted price first', () => {
+    const item = { title: 'Item', format_price: 'R$ 24,90', currency: 'VND' };
+    expect(detectSourceCurrency(item, BR, converter)).toBe('BRL');
+  });
+
+  it('should fall back to known currency codes', () => {
+    expect(detectSourceCurrency(vietnameseItem, BR, converter)).toBe('VND');
+    expect(detectSourceCurrency({ title: 'Item', currency: 'XYZ' }, BR, converter)).toBe(null);
+  });
+});
+
+describe('convertItemPrice', () => {
+  it('should parse in the source currency format and convert', () => {
+    expect(convertItemPrice(vietnameseItem, 'ceiling_price', { market: BR, converter })).toEqual({
+      price: 150,
+      currency: 'BRL',
+      original_price: 750000,
+      original_currency: 'VND',
+    });
+  });
+
+  it('should treat items with market signals but no currency as the market currency', () => {
+    const item = { title: 'Item', floor_price: '24.90' };
+    const options = { market: BR, converter, targetCurrency: 'USD' };
+
+    expect(convertItemPrice(item, 'floor_price', options)).toBe(null);
+    expect(
+      convertItemPrice(item, 'floor_price', { ...options, hasMarketSignals: true })
+    ).toMatchObject({
+      price: 4.98,
+      currency: 'USD',
+      original_currency: 'BRL',
+    });
+  });
+});
+
+describe('findMarketByCurrency', () => {
+  it('should find the market of a currency code', () => {
+    expect(findMarketByCurrency('vnd')?.region).toBe('VN');
+    expect(findMarketByCurrency('EUR')).toBe(undefined);
+  });
+});
+
+describe('mapToSupabase currency conversion', () => {
+  it('should convert the price and keep the quoted one', () => {
+    const mapped = mapToSupabase(vietnameseItem, { converter });
+
+    expect(mapped.price).toBe(100);
+    expect(mapped.currency).toBe('BRL');
+    expect(mapped.original_price).toBe(500000);
+    expect(mapped.original_currency).toBe('VND');
+  });
+
+  it('should leave prices unconverted without a converter', () => {
+    const mapped = mapToSupabase(vietnameseItem);
+
+    expect(mapped.currency).toBe('VND');
+    expect(mapped.original_price).toBe(mapped.price);
+    expect(mapped.original_currency).toBe('VND');
+  });
+
+  it('should convert the price history ceiling price to the same currency', () => {
+    const mapped = mapToSupabase(vietnameseItem, { converter });
+    const row = buildPriceHistoryRow(vietnameseItem, mapped, { converter });
+
+    expect(row).toMatchObject({ price: 100, ceiling_price: 150, currency: 'BRL' });
+  });
+});
+
+describe('filterBrazilDetailed currency conversion', () => {
+  it('should price-filter foreign items after conversion instead of dropping them', () => {
+    const cheap = { ...vietnameseItem, product_id_str: 'cheap', floor_price: '100000' };
+    const options = { requireBrazilSignals: false, minPrice: 50, maxPrice: 150 };
+
+    const withoutRates = filterBrazilDetailed([vietnameseItem, cheap], options);
+    expect(withoutRates.rejected.map(rejected => rejected.reason)).toEqual([
+      'non_brl_with_price_filter',
+      'non_brl_with_price_filter',
+    ]);
+
+    const withRates = filterBrazilDetailed([vietnameseItem, cheap], { ...options, converter });
+    expect(withRates.kept.map(item => item.product_id_str)).toEqual(['456']);
+    expect(withRates.rejected[0]).toMatchObject({
+      reason: 'below_min_price',
+      detail: 'price 20 < minPrice 50',
+    });
+  });
+
+  it('should still drop items in currencies missing from the rate table', () => {
+    const item = { ...vietnameseItem, currency: 'KRW', format_price: '₩ 10,000' };
+    const result = filterBrazilDetailed([item], {
+      requireBrazilSignals: false,
+      minPrice: 1,
+      converter,
+    });
+
+    expect(result.rejected[0].reason).toBe('non_brl_with_price_filter');
+  });
+});
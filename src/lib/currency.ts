@@ -0,0 +1,205 @@
+/**
+ * Offline currency conversion from a rate table (input, key-value store or bundled snapshot)
+ */
+
+import type { KeyValueStore } from 'apify';
+import { hasMarketCurrency, MARKET_PROFILES, MarketProfile } from './markets.js';
+import type { TikTokItem } from './schema.js';
+import { parseItemPrice, PriceField } from './prices.js';
+
+/**
+ * Exchange rates as units of each currency per one unit of `base`
+ */
+export interface RateTable {
+  base: string;
+  /** Date the rates were taken, for reference only */
+  date?: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * A price converted to the target currency, with the amount it was quoted in
+ */
+export interface PriceConversion {
+  price: number;
+  currency: string;
+  original_price: number;
+  original_currency: string;
+}
+
+export interface ConversionOptions {
+  market: MarketProfile;
+  converter: CurrencyConverter;
+  /** Currency prices are converted to, defaults to the market currency */
+  targetCurrency?: string;
+  /** Items without a recognizable currency count as quoted in the market currency */
+  hasMarketSignals?: boolean;
+}
+
+export interface CurrencyConverter {
+  /** Convert an amount, or null when either currency is not in the table */
+  convert(amount: number, from: string, to: string): number | null;
+  canConvert(from: string, to: string): boolean;
+  table: RateTable;
+}
+
+/**
+ * Key of the rate table in the currency key-value store
+ */
+export const EXCHANGE_RATES_KEY = 'EXCHANGE_RATES';
+
+/**
+ * Bundled snapshot used when no rate table is supplied. Refresh it with a table in the
+ * `exchangeRates` input or the key-value store when accuracy matters.
+ */
+export const DEFAULT_RATE_TABLE: RateTable = {
+  base: 'USD',
+  date: '2024-06-28',
+  rates: {
+    USD: 1,
+    BRL: 5.59,
+    MXN: 18.33,
+    COP: 4148,
+    VND: 25455,
+    GBP: 0.791,
+    EUR: 0.933,
+    THB: 36.7,
+    SGD: 1.355,
+    MYR: 4.72,
+    PHP: 58.6,
+    IDR: 16375,
+    CNY: 7.27,
+  },
+};
+
+/**
+ * Check a rate table and fail fast on missing or non-positive rates
+ */
+export function validateRateTable(table: unknown): RateTable {
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error('Exchange rates must be an object with "base" and "rates"');
+  }
+
+  const { base, rates } = table as Partial<RateTable>;
+  if (typeof base !== 'string' || !/^[A-Za-z]{3}$/.test(base)) {
+    throw new Error(`Exchange rates "base" must be a currency code, got ${JSON.stringify(base)}`);
+  }
+  if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+    throw new Error('Exchange rates "rates" must be an object of currency code → rate');
+  }
+  for (const [code, rate] of Object.entries(rates)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(
+        `Exchange rate "${code}" must be a positive number, got ${JSON.stringify(rate)}`
+      );
+    }
+  }
+
+  return table as RateTable;
+}
+
+/**
+ * Create a converter over a rate table. Conversions go through the table's base currency.
+ */
+export function createCurrencyConverter(table: RateTable = DEFAULT_RATE_TABLE): CurrencyConverter {
+  const rates = new Map(
+    Object.entries(table.rates).map(([code, rate]) => [code.toUpperCase(), rate])
+  );
+  rates.set(table.base.toUpperCase(), 1);
+
+  const canConvert = (from: string, to: string): boolean =>
+    rates.has(from.toUpperCase()) && rates.has(to.toUpperCase());
+
+  const convert = (amount: number, from: string, to: string): number | null => {
+    const fromRate = rates.get(from.toUpperCase());
+    const toRate = rates.get(to.toUpperCase());
+    if (fromRate === undefined || toRate === undefined) {
+      return null;
+    }
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return amount;
+    }
+    return Math.round((amount / fromRate) * toRate * 100) / 100;
+  };
+
+  return { convert, canConvert, table };
+}
+
+/**
+ * Market whose currency code matches, used to parse a price in that currency's format
+ */
+export function findMarketByCurrency(currency: string): MarketProfile | undefined {
+  const code = currency.toUpperCase();
+  return Object.values(MARKET_PROFILES).find(market => market.currencyCodes.includes(code));
+}
+
+/**
+ * Currency the item's price is quoted in: the market currency when the formatted price shows
+ * it, otherwise the item's currency code when the converter knows it. Null when unknown.
+ */
+export function detectSourceCurrency(
+  item: TikTokItem,
+  market: MarketProfile,
+  converter: CurrencyConverter
+): string | null {
+  if (hasMarketCurrency(market, item.format_price)) {
+    return market.currency;
+  }
+
+  const code = item.currency?.trim().toUpperCase();
+  if (code && converter.canConvert(code, market.currency)) {
+    return code;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a price field in the currency it is quoted in and convert it to the target currency.
+ * Returns null when the source currency cannot be determined or is missing from the rate table.
+ */
+export function convertItemPrice(
+  item: TikTokItem,
+  field: PriceField | null,
+  options: ConversionOptions
+): PriceConversion | null {
+  const { market, converter, targetCurrency = market.currency, hasMarketSignals = false } = options;
+
+  const source =
+    detectSourceCurrency(item, market, converter) ?? (hasMarketSignals ? market.currency : null);
+  if (!source) {
+    return null;
+  }
+
+  // Parse with the separators of the source currency's market, e.g. "586.671.556" for VND
+  const originalPrice = field
+    ? (parseItemPrice(item, field, findMarketByCurrency(source) ?? market).amount ?? 0)
+    : 0;
+  const price = converter.convert(originalPrice, source, targetCurrency);
+  if (price === null) {
+    return null;
+  }
+
+  return {
+    price,
+    currency: targetCurrency.toUpperCase(),
+    original_price: originalPrice,
+    original_currency: source,
+  };
+}
+
+/**
+ * Load the rate table from the `exchangeRates` input, the currency key-value store, or the
+ * bundled snapshot
+ */
+export async function loadRateTable(
+  input: unknown,
+  store: Pick<KeyValueStore, 'getValue'>
+): Promise<RateTable> {
+  if (input !== undefined && input !== null) {
+    return validateRateTable(input);
+  }
+
+  const stored = await store.getValue(EXCHANGE_RATES_KEY);
+  return stored ? validateRateTable(stored) : DEFAULT_RATE_TABLE;
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTableSchema,
+  checkTableDrift,
+  createTableSql,
+  describeDrift,
+  diffTableSchema,
+  hasDrift,
+  migrationSql,
+  normalizeType,
+  parseTableDescription,
+  PRODUCT_COLUMN_TYPES,
+  quoteIdentifier,
+} from './ddl.js';
+import { DEFAULT_FIELD_MAPPING, resolveFieldMapping } from './fieldmapping.js';
+
+const schema = buildTableSchema(DEFAULT_FIELD_MAPPING, 'products');
+
+/** information_schema.columns rows of a table created from the schema */
+const liveColumns = () =>
+  schema.columns.map(column => ({
+    column_name: column.name,
+    data_type: column.type === 'text[]' ? 'ARRAY' : normalizeType(column.type),
+    udt_name: column.type === 'text[]' ? '_text' : column.type,
+    is_nullable: column.nullable ? 'YES' : 'NO',
+    column_default: null,
+  }));
+
+const liveIndexes = [
+  'CREATE UNIQUE INDEX products_pkey ON public.products USING btree (id)',
+  'CREATE UNIQUE INDEX products_platform_id_key ON public.products USING btree (platform_id)',
+  'CREATE INDEX products_trending_score_idx ON public.products USING btree (trending_score DESC)',
+  'CREATE INDEX products_category_id_idx ON public.products USING btree (category_id)',
+];
+
+describe('buildTableSchema', () => {
+  it('should type every column of the default mapping like SupabaseProduct', () => {
+    const types = Object.fromEntries(
+      schema.columns.map(({ name, type, nullable }) => [name, { type, nullable }])
+    );
+    expect(types).toEqual(PRODUCT_COLUMN_TYPES);
+    expect(schema.indexes.map(index => index.column)).toEqual(['trending_score', 'category_id']);
+  });
+
+  it('should infer custom column types from transforms and sources', () => {
+    const mapping = resolveFieldMapping({
+      columns: {
+        id: { source: 'mapped.platform_id' },
+        platform_id: { source: 'product_id_str' },
+        price_cents: { source: 'floor_price', transform: 'int' },
+        price: { source: 'floor_price', transform: 'parsePrice' },
+        featured: { transform: 'constant', value: false },
+        scraped_at: { source: 'run.scraped_at' },
+        extra: { source: 'detail.extra', type: 'jsonb' },
+      },
+    });
+
+    expect(buildTableSchema(mapping, 'items')).toMatchObject({
+      columns: [
+        { name: 'id', type: 'text', nullable: false },
+        { name: 'platform_id', type: 'text', nullable: false },
+        { name: 'price_cents', type: 'integer', nullable: true },
+        { name: 'price', type: 'numeric', nullable: true },
+        { name: 'featured', type: 'boolean', nullable: false },
+        { name: 'scraped_at', type: 'timestamptz', nullable: false },
+        { name: 'extra', type: 'jsonb', nullable: true },
+      ],
+      indexes: [],
+    });
+  });
+});
+
+describe('createTableSql', () => {
+  it('should create the table with the unique key and indexes', () => {
+    const sql = createTableSql(schema);
+
+    expect(sql).toContain('create table if not exists products (\n  title text not null,\n');
+    expect(sql).toContain('  images text[] not null,\n');
+    expect(sql).toContain('  constraint products_platform_id_key unique (platform_id)\n);');
+    expect(sql).toContain(
+      'create index if not exists products_trending_score_idx on products (trending_score desc);'
+    );
+    expect(sql).toContain(
+      'create index if not exists products_category_id_idx on products (category_id);'
+    );
+  });
+
+  it('should quote reserved and mixed-case names', () => {
+    expect(quoteIdentifier('order')).toBe('"order"');
+    expect(quoteIdentifier('shopName')).toBe('"shopName"');
+    expect(quoteIdentifier('shop_name')).toBe('shop_name');
+  });
+});
+
+describe('parseTableDescription', () => {
+  it('should read information_schema rows and pg_indexes rows', () => {
+    const description = parseTableDescription({
+      columns: [
+        { column_name: 'images', data_type: 'ARRAY', udt_name: '_text', is_nullable: 'NO' },
+        { column_name: 'price', data_type: 'numeric(12,2)', is_nullable: 'YES' },
+        { name: 'id', type: 'int8', nullable: false, default: "nextval('products_id_seq')" },
+      ],
+      indexes: [{ indexname: 'products_pkey', indexdef: liveIndexes[0] }],
+    });
+
+    expect(description).toEqual({
+      columns: [
+        { name: 'images', type: 'text[]', nullable: false, hasDefault: false },
+        { name: 'price', type: 'numeric', nullable: true, hasDefault: false },
+        { name: 'id', type: 'bigint', nullable: false, hasDefault: true },
+      ],
+      indexes: [liveIndexes[0]],
+    });
+    expect(parseTableDescription(liveColumns()).indexes).toBe(null);
+  });
+
+  it('should fail fast on malformed descriptions', () => {
+    expect(() => parseTableDescription('products')).toThrow('tableDescription');
+    expect(() => parseTableDescription([])).toThrow('non-empty array');
+    expect(() => parseTableDescription([{ data_type: 'text' }])).toThrow('columns[0]');
+    expect(() => parseTableDescription({ columns: liveColumns(), indexes: [1] })).toThrow(
+      'indexes[0]'
+    );
+  });
+});
+
+describe('diffTableSchema', () => {
+  it('should find no drift in a table created from the schema', () => {
+    const drift = diffTableSchema(
+      schema,
+      parseTableDescription({ columns: liveColumns(), indexes: liveIndexes })
+    );
+
+    expect(hasDrift(drift)).toBe(false);
+    expect(drift.uniqueKey).toBe(true);
+    expect(migrationSql(schema, drift)).toBe('');
+  });
+
+  it('should report drift and generate the migration', () => {
+    const columns = liveColumns()
+      .filter(column => column.column_name !== 'cluster_id')
+      .map(column =>
+        column.column_name === 'orders_7d'
+          ? { ...column, data_type: 'text' }
+          : column.column_name === 'brand'
+            ? { ...column, is_nullable: 'NO' }
+            : column
+      );
+    columns.push({
+      column_name: 'legacy_code',
+      data_type: 'text',
+      udt_name: 'text',
+      is_nullable: 'NO',
+      column_default: null,
+    });
+    const drift = diffTableSchema(
+      schema,
+      parseTableDescription({ columns, indexes: liveIndexes.slice(0, 1) })
+    );
+
+    expect(hasDrift(drift)).toBe(true);
+    expect(describeDrift(drift)).toEqual([
+      'missing column cluster_id text',
+      'column orders_7d is text, mapping needs integer',
+      'column brand is NOT NULL but may be null',
+      'column legacy_code is NOT NULL without a default and not mapped',
+      'no unique constraint on products.platform_id',
+      'missing index on trending_score',
+      'missing index on category_id',
+    ]);
+    expect(migrationSql(schema, drift).split('\n')).toEqual([
+      'alter table products add column if not exists cluster_id text;',
+      'alter table products alter column orders_7d type integer using orders_7d::integer;',
+      'alter table products alter column brand drop not null;',
+      'alter table products add constraint products_platform_id_key unique (platform_id);',
+      'create index if not exists products_trending_score_idx on products (trending_score desc);',
+      'create index if not exists products_category_id_idx on products (category_id);',
+    ]);
+  });
+
+  it('should only warn about missing indexes before a run', () => {
+    const description = parseTableDescription({ columns: liveColumns(), indexes: liveIndexes });
+    expect(checkTableDrift(schema, description)).toEqual([]);
+
+    const withoutIndexes = parseTableDescription({
+      columns: liveColumns(),
+      indexes: liveIndexes.slice(0, 2),
+    });
+    expect(checkTableDrift(schema, withoutIndexes)).toEqual([
+      'missing index on trending_score',
+      'missing index on category_id',
+    ]);
+  });
+
+  it('should fail a run on drift that breaks upserts', () => {
+    const columns = liveColumns().filter(column => column.column_name !== 'cluster_id');
+    const missingColumn = parseTableDescription({ columns, indexes: liveIndexes.slice(0, 2) });
+    expect(() => checkTableDrift(schema, missingColumn)).toThrow(
+      'Table "products" does not match the field mapping: missing column cluster_id text; ' +
+        'missing index on trending_score'
+    );
+
+    const noUniqueKey = parseTableDescription({
+      columns: liveColumns(),
+      indexes: liveIndexes.filter((_, i) => i !== 1),
+    });
+    expect(() => checkTableDrift(schema, noUniqueKey)).toThrow('no unique constraint');
+  });
+
+  it('should skip index checks without index definitions', () => {
+    const drift = diffTableSchema(schema, parseTableDescription(liveColumns()));
+
+    expect(drift).toMatchObject({ indexesChecked: false, uniqueKey: null, missingIndexes: [] });
+    expect(hasDrift(drift)).toBe(false);
+  });
+});
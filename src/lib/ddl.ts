@@ -0,0 +1,465 @@
+/**
+ * Postgres DDL for the output table: `create table` SQL generated from the field mapping, and
+ * a diff against the live table (information_schema / pg_indexes) with the `alter table`
+ * migration that fixes it
+ */
+
+import type { ColumnMapping, FieldMapping } from './fieldmapping.js';
+import type { SupabaseProduct } from './mapping.js';
+
+export interface ColumnType {
+  type: string;
+  nullable: boolean;
+}
+
+export interface ColumnDefinition extends ColumnType {
+  name: string;
+}
+
+export interface IndexDefinition {
+  name: string;
+  column: string;
+  descending: boolean;
+}
+
+/**
+ * Table the mapped rows are upserted into
+ */
+export interface TableSchema {
+  table: string;
+  columns: ColumnDefinition[];
+  /** Upsert key, unique */
+  key: string;
+  indexes: IndexDefinition[];
+}
+
+export interface ColumnDescription extends ColumnType {
+  name: string;
+  /** Whether the column has a default, so inserts may leave it out */
+  hasDefault: boolean;
+}
+
+/**
+ * Live table, from information_schema.columns and optionally pg_indexes
+ */
+export interface TableDescription {
+  columns: ColumnDescription[];
+  /** Index definitions (pg_indexes.indexdef); null when not provided */
+  indexes: string[] | null;
+}
+
+export interface SchemaDrift {
+  table: string;
+  /** Mapped columns the table lacks */
+  missingColumns: ColumnDefinition[];
+  typeMismatches: Array<{ column: string; expected: string; actual: string }>;
+  /** Columns the mapping may leave null that are NOT NULL in the table */
+  notNullColumns: string[];
+  /** Table columns the mapping does not fill; `required` when NOT NULL without a default */
+  extraColumns: Array<{ column: string; required: boolean }>;
+  /** False when the key column has no unique index, so on_conflict upserts fail */
+  uniqueKey: boolean | null;
+  missingIndexes: IndexDefinition[];
+  /** Whether indexes were described; without them uniqueKey is null and indexes unchecked */
+  indexesChecked: boolean;
+}
+
+/**
+ * Postgres type of every SupabaseProduct field. Typed by the interface, so a new field does
+ * not compile until it has a column type.
+ */
+export const PRODUCT_COLUMN_TYPES: Record<keyof SupabaseProduct, ColumnType> = {
+  title: { type: 'text', nullable: false },
+  image_url: { type: 'text', nullable: true },
+  price: { type: 'numeric', nullable: false },
+  original_price: { type: 'numeric', nullable: false },
+  original_currency: { type: 'text', nullable: false },
+  orders_24h: { type: 'integer', nullable: true },
+  orders_7d: { type: 'integer', nullable: true },
+  sold_count_total: { type: 'bigint', nullable: true },
+  rating: { type: 'numeric', nullable: false },
+  reviews_count: { type: 'integer', nullable: false },
+  trending_score: { type: 'numeric', nullable: false },
+  shop_name: { type: 'text', nullable: true },
+  category_id: { type: 'integer', nullable: true },
+  commission_rate: { type: 'numeric', nullable: true },
+  affiliate_available: { type: 'boolean', nullable: true },
+  estimated_earnings_per_sale: { type: 'numeric', nullable: true },
+  seller_id: { type: 'text', nullable: true },
+  seller_name: { type: 'text', nullable: true },
+  platform_id: { type: 'text', nullable: false },
+  currency: { type: 'text', nullable: false },
+  source: { type: 'text', nullable: true },
+  description: { type: 'text', nullable: true },
+  brand: { type: 'text', nullable: true },
+  category_path: { type: 'text', nullable: true },
+  images: { type: 'text[]', nullable: false },
+  variants: { type: 'jsonb', nullable: true },
+  cluster_id: { type: 'text', nullable: true },
+};
+
+/**
+ * Indexed columns, when the mapping has them: the trending feed sorts by score and filters
+ * by category
+ */
+const INDEXED_COLUMNS: Array<{ column: string; descending: boolean }> = [
+  { column: 'trending_score', descending: true },
+  { column: 'category_id', descending: false },
+];
+
+const TRANSFORM_TYPES: Partial<Record<NonNullable<ColumnMapping['transform']>, string>> = {
+  parsePrice: 'numeric',
+  pickImageUrl: 'text',
+  int: 'integer',
+  float: 'numeric',
+  trim: 'text',
+  template: 'text',
+};
+
+/**
+ * Postgres spellings of the same type, to their information_schema name
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'integer',
+  int4: 'integer',
+  int2: 'smallint',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  decimal: 'numeric',
+  bool: 'boolean',
+  varchar: 'character varying',
+  timestamptz: 'timestamp with time zone',
+  timestamp: 'timestamp without time zone',
+};
+
+const RESERVED_WORDS = new Set(
+  (
+    'all and any array as asc both case cast check collate column constraint create current_date ' +
+    'default desc distinct do else end except false fetch for foreign from grant group having in ' +
+    'into is leading limit not null offset on only or order primary references returning select ' +
+    'some table then to trailing true union unique user using when where window with'
+  ).split(' ')
+);
+
+/**
+ * Identifier as SQL, quoted when it is not a plain lowercase name or is reserved
+ */
+export function quoteIdentifier(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name)
+    ? name
+    : `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Type name as information_schema reports it: aliases resolved, length and precision
+ * dropped, arrays as `<element>[]`
+ */
+export function normalizeType(type: string): string {
+  const name = type.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (name.endsWith('[]')) {
+    return `${normalizeType(name.slice(0, -2))}[]`;
+  }
+  // udt_name of arrays: _text, _int4
+  if (name.startsWith('_')) {
+    return `${normalizeType(name.slice(1))}[]`;
+  }
+  const base = name.replace(/\s*\(.*\)/, '');
+  return TYPE_ALIASES[base] ?? base;
+}
+
+/**
+ * Type of a mapped column: its explicit `type`, else the built-in column it copies, else what
+ * its transform produces. Raw values copied without a transform are text.
+ */
+function columnType(column: ColumnMapping): ColumnType {
+  const sources = column.source === undefined ? [] : [column.source].flat();
+  const hasDefault = column.default !== undefined && column.default !== null;
+  const [scope, field] = (sources[0] ?? '').split('.');
+  const builtIn =
+    sources.length === 1 && scope === 'mapped' && field && field in PRODUCT_COLUMN_TYPES
+      ? PRODUCT_COLUMN_TYPES[field as keyof SupabaseProduct]
+      : undefined;
+
+  let type = 'text';
+  let nullable = !hasDefault;
+  if (column.transform === 'constant') {
+    const { value } = column;
+    if (typeof value === 'number') type = Number.isInteger(value) ? 'integer' : 'numeric';
+    else if (typeof value === 'boolean') type = 'boolean';
+    else if (value !== null && typeof value === 'object') type = 'jsonb';
+    nullable = (value === null || value === undefined) && !hasDefault;
+  } else if (column.transform) {
+    type = TRANSFORM_TYPES[column.transform] ?? 'text';
+  } else if (builtIn) {
+    type = builtIn.type;
+    nullable = builtIn.nullable && !hasDefault;
+  } else if (scope === 'run' && field === 'scraped_at') {
+    type = 'timestamptz';
+    nullable = false;
+  }
+
+  return { type: column.type?.trim() ?? type, nullable };
+}
+
+/**
+ * Table schema of a field mapping: one column per mapped column, unique on platform_id, and
+ * indexes on trending_score and category_id when mapped
+ */
+export function buildTableSchema(mapping: FieldMapping, table: string): TableSchema {
+  const columns = Object.entries(mapping).map(([name, column]) => ({
+    name,
+    ...columnType(column),
+    ...(name === 'platform_id' && { nullable: false }),
+  }));
+  const indexes = INDEXED_COLUMNS.filter(({ column }) => column in mapping).map(index => ({
+    ...index,
+    name: `${table}_${index.column}_idx`,
+  }));
+  return { table, columns, key: 'platform_id', indexes };
+}
+
+const columnSql = (column: ColumnDefinition): string =>
+  `${quoteIdentifier(column.name)} ${column.type}${column.nullable ? '' : ' not null'}`;
+
+const indexSql = (schema: TableSchema, index: IndexDefinition): string =>
+  `create index if not exists ${quoteIdentifier(index.name)} on ${quoteIdentifier(schema.table)} ` +
+  `(${quoteIdentifier(index.column)}${index.descending ? ' desc' : ''});`;
+
+const uniqueKeyName = (schema: TableSchema): string => `${schema.table}_${schema.key}_key`;
+
+/**
+ * `create table` statement with the unique key, followed by the indexes
+ */
+export function createTableSql(schema: TableSchema): string {
+  const table = quoteIdentifier(schema.table);
+  const lines = [
+    ...schema.columns.map(column => `  ${columnSql(column)},`),
+    `  constraint ${quoteIdentifier(uniqueKeyName(schema))} unique (${quoteIdentifier(schema.key)})`,
+  ];
+  return [
+    `create table if not exists ${table} (\n${lines.join('\n')}\n);`,
+    ...schema.indexes.map(index => indexSql(schema, index)),
+  ].join('\n\n');
+}
+
+const isYes = (value: unknown): boolean =>
+  value === true || (typeof value === 'string' && value.trim().toUpperCase() === 'YES');
+
+function parseColumnDescription(row: unknown, at: string): ColumnDescription {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    throw new Error(`${at}" must be an object`);
+  }
+  const r = row as Record<string, unknown>;
+  const name = r.column_name ?? r.name;
+  if (typeof name !== 'string' || !name) {
+    throw new Error(`${at}" needs a "column_name"`);
+  }
+  // information_schema reports arrays as ARRAY with the element type in udt_name (_text)
+  const dataType = r.data_type ?? r.type;
+  const type =
+    typeof dataType === 'string' &&
+    dataType.toUpperCase() === 'ARRAY' &&
+    typeof r.udt_name === 'string'
+      ? r.udt_name
+      : dataType;
+  if (typeof type !== 'string' || !type) {
+    throw new Error(`${at}" needs a "data_type"`);
+  }
+  const nullable = r.is_nullable !== undefined ? isYes(r.is_nullable) : r.nullable !== false;
+  const columnDefault = r.column_default ?? r.default;
+  return {
+    name,
+    type: normalizeType(type),
+    nullable,
+    hasDefault: columnDefault !== undefined && columnDefault !== null,
+  };
+}
+
+/**
+ * Parse a table description: information_schema.columns rows (column_name, data_type,
+ * udt_name, is_nullable, column_default), either as an array or as `{ columns, indexes }` with
+ * pg_indexes rows or index definitions. Fails fast on malformed descriptions.
+ */
+export function parseTableDescription(input: unknown): TableDescription {
+  const description = Array.isArray(input) ? { columns: input } : input;
+  if (!description || typeof description !== 'object') {
+    throw new Error('Input "tableDescription" must be an array of columns or { columns, indexes }');
+  }
+  const { columns, indexes } = description as { columns?: unknown; indexes?: unknown };
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new Error('Input "tableDescription.columns" must be a non-empty array');
+  }
+  if (indexes !== undefined && !Array.isArray(indexes)) {
+    throw new Error('Input "tableDescription.indexes" must be an array of pg_indexes rows');
+  }
+
+  return {
+    columns: columns.map((row, i) =>
+      parseColumnDescription(row, `Input "tableDescription.columns[${i}]`)
+    ),
+    indexes:
+      indexes?.map((index, i) => {
+        const definition =
+          typeof index === 'string' ? index : (index as { indexdef?: unknown })?.indexdef;
+        if (typeof definition !== 'string') {
+          throw new Error(`Input "tableDescription.indexes[${i}]" must be an indexdef string`);
+        }
+        return definition;
+      }) ?? null,
+  };
+}
+
+/**
+ * Columns of an index definition, lowercased and unquoted, with whether it is unique
+ */
+function indexColumns(definition: string): { unique: boolean; columns: string[] } {
+  const match = definition.match(/\(([^()]*)\)\s*(?:include\s*\(.*\)\s*)?(?:where .*)?$/i);
+  const columns = (match?.[1] ?? '')
+    .split(',')
+    .map(part => part.trim().split(/\s+/)[0].replace(/"/g, '').toLowerCase())
+    .filter(Boolean);
+  return { unique: /^\s*create\s+unique\s+index/i.test(definition), columns };
+}
+
+/**
+ * Compare the schema with the live table
+ */
+export function diffTableSchema(schema: TableSchema, description: TableDescription): SchemaDrift {
+  const existing = new Map(description.columns.map(column => [column.name, column]));
+  const mapped = new Set(schema.columns.map(column => column.name));
+
+  const drift: SchemaDrift = {
+    table: schema.table,
+    missingColumns: [],
+    typeMismatches: [],
+    notNullColumns: [],
+    extraColumns: description.columns
+      .filter(column => !mapped.has(column.name))
+      .map(column => ({ column: column.name, required: !column.nullable && !column.hasDefault })),
+    uniqueKey: null,
+    missingIndexes: [],
+    indexesChecked: description.indexes !== null,
+  };
+
+  for (const column of schema.columns) {
+    const actual = existing.get(column.name);
+    if (!actual) {
+      drift.missingColumns.push(column);
+      continue;
+    }
+    const expected = normalizeType(column.type);
+    if (expected !== actual.type) {
+      drift.typeMismatches.push({ column: column.name, expected, actual: actual.type });
+    }
+    if (column.nullable && !actual.nullable) {
+      drift.notNullColumns.push(column.name);
+    }
+  }
+
+  if (description.indexes) {
+    const indexes = description.indexes.map(indexColumns);
+    drift.uniqueKey = indexes.some(
+      index => index.unique && index.columns.length === 1 && index.columns[0] === schema.key
+    );
+    drift.missingIndexes = schema.indexes.filter(
+      index => !indexes.some(existingIndex => existingIndex.columns[0] === index.column)
+    );
+  }
+
+  return drift;
+}
+
+/**
+ * Whether upserts of the mapped rows would fail
+ */
+export function breaksWrites(drift: SchemaDrift): boolean {
+  return (
+    drift.missingColumns.length > 0 ||
+    drift.typeMismatches.length > 0 ||
+    drift.notNullColumns.length > 0 ||
+    drift.extraColumns.some(column => column.required) ||
+    drift.uniqueKey === false
+  );
+}
+
+/**
+ * Whether upserts of the mapped rows would fail or run without the expected indexes
+ */
+export function hasDrift(drift: SchemaDrift): boolean {
+  return breaksWrites(drift) || drift.missingIndexes.length > 0;
+}
+
+/**
+ * Check the live table before a run: throws on drift that makes upserts fail, and returns the
+ * drift that does not (missing indexes) as warnings
+ */
+export function checkTableDrift(schema: TableSchema, description: TableDescription): string[] {
+  const drift = diffTableSchema(schema, description);
+  if (breaksWrites(drift)) {
+    throw new Error(
+      `Table "${schema.table}" does not match the field mapping: ` +
+        `${describeDrift(drift).join('; ')}. Run with mode "schema" for the migration SQL`
+    );
+  }
+  return describeDrift(drift);
+}
+
+/**
+ * One line per problem, for logs and errors
+ */
+export function describeDrift(drift: SchemaDrift): string[] {
+  return [
+    ...drift.missingColumns.map(column => `missing column ${column.name} ${column.type}`),
+    ...drift.typeMismatches.map(
+      ({ column, expected, actual }) => `column ${column} is ${actual}, mapping needs ${expected}`
+    ),
+    ...drift.notNullColumns.map(column => `column ${column} is NOT NULL but may be null`),
+    ...drift.extraColumns
+      .filter(column => column.required)
+      .map(({ column }) => `column ${column} is NOT NULL without a default and not mapped`),
+    ...(drift.uniqueKey === false ? [`no unique constraint on ${drift.table}.platform_id`] : []),
+    ...drift.missingIndexes.map(index => `missing index on ${index.column}`),
+  ];
+}
+
+/**
+ * `alter table` statements that bring the table in line with the schema. Unmapped columns
+ * are left alone; required ones are reported by describeDrift.
+ */
+export function migrationSql(schema: TableSchema, drift: SchemaDrift): string {
+  const table = quoteIdentifier(schema.table);
+  const statements: string[] = [];
+
+  for (const column of drift.missingColumns) {
+    statements.push(
+      `alter table ${table} add column if not exists ${quoteIdentifier(column.name)} ${column.type};`
+    );
+    if (!column.nullable) {
+      // Fails while existing rows have no value; backfill first
+      statements.push(
+        `alter table ${table} alter column ${quoteIdentifier(column.name)} set not null;`
+      );
+    }
+  }
+  for (const { column, expected } of drift.typeMismatches) {
+    const name = quoteIdentifier(column);
+    statements.push(
+      `alter table ${table} alter column ${name} type ${expected} using ${name}::${expected};`
+    );
+  }
+  for (const column of drift.notNullColumns) {
+    statements.push(`alter table ${table} alter column ${quoteIdentifier(column)} drop not null;`);
+  }
+  if (drift.uniqueKey === false) {
+    statements.push(
+      `alter table ${table} add constraint ${quoteIdentifier(uniqueKeyName(schema))} ` +
+        `unique (${quoteIdentifier(schema.key)});`
+    );
+  }
+  for (const index of drift.missingIndexes) {
+    statements.push(indexSql(schema, index));
+  }
+
+  return statements.join('\n');
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { chunk, isRetryableStatus, withRetries } from './delivery.js';
+
+const fast = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 2 };
+
+describe('chunk', () => {
+  it('should split items into batches of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('should retry rate limits and server errors only', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(201)).toBe(false);
+  });
+});
+
+describe('withRetries', () => {
+  it('should retry until the operation succeeds', async () => {
+    let attempts = 0;
+    const result = await withRetries(async () => {
+      attempts++;
+      if (attempts < 3) throw new Error('busy');
+      return 'ok';
+    }, fast);
+
+    expect(result).toBe('ok');
+    expect(attempts).toBe(3);
+  });
+
+  it('should rethrow the last error when retries are exhausted', async () => {
+    let attempts = 0;
+    const failing = withRetries(async () => {
+      attempts++;
+      throw new Error(`attempt ${attempts}`);
+    }, fast);
+
+    await expect(failing).rejects.toThrow('attempt 3');
+  });
+});
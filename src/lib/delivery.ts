@@ -0,0 +1,94 @@
+/**
+ * Batching and retry policy shared by the output sinks
+ */
+
+import { httpRequest, HttpRequestOptions, HttpResponse } from './http.js';
+import { backoffDelay } from './sessions.js';
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface DeliveryPolicy extends RetryOptions {
+  /** Records per request or write */
+  batchSize: number;
+}
+
+export const DEFAULT_DELIVERY_POLICY: DeliveryPolicy = {
+  batchSize: 100,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Statuses worth retrying: rate limits and server errors
+ */
+export const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Split records into batches of at most `size`
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+}
+
+/**
+ * Run an operation, retrying when it throws with exponential backoff. Rethrows the error of
+ * the last attempt.
+ */
+export async function withRetries<T>(operation: () => Promise<T>, retry: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retry.maxRetries) throw error;
+      await sleep(backoffDelay(attempt, retry.baseDelayMs, retry.maxDelayMs));
+    }
+  }
+}
+
+/**
+ * Send a request, retrying 429, 5xx and network errors with exponential backoff. A
+ * `Retry-After` header (seconds) replaces the backoff delay. Returns the last response; throws
+ * when the last attempt failed with a network error.
+ */
+export async function requestWithRetries(
+  url: string,
+  options: HttpRequestOptions,
+  retry: RetryOptions
+): Promise<HttpResponse> {
+  let delayMs = 0;
+  for (let attempt = 0; ; attempt++) {
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+
+    let response: HttpResponse;
+    try {
+      response = await httpRequest(url, options);
+    } catch (error) {
+      if (attempt >= retry.maxRetries) throw error;
+      delayMs = backoffDelay(attempt, retry.baseDelayMs, retry.maxDelayMs);
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= retry.maxRetries) {
+      return response;
+    }
+    const retryAfter = Number(response.headers['retry-after']);
+    delayMs =
+      Number.isFinite(retryAfter) && retryAfter >= 0
+        ? Math.min(retryAfter * 1000, retry.maxDelayMs)
+        : backoffDelay(attempt, retry.baseDelayMs, retry.maxDelayMs);
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFieldMapping,
+  DEFAULT_FIELD_MAPPING,
+  FieldMappingContext,
+  resolveFieldMapping,
+} from './fieldmapping.js';
+import { mapToSupabase } from './mapping.js';
+import { MARKET_PROFILES } from './markets.js';
+import type { TikTokItem } from './schema.js';
+
+const item: TikTokItem = {
+  product_id_str: '1729384756',
+  title: '  Secador Taiff Style 2000W  ',
+  cover: 'https://example.com/cover.jpg',
+  img: ['https://example.com/img1.jpg'],
+  format_price: 'R$ 1.149,90',
+  schema: 'https://shop.tiktok.com/view/product/1729384756',
+  seller_product_info: { seller_name: 'Loja Beleza ', seller_id: 987 },
+  product_rating: '4.6',
+  review_count: '89',
+  sold_count: '1520',
+  source: 'search:secador',
+  detail: {
+    description: 'Secador profissional',
+    brand: 'Taiff',
+    category_path: [{ id: '601152', name: 'Beleza' }],
+    images: ['https://example.com/g1.jpg'],
+    specs: {},
+    variants: [],
+  },
+};
+
+const context = (raw: TikTokItem): FieldMappingContext => ({
+  raw,
+  mapped: mapToSupabase(raw),
+  run: { scraped_at: '2024-01-15T06:00:00.000Z', region: 'BR', source: 'live' },
+  market: MARKET_PROFILES.BR,
+});
+
+const apply = (columns: Record<string, unknown>, raw = item) =>
+  applyFieldMapping(resolveFieldMapping({ columns }), context(raw));
+
+describe('DEFAULT_FIELD_MAPPING', () => {
+  it('should reproduce mapToSupabase', () => {
+    const items: TikTokItem[] = [
+      item,
+      { product_id: 987, title: '' },
+      { product_id_str: 'vn1', format_price: '586.671.556₫', product_rating: 3.8, review_count: 0 },
+    ];
+    for (const raw of items) {
+      const ctx = context(raw);
+      expect(applyFieldMapping(DEFAULT_FIELD_MAPPING, ctx)).toEqual(ctx.mapped);
+    }
+  });
+});
+
+describe('applyFieldMapping', () => {
+  it('should parse minor-unit floor_price like the mapping stage', () => {
+    const raw = { ...item, floor_price: '114990', ceiling_price: 129990 };
+    const row = apply(
+      {
+        platform_id: { source: 'mapped.platform_id' },
+        preco: { source: 'floor_price', transform: 'parsePrice' },
+        preco_max: { source: 'raw.ceiling_price', transform: 'parsePrice' },
+      },
+      raw
+    );
+
+    expect(row).toMatchObject({ preco: 1149.9, preco_max: 1299.9 });
+    expect(row.preco).toBe(mapToSupabase(raw).price);
+  });
+
+  it('should rename columns and apply transforms', () => {
+    const row = apply({
+      external_id: { source: 'product_id_str' },
+      platform_id: { source: 'mapped.platform_id' },
+      nome: { source: 'title', transform: 'trim' },
+      preco: { source: 'format_price', transform: 'parsePrice' },
+      capa: { source: ['missing_cover', 'img'], transform: 'pickImageUrl' },
+      vendidos: { source: 'sold_count', transform: 'int' },
+      nota: { source: 'product_rating', transform: 'float' },
+      vendedor: { source: 'seller_product_info.seller_id', transform: 'trim' },
+    });
+
+    expect(row).toEqual({
+      external_id: '1729384756',
+      platform_id: '1729384756',
+      nome: 'Secador Taiff Style 2000W',
+      preco: 1149.9,
+      capa: 'https://example.com/img1.jpg',
+      vendidos: 1520,
+      nota: 4.6,
+      vendedor: '987',
+    });
+  });
+
+  it('should fill constants, templates and run values', () => {
+    const row = apply({
+      platform_id: { source: 'product_id_str' },
+      source_url: {
+        transform: 'template',
+        template: 'https://shop.tiktok.com/view/product/{product_id_str}?region={run.region}',
+      },
+      scraped_at: { source: 'run.scraped_at' },
+      marketplace: { transform: 'constant', value: 'tiktok' },
+      score: { source: 'mapped.trending_score' },
+    });
+
+    expect(row).toMatchObject({
+      source_url: 'https://shop.tiktok.com/view/product/1729384756?region=BR',
+      scraped_at: '2024-01-15T06:00:00.000Z',
+      marketplace: 'tiktok',
+    });
+    expect(typeof row.score).toBe('number');
+  });
+
+  it('should use the first source with a value, then the default', () => {
+    const row = apply({
+      platform_id: { source: 'product_id_str' },
+      url: { source: ['canonical_url', 'schema'] },
+      warehouse: { source: 'warehouse_region', default: 'unknown' },
+      brand_url: { transform: 'template', template: '/brands/{detail.missing}', default: null },
+      stock: { source: 'title', transform: 'int', default: 0 },
+    });
+
+    expect(row).toMatchObject({
+      url: 'https://shop.tiktok.com/view/product/1729384756',
+      warehouse: 'unknown',
+      brand_url: null,
+      stock: 0,
+    });
+  });
+
+  it('should extend the default spec', () => {
+    const row = applyFieldMapping(
+      resolveFieldMapping({
+        extends: 'default',
+        columns: { shop_name: null, scraped_at: { source: 'run.scraped_at' } },
+      }),
+      context(item)
+    );
+
+    expect(row).not.toHaveProperty('shop_name');
+    expect(row.scraped_at).toBe('2024-01-15T06:00:00.000Z');
+    expect(row.title).toBe('Secador Taiff Style 2000W');
+  });
+});
+
+describe('resolveFieldMapping', () => {
+  it('should default to the built-in spec', () => {
+    expect(resolveFieldMapping(undefined)).toBe(DEFAULT_FIELD_MAPPING);
+  });
+
+  it('should fail fast on invalid specs', () => {
+    const invalid =
+      (columns: unknown, extra = {}) =>
+      () =>
+        resolveFieldMapping({
+          columns: { platform_id: { source: 'product_id_str' }, ...(columns as object) },
+          ...extra,
+        });
+
+    expect(() => resolveFieldMapping([])).toThrow('must be an object with "columns"');
+    expect(() => resolveFieldMapping({ columns: {} })).toThrow('"platform_id" column');
+    expect(invalid({}, { extends: 'v1' })).toThrow('fieldMapping.extends');
+    expect(invalid({ price: { source: 'format_price', transform: 'money' } })).toThrow(
+      'Input "fieldMapping.columns.price.transform" must be one of parsePrice'
+    );
+    expect(invalid({ preço: { source: 'format_price' } })).toThrow('not a valid column name');
+    expect(invalid({ price: { transform: 'float' } })).toThrow('needs a "source" path');
+    expect(invalid({ price: { source: 'a..b' } })).toThrow('must be a dot path');
+    expect(invalid({ price: { source: 'run.started_at' } })).toThrow('run.scraped_at');
+    expect(invalid({ price: { source: 'format_price', fallback: 0 } })).toThrow(
+      'unknown keys: fallback'
+    );
+    expect(invalid({ tag: { transform: 'constant' } })).toThrow('needs a "value"');
+    expect(invalid({ url: { transform: 'template', template: '/p/{id' } })).toThrow('unbalanced');
+    expect(invalid({ title: null })).toThrow('must be an object');
+    expect(invalid({ price: { source: 'format_price', type: 'numeric; drop' } })).toThrow(
+      'price.type" must be a Postgres type name'
+    );
+  });
+});
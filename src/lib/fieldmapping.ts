@@ -0,0 +1,359 @@
+/**
+ * Declarative field mapping: output columns declared as source paths, a transform and a
+ * default, so another table schema is an input instead of a change to mapToSupabase
+ */
+
+import type { SupabaseProduct } from './mapping.js';
+import { MARKET_PROFILES, MarketProfile } from './markets.js';
+import { parseItemPrice, parsePriceText, PriceField } from './prices.js';
+import { resolveField } from './rules.js';
+import type { TikTokItem } from './schema.js';
+import { pickImageUrl } from './utils.js';
+
+export type FieldTransform =
+  'parsePrice' | 'pickImageUrl' | 'int' | 'float' | 'trim' | 'constant' | 'template';
+
+export const FIELD_TRANSFORMS: FieldTransform[] = [
+  'parsePrice',
+  'pickImageUrl',
+  'int',
+  'float',
+  'trim',
+  'constant',
+  'template',
+];
+
+/**
+ * How one output column is filled
+ */
+export interface ColumnMapping {
+  /**
+   * Dot path on the raw item (`title`, `seller_product_info.seller_name`), on the built-in
+   * mapping (`mapped.trending_score`) or on the run (`run.scraped_at`). With several paths the
+   * first one with a value is used; pickImageUrl takes them all.
+   */
+  source?: string | string[];
+  /** Applied to the source value; without it the value is copied as is */
+  transform?: FieldTransform;
+  /** constant: the value */
+  value?: unknown;
+  /** template: text with `{path}` placeholders, null when a placeholder has no value */
+  template?: string;
+  /** Used when the column would be null */
+  default?: unknown;
+  /** Postgres type in the generated table SQL, when the inferred one does not fit */
+  type?: string;
+}
+
+/**
+ * Output columns in order
+ */
+export type FieldMapping = Record<string, ColumnMapping>;
+
+/**
+ * The `fieldMapping` input: columns, optionally on top of the default spec. With `extends`,
+ * a column set to null is dropped from the default.
+ */
+export interface FieldMappingSpec {
+  extends?: 'default';
+  columns: Record<string, ColumnMapping | null>;
+}
+
+/**
+ * A mapped output row; platform_id is always set since sinks and upserts key on it
+ */
+export interface MappedRow {
+  platform_id: string;
+  [column: string]: unknown;
+}
+
+/**
+ * Run values available under `run.`
+ */
+export interface RunInfo {
+  /** ISO timestamp of the run */
+  scraped_at: string;
+  region: string;
+  /** Product source: live, replay or mock */
+  source: string;
+}
+
+export interface FieldMappingContext {
+  raw: TikTokItem;
+  /** Product as mapped by mapToSupabase and the later stages */
+  mapped: SupabaseProduct;
+  run: RunInfo;
+  /** Number format for parsePrice */
+  market?: MarketProfile;
+}
+
+const RUN_FIELDS: Array<keyof RunInfo> = ['scraped_at', 'region', 'source'];
+
+const COLUMN_KEYS = ['source', 'transform', 'value', 'template', 'default', 'type'];
+
+const COLUMN_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Type names like `text`, `numeric(12,2)`, `timestamp with time zone` or `text[]` */
+const COLUMN_TYPE_PATTERN = /^[A-Za-z][A-Za-z0-9_ ]*(\(\d+(,\s*\d+)?\))?(\[\])?$/;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * The built-in mapping as a spec. Columns read from the raw item are parsed the way
+ * mapToSupabase parses them; columns computed by later stages (price conversion, velocity,
+ * scoring, clustering) read the built-in mapping.
+ */
+export const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  title: { source: 'title', transform: 'trim', default: 'Untitled Product' },
+  image_url: { source: ['cover', 'img'], transform: 'pickImageUrl' },
+  price: { source: 'mapped.price' },
+  original_price: { source: 'mapped.original_price' },
+  original_currency: { source: 'mapped.original_currency' },
+  orders_24h: { source: 'mapped.orders_24h' },
+  orders_7d: { source: 'mapped.orders_7d' },
+  sold_count_total: { source: 'mapped.sold_count_total' },
+  rating: { source: 'product_rating', transform: 'float', default: 0 },
+  reviews_count: { source: 'review_count', transform: 'int', default: 0 },
+  trending_score: { source: 'mapped.trending_score' },
+  shop_name: { source: 'seller_product_info.seller_name', transform: 'trim' },
+  category_id: { source: 'mapped.category_id' },
+  commission_rate: { source: 'mapped.commission_rate' },
+  affiliate_available: { source: 'mapped.affiliate_available' },
+  estimated_earnings_per_sale: { source: 'mapped.estimated_earnings_per_sale' },
+  seller_id: {
+    source: ['seller_product_info.seller_id_str', 'seller_product_info.seller_id'],
+    transform: 'trim',
+  },
+  seller_name: { source: 'seller_product_info.seller_name', transform: 'trim' },
+  platform_id: { source: 'mapped.platform_id' },
+  currency: { source: 'mapped.currency' },
+  source: { source: 'source' },
+  description: { source: 'detail.description' },
+  brand: { source: 'detail.brand' },
+  category_path: { source: 'mapped.category_path' },
+  images: { source: 'mapped.images' },
+  variants: { source: 'mapped.variants' },
+  cluster_id: { source: 'mapped.cluster_id' },
+};
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const getPath = (obj: unknown, path: string[]): unknown =>
+  path.reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    obj
+  );
+
+/**
+ * Value of a source path: `run.` paths read the run, others resolve like filter rule fields
+ */
+function resolveSource(context: FieldMappingContext, path: string): unknown {
+  const [scope, ...rest] = path.split('.');
+  if (scope === 'run') {
+    return getPath(context.run, rest);
+  }
+  return resolveField({ raw: context.raw, mapped: () => context.mapped }, path);
+}
+
+const toNumber = (value: unknown, parse: (text: string) => number): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const number = parse(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+const renderTemplate = (template: string, context: FieldMappingContext): string | null => {
+  let missing = false;
+  const text = template.replace(PLACEHOLDER_PATTERN, (_, path: string) => {
+    const value = resolveSource(context, path.trim());
+    if (isMissing(value)) missing = true;
+    return isMissing(value) ? '' : String(value);
+  });
+  return missing ? null : text;
+};
+
+/** Raw price fields that may hold minor units, checked against format_price */
+const ITEM_PRICE_FIELDS: PriceField[] = ['floor_price', 'ceiling_price'];
+
+/**
+ * Price read from a source path: raw floor_price/ceiling_price go through the minor-unit
+ * check of the mapping stage, other values are parsed as text
+ */
+function parsePriceSource(
+  path: string | undefined,
+  value: unknown,
+  context: FieldMappingContext
+): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const field = path?.replace(/^raw\./, '') as PriceField;
+  if (ITEM_PRICE_FIELDS.includes(field) && context.raw[field] === value) {
+    return parseItemPrice(context.raw, field, context.market ?? MARKET_PROFILES.BR).amount;
+  }
+  return parsePriceText(value, context.market).amount;
+}
+
+/**
+ * Value of one column before its default
+ */
+function applyColumn(column: ColumnMapping, context: FieldMappingContext): unknown {
+  const sources = column.source === undefined ? [] : [column.source].flat();
+  const values = sources.map(path => resolveSource(context, path));
+  const index = values.findIndex(candidate => !isMissing(candidate));
+  const value = index === -1 ? undefined : values[index];
+
+  switch (column.transform) {
+    case 'constant':
+      return column.value;
+    case 'template':
+      return renderTemplate(column.template ?? '', context);
+    case 'pickImageUrl': {
+      const cover = values.find(candidate => typeof candidate === 'string') as string | undefined;
+      const images = values.filter(Array.isArray).flat() as string[];
+      return pickImageUrl(cover, images);
+    }
+    case 'parsePrice':
+      return parsePriceSource(sources[index], value, context);
+    case 'int': {
+      const number = toNumber(value, text => parseInt(text, 10));
+      return number === null ? null : Math.trunc(number);
+    }
+    case 'float':
+      return toNumber(value, parseFloat);
+    case 'trim':
+      return value === undefined || typeof value === 'object' ? null : String(value).trim() || null;
+    default:
+      return value ?? null;
+  }
+}
+
+/**
+ * Build the output row of one product. platform_id falls back to the built-in one, so rows
+ * can always be keyed.
+ */
+export function applyFieldMapping(mapping: FieldMapping, context: FieldMappingContext): MappedRow {
+  const row: Record<string, unknown> = {};
+  for (const [name, column] of Object.entries(mapping)) {
+    const value = applyColumn(column, context);
+    row[name] = value === null || value === undefined ? (column.default ?? null) : value;
+  }
+
+  const platformId = isMissing(row.platform_id)
+    ? context.mapped.platform_id
+    : String(row.platform_id);
+  return { ...row, platform_id: platformId };
+}
+
+function validateSourcePath(path: unknown, at: string): void {
+  if (typeof path !== 'string' || !path.trim() || path.split('.').some(part => !part)) {
+    throw new Error(`${at}" must be a dot path, got ${JSON.stringify(path)}`);
+  }
+  const [scope, field] = path.split('.');
+  if (scope === 'run' && !RUN_FIELDS.includes(field as keyof RunInfo)) {
+    const fields = RUN_FIELDS.map(name => `run.${name}`).join(', ');
+    throw new Error(`${at}" must be one of ${fields}, got ${JSON.stringify(path)}`);
+  }
+}
+
+function validateColumn(name: string, column: unknown): ColumnMapping {
+  const at = `Input "fieldMapping.columns.${name}`;
+  if (!COLUMN_NAME_PATTERN.test(name)) {
+    throw new Error(`${at}" is not a valid column name (letters, digits and underscores)`);
+  }
+  if (!column || typeof column !== 'object' || Array.isArray(column)) {
+    throw new Error(`${at}" must be an object with a source and/or transform`);
+  }
+  const spec = column as ColumnMapping;
+  const unknownKeys = Object.keys(spec).filter(key => !COLUMN_KEYS.includes(key));
+  if (unknownKeys.length > 0) {
+    throw new Error(`${at}" has unknown keys: ${unknownKeys.join(', ')}`);
+  }
+
+  if (spec.transform !== undefined && !FIELD_TRANSFORMS.includes(spec.transform)) {
+    const transforms = FIELD_TRANSFORMS.join(', ');
+    throw new Error(
+      `${at}.transform" must be one of ${transforms}, got ${JSON.stringify(spec.transform)}`
+    );
+  }
+  if (
+    spec.type !== undefined &&
+    (typeof spec.type !== 'string' || !COLUMN_TYPE_PATTERN.test(spec.type.trim()))
+  ) {
+    throw new Error(`${at}.type" must be a Postgres type name, got ${JSON.stringify(spec.type)}`);
+  }
+
+  if (spec.source !== undefined) {
+    const sources = [spec.source].flat();
+    if (sources.length === 0) {
+      throw new Error(`${at}.source" must not be empty`);
+    }
+    sources.forEach(path => validateSourcePath(path, `${at}.source`));
+  }
+
+  if (spec.transform === 'constant') {
+    if (!('value' in spec)) {
+      throw new Error(`${at}" with transform "constant" needs a "value"`);
+    }
+  } else if (spec.transform === 'template') {
+    if (typeof spec.template !== 'string' || !spec.template) {
+      throw new Error(`${at}" with transform "template" needs a "template" string`);
+    }
+    if (spec.template.replace(PLACEHOLDER_PATTERN, '').match(/[{}]/)) {
+      throw new Error(`${at}.template" has an unbalanced "{" or "}"`);
+    }
+    for (const [, path] of spec.template.matchAll(PLACEHOLDER_PATTERN)) {
+      validateSourcePath(path.trim(), `${at}.template`);
+    }
+  } else if (spec.source === undefined) {
+    throw new Error(`${at}" needs a "source" path`);
+  }
+
+  return spec;
+}
+
+/**
+ * Resolve the `fieldMapping` input into the columns to output, failing fast with the path of
+ * the first problem. Without an input the default spec is used.
+ */
+export function resolveFieldMapping(input: unknown): FieldMapping {
+  if (input === undefined || input === null) {
+    return DEFAULT_FIELD_MAPPING;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Input "fieldMapping" must be an object with "columns"');
+  }
+
+  const spec = input as FieldMappingSpec;
+  const unknownKeys = Object.keys(spec).filter(key => key !== 'extends' && key !== 'columns');
+  if (unknownKeys.length > 0) {
+    throw new Error(`Input "fieldMapping" has unknown keys: ${unknownKeys.join(', ')}`);
+  }
+  if (spec.extends !== undefined && spec.extends !== 'default') {
+    throw new Error(
+      `Input "fieldMapping.extends" must be "default", got ${JSON.stringify(spec.extends)}`
+    );
+  }
+  const { columns } = spec;
+  if (!columns || typeof columns !== 'object' || Array.isArray(columns)) {
+    throw new Error('Input "fieldMapping.columns" must be an object of column specs');
+  }
+
+  const mapping: FieldMapping = spec.extends ? { ...DEFAULT_FIELD_MAPPING } : {};
+  for (const [name, column] of Object.entries(columns)) {
+    if (column === null && spec.extends) {
+      delete mapping[name];
+    } else {
+      mapping[name] = validateColumn(name, column);
+    }
+  }
+
+  if (!mapping.platform_id) {
+    throw new Error('Input "fieldMapping" must map a "platform_id" column, the key of every row');
+  }
+  return mapping;
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { filterBrazil } from './filters.js';
+import { filterBrazil, filterBrazilDetailed } from './filters.js';
+import { createCategoryResolver } from './categories.js';
+import { createSalesTracker, SoldCountHistory } from './velocity.js';
 
 // Mock TikTok items for testing
 const mockBrazilianItem = {
@@ -215,3 +217,140 @@ describe('filterBrazil', () => {
     });
   });
 });
+
+describe('filterBrazilDetailed', () => {
+  const priced = (id: string, floorPrice: string, extra: Record<string, unknown> = {}) => ({
+    ...mockBrazilianItem,
+    product_id: id,
+    product_id_str: id,
+    floor_price: floorPrice,
+    format_price: undefined,
+    ...extra
+  });
+
+  it('should record the first check each rejected item failed', () => {
+    const items = [
+      priced('ok', '50.00'),
+      { ...mockVietnameseItem, warehouse_region: 'Ho Chi Minh' },
+      priced('noimg', '50.00', { cover: '', img: [] }),
+      priced('cheap', '5.00'),
+      priced('pricey', '500.00'),
+      priced('usd', '50.00', { currency: 'USD', warehouse_region: 'Shenzhen' })
+    ];
+
+    const result = filterBrazilDetailed(items, {
+      requireBrazilSignals: false,
+      minPrice: 10,
+      maxPrice: 100
+    });
+
+    expect(result.kept.map(item => item.product_id)).toEqual(['ok']);
+    expect(result.rejected.map(({ item, reason }) => [item.product_id, reason])).toEqual([
+      ['456', 'non_brl_with_price_filter'],
+      ['noimg', 'no_image'],
+      ['cheap', 'below_min_price'],
+      ['pricey', 'above_max_price'],
+      ['usd', 'non_brl_with_price_filter']
+    ]);
+    expect(result.rejected[2].detail).toBe('price 5 < minPrice 10');
+  });
+
+  it('should not blame missing images on market signals', () => {
+    const vietnameseItem = { ...mockVietnameseItem, warehouse_region: 'Ho Chi Minh' };
+    const result = filterBrazilDetailed([vietnameseItem, mockItemWithoutImage], {
+      requireBrazilSignals: true,
+      dropIfNoImage: true
+    });
+
+    expect(result.reasons).toEqual({
+      no_brazil_signal: 1,
+      no_image: 1,
+      below_min_price: 0,
+      above_max_price: 0,
+      non_brl_with_price_filter: 0,
+      rule_not_included: 0,
+      rule_excluded: 0
+    });
+  });
+
+  it('should report rule rejections', () => {
+    const result = filterBrazilDetailed([priced('a', '50.00'), priced('b', '50.00')], {
+      requireBrazilSignals: true,
+      rules: {
+        include: { field: 'product_id', op: 'in', values: ['a', 'b'] },
+        exclude: { field: 'product_id', op: 'equals', value: 'b' }
+      }
+    });
+
+    expect(result.kept.map(item => item.product_id)).toEqual(['a']);
+    expect(result.rejected[0]).toMatchObject({ reason: 'rule_excluded' });
+    expect(result.rejected[0].detail).toContain('"equals"');
+  });
+
+  it('should test mapped fields with the resolvers of the mapping stage', () => {
+    const now = new Date('2024-06-02T00:00:00Z');
+    const dayBefore = Math.floor(now.getTime() / 1000) - 24 * 3600;
+    const items = [
+      priced('a', '50.00', { title: 'Escova Pampers', sold_count: 300 }),
+      priced('b', '50.00', { title: 'Escova Pampers', sold_count: 300 }),
+      priced('c', '50.00', { title: 'Capinha', sold_count: 300 }),
+    ];
+    const history: SoldCountHistory = { a: [[dayBefore, 200]], b: [[dayBefore, 290]] };
+    const salesTracker = createSalesTracker(history, { now });
+
+    const result = filterBrazilDetailed(items, {
+      requireBrazilSignals: true,
+      rules: {
+        include: {
+          all: [
+            { field: 'mapped.category_id', op: 'equals', value: 7 },
+            { field: 'mapped.orders_24h', op: 'range', min: 50 },
+          ],
+        },
+      },
+      categoryResolver: createCategoryResolver({ keywords: { pampers: 7 } }),
+      salesTracker,
+    });
+
+    expect(result.kept.map(item => item.product_id)).toEqual(['a']);
+    // Sold counts are recorded by the mapping stage, for kept items only
+    expect(salesTracker.history()).toEqual(history);
+  });
+
+  it('should keep the same items as filterBrazil', () => {
+    const items = [mockBrazilianItem, mockVietnameseItem, mockItemWithoutImage];
+    const options = { requireBrazilSignals: true, dropIfNoImage: true };
+
+    expect(filterBrazilDetailed(items, options).kept).toEqual(filterBrazil(items, options));
+  });
+});
+
+describe('filterBrazil confidence', () => {
+  const portugueseOnly = {
+    ...mockBrazilianItem,
+    product_id: 'pt',
+    title: 'Kit Escova com Pente',
+    format_price: '99.99',
+    currency: undefined,
+    warehouse_region: 'RJ'
+  };
+
+  it('should drop items whose signals stay below minBrazilConfidence', () => {
+    const result = filterBrazilDetailed([portugueseOnly], { requireBrazilSignals: true });
+
+    expect(result.kept).toHaveLength(0);
+    expect(result.rejected[0].reason).toBe('no_brazil_signal');
+    expect(result.rejected[0].detail).toBe(
+      'confidence 0.475 < 0.5 (warehouse_code, portuguese_title)'
+    );
+  });
+
+  it('should keep them with a lower threshold', () => {
+    const filtered = filterBrazil([portugueseOnly], {
+      requireBrazilSignals: true,
+      minBrazilConfidence: 0.4
+    });
+
+    expect(filtered).toHaveLength(1);
+  });
+});
@@ -1,73 +1,81 @@
 /**
- * Filters for Brazilian market signals and price ranges
+ * Filters for market signals (Brazil by default), price ranges and declarative rules
  */
 
-import { hasBrazilianCurrency, isBrazilianWarehouse, parsePrice } from './utils.js';
+import { hasMarketCurrency, MARKET_PROFILES, MarketProfile } from './markets.js';
+import { convertItemPrice, CurrencyConverter } from './currency.js';
+import { parseItemPrice, pickPriceField } from './prices.js';
+import { DEFAULT_MIN_BRAZIL_CONFIDENCE, scoreMarketSignals, SignalScore } from './signals.js';
+import type { TikTokItem } from './schema.js';
+import { mapToSupabase } from './mapping.js';
+import type { CategoryResolver } from './categories.js';
+import type { SalesTracker } from './velocity.js';
+import type { AffiliateResolver } from './affiliate.js';
+import { evaluateRule, RuleContext, RuleSet, validateRules } from './rules.js';
 
-interface FilterOptions {
+/**
+ * Why the filter rejected an item. Signal and currency reasons refer to the selected market.
+ */
+export type DropReason =
+  | 'no_brazil_signal'
+  | 'no_image'
+  | 'below_min_price'
+  | 'above_max_price'
+  | 'non_brl_with_price_filter'
+  | 'rule_not_included'
+  | 'rule_excluded';
+
+export const DROP_REASONS: DropReason[] = [
+  'no_brazil_signal',
+  'no_image',
+  'below_min_price',
+  'above_max_price',
+  'non_brl_with_price_filter',
+  'rule_not_included',
+  'rule_excluded',
+];
+
+export interface RejectedItem {
+  item: TikTokItem;
+  /** First check the item failed */
+  reason: DropReason;
+  detail?: string;
+}
+
+export interface FilterResult {
+  kept: TikTokItem[];
+  rejected: RejectedItem[];
+  /** Rejected items per reason, every reason present */
+  reasons: Record<DropReason, number>;
+}
+
+export interface FilterOptions {
   requireBrazilSignals?: boolean;
   minPrice?: number;
   maxPrice?: number;
   dropIfNoImage?: boolean;
-}
-
-interface TikTokItem {
-  product_id?: string | number;
-  product_id_str?: string;
-  title?: string;
-  cover?: string;
-  img?: string[];
-  floor_price?: string | number;
-  ceiling_price?: string | number;
-  format_price?: string;
-  currency?: string;
-  warehouse_region?: string;
-  seller_product_info?: {
-    seller_name?: string;
-    seller_id?: string | number;
-    seller_id_str?: string;
-  };
-  product_rating?: string | number;
-  review_count?: string | number;
-  sold_count?: string | number;
-  global_sold_count?: string | number;
-  schema?: any;
-  view_in_shop_button?: {
-    schema?: any;
-  };
-  [key: string]: any;
+  /** Market whose signals are required, defaults to Brazil */
+  market?: MarketProfile;
+  /** Declarative include/exclude rules on raw or mapped fields */
+  rules?: RuleSet;
+  /** Minimum market signal confidence (0-1) for requireBrazilSignals and foreign-price checks */
+  minBrazilConfidence?: number;
+  /** Converts foreign prices before range filtering; without it foreign prices are dropped */
+  converter?: CurrencyConverter;
+  /** Currency of minPrice/maxPrice, defaults to the market currency */
+  targetCurrency?: string;
+  /** Resolvers of the mapping stage, so rules on mapped fields see the values that are output */
+  categoryResolver?: CategoryResolver;
+  salesTracker?: SalesTracker;
+  affiliateResolver?: AffiliateResolver;
 }
 
 /**
- * Check if an item has Brazilian market signals
+ * Explain a confidence below the threshold, e.g. "confidence 0.3 < 0.5 (portuguese_title)"
  */
-function hasBrazilSignals(item: TikTokItem): boolean {
-  // Check currency signals
-  if (hasBrazilianCurrency(item.format_price, item.currency)) {
-    return true;
-  }
-
-  // Check warehouse region
-  if (isBrazilianWarehouse(item.warehouse_region)) {
-    return true;
-  }
-
-  // Check for BR domains or paths in schema/URLs
-  const checkForBrUrls = (obj: any): boolean => {
-    if (!obj) return false;
-    
-    const jsonStr = JSON.stringify(obj).toLowerCase();
-    return jsonStr.includes('/br-') || 
-           jsonStr.includes('.br/') || 
-           jsonStr.includes('brazil') || 
-           jsonStr.includes('brasil');
-  };
-
-  if (checkForBrUrls(item.schema) || checkForBrUrls(item.view_in_shop_button?.schema)) {
-    return true;
-  }
-
-  return false;
+function describeSignals(score: SignalScore, minConfidence: number): string {
+  const fired = score.signals.map(signal => signal.name).join(', ') || 'no signals';
+  return `confidence ${score.confidence} < ${minConfidence} (${fired})`;
 }
 
 /**
@@ -87,98 +95,190 @@ function hasValidImage(item: TikTokItem): boolean {
 }
 
 /**
- * Check if item price is within specified range
+ * Check the item price against the specified range; returns why it is out of range, if it is
  */
-function isPriceInRange(item: TikTokItem, minPrice?: number, maxPrice?: number): boolean {
+function checkPriceRange(
+  item: TikTokItem,
+  check: {
+    market: MarketProfile;
+    hasMarketSignals: boolean;
+    converter?: CurrencyConverter;
+    targetCurrency?: string;
+    minPrice?: number;
+    maxPrice?: number;
+  }
+): Omit<RejectedItem, 'item'> | null {
+  const { market, minPrice, maxPrice, hasMarketSignals: itemHasMarketSignals } = check;
   if (!minPrice && !maxPrice) {
-    return true;
+    return null;
   }
 
-  let price = 0;
-  
   // Try to get price from various fields
-  if (item.floor_price) {
-    price = parsePrice(item.floor_price);
-  } else if (item.ceiling_price) {
-    price = parsePrice(item.ceiling_price);
-  } else if (item.format_price) {
-    price = parsePrice(item.format_price);
+  const priceField = pickPriceField(item);
+  let price = priceField ? (parseItemPrice(item, priceField, market).amount ?? 0) : 0;
+
+  // Convert to the target currency when the rate table knows the item's currency
+  const conversion = check.converter
+    ? convertItemPrice(item, priceField, {
+        market,
+        converter: check.converter,
+        targetCurrency: check.targetCurrency,
+        hasMarketSignals: itemHasMarketSignals,
+      })
+    : null;
+  if (conversion) {
+    price = conversion.price;
   }
 
   if (price === 0) {
-    return true; // If we can't parse price, don't filter it out
+    return null; // If we can't parse price, don't filter it out
   }
 
-  // For non-BRL currencies when requireBrazilSignals is active, 
+  // For currencies other than the market's when requireBrazilSignals is active,
   // we should be more strict about price filtering
-  const itemHasBrSignals = hasBrazilSignals(item);
-  if (!itemHasBrSignals && item.currency && item.currency !== 'BRL' && item.currency !== 'R$') {
-    // If it's clearly not BRL and we can't convert, it's safer to exclude
+  const isForeignCurrency = item.currency && !hasMarketCurrency(market, undefined, item.currency);
+  if (!conversion && !itemHasMarketSignals && isForeignCurrency) {
+    // If it's clearly not the market currency and we can't convert, it's safer to exclude
     // when price filtering is requested
-    if (minPrice || maxPrice) {
-      return false;
-    }
+    return { reason: 'non_brl_with_price_filter', detail: `currency ${item.currency}` };
   }
 
   if (minPrice && price < minPrice) {
-    return false;
+    return { reason: 'below_min_price', detail: `price ${price} < minPrice ${minPrice}` };
   }
 
   if (maxPrice && price > maxPrice) {
-    return false;
+    return { reason: 'above_max_price', detail: `price ${price} > maxPrice ${maxPrice}` };
   }
 
-  return true;
+  return null;
 }
 
 /**
- * Filter items based on Brazilian market signals and other criteria
+ * Filter items based on market signals (Brazil by default) and other criteria,
+ * recording the reason each rejected item was dropped
  */
-export function filterBrazil(items: TikTokItem[], options: FilterOptions): TikTokItem[] {
+export function filterBrazilDetailed(items: TikTokItem[], options: FilterOptions): FilterResult {
   const {
     requireBrazilSignals = true,
     minPrice,
     maxPrice,
-    dropIfNoImage = true
+    dropIfNoImage = true,
+    market = MARKET_PROFILES.BR,
+    rules = {},
+    minBrazilConfidence = DEFAULT_MIN_BRAZIL_CONFIDENCE,
+    converter,
+    targetCurrency,
+    categoryResolver,
+    salesTracker,
+    affiliateResolver,
   } = options;
+  const ruleSet = validateRules(rules);
 
   console.log(`🔍 Filtering ${items.length} items with options:`, {
+    market: market.region,
     requireBrazilSignals,
+    minBrazilConfidence,
     minPrice,
     maxPrice,
-    dropIfNoImage
+    dropIfNoImage,
+    targetCurrency: converter ? (targetCurrency ?? market.currency) : undefined,
+    rules: Boolean(ruleSet.include || ruleSet.exclude)
   });
 
-  const filtered = items.filter(item => {
-    // Check Brazil signals requirement
-    if (requireBrazilSignals && !hasBrazilSignals(item)) {
-      return false;
+  const rejectItem = (item: TikTokItem): Omit<RejectedItem, 'item'> | null => {
+    // Check market signals requirement
+    const signals = scoreMarketSignals(item, market);
+    const itemHasMarketSignals = signals.confidence >= minBrazilConfidence;
+    if (requireBrazilSignals && !itemHasMarketSignals) {
+      return { reason: 'no_brazil_signal', detail: describeSignals(signals, minBrazilConfidence) };
     }
 
     // Check image requirement
     if (dropIfNoImage && !hasValidImage(item)) {
-      return false;
+      return { reason: 'no_image' };
     }
 
     // Check price range
-    if (!isPriceInRange(item, minPrice, maxPrice)) {
-      return false;
+    const priceRejection = checkPriceRange(item, {
+      market,
+      hasMarketSignals: itemHasMarketSignals,
+      converter,
+      targetCurrency,
+      minPrice,
+      maxPrice,
+    });
+    if (priceRejection) {
+      return priceRejection;
     }
 
-    return true;
-  });
+    // Check declarative rules; mapped fields are only computed when a rule needs them, and
+    // without recording sold counts, so rejected items leave no sales history
+    let mapped: unknown;
+    const context: RuleContext = {
+      raw: item,
+      mapped: () => {
+        if (mapped === undefined) {
+          mapped = mapToSupabase(item, {
+            market,
+            minBrazilConfidence,
+            converter,
+            targetCurrency,
+            categoryResolver,
+            salesTracker: salesTracker && { ...salesTracker, observe: salesTracker.peek },
+            affiliateResolver,
+          });
+        }
+        return mapped;
+      },
+    };
+    if (ruleSet.include && !evaluateRule(ruleSet.include, context)) {
+      return { reason: 'rule_not_included', detail: JSON.stringify(ruleSet.include) };
+    }
+    if (ruleSet.exclude && evaluateRule(ruleSet.exclude, context)) {
+      return { reason: 'rule_excluded', detail: JSON.stringify(ruleSet.exclude) };
+    }
 
-  const stats = {
-    original: items.length,
-    afterBrazilFilter: filtered.length,
-    filteredOut: items.length - filtered.length
+    return null;
   };
 
-  console.log('📊 Filter results:', stats);
+  const kept: TikTokItem[] = [];
+  const rejected: RejectedItem[] = [];
+  const reasons = Object.fromEntries(DROP_REASONS.map(reason => [reason, 0])) as Record<
+    DropReason,
+    number
+  >;
 
-  if (requireBrazilSignals && stats.filteredOut > 0) {
-    console.log(`🇧🇷 Filtered out ${stats.filteredOut} items without Brazil signals`);
+  for (const item of items) {
+    const rejection = rejectItem(item);
+    if (rejection) {
+      rejected.push({ item, ...rejection });
+      reasons[rejection.reason]++;
+    } else {
+      kept.push(item);
+    }
+  }
+
+  const droppedByReason = Object.fromEntries(
+    Object.entries(reasons).filter(([, count]) => count > 0)
+  );
+  console.log('📊 Filter results:', {
+    original: items.length,
+    kept: kept.length,
+    filteredOut: rejected.length,
+    ...droppedByReason
+  });
+
+  if (reasons.no_brazil_signal > 0) {
+    console.log(`🌎 Filtered out ${reasons.no_brazil_signal} items without ${market.name} signals`);
   }
 
-  return filtered;
+  return { kept, rejected, reasons };
+}
+
+/**
+ * Filter items based on market signals (Brazil by default) and other criteria
+ */
+export function filterBrazil(items: TikTokItem[], options: FilterOptions): TikTokItem[] {
+  return filterBrazilDetailed(items, options).kept;
 }
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildPriceHistoryRow } from './history.js';
+import { mapToSupabase } from './mapping.js';
+import { MARKET_PROFILES } from './markets.js';
+
+const capturedAt = new Date('2024-01-15T06:00:00Z');
+
+const item = {
+  product_id_str: '1001',
+  title: 'Shampoo Pantene 400ml',
+  floor_price: '24.90',
+  ceiling_price: '32.90',
+  format_price: 'R$ 24,90',
+  currency: 'BRL',
+  sold_count: '1520',
+  product_rating: '4.7',
+};
+
+describe('buildPriceHistoryRow', () => {
+  it('should snapshot price, ceiling price, sold count and rating', () => {
+    const row = buildPriceHistoryRow(item, mapToSupabase(item), { capturedAt });
+
+    expect(row).toEqual({
+      platform_id: '1001',
+      captured_at: '2024-01-15T06:00:00.000Z',
+      price: 24.9,
+      ceiling_price: 32.9,
+      currency: 'BRL',
+      sold_count: 1520,
+      rating: 4.7,
+    });
+  });
+
+  it('should use null for metrics the item does not have', () => {
+    const minimal = { product_id_str: '1002', title: 'Produto', floor_price: 10 };
+    const row = buildPriceHistoryRow(minimal, mapToSupabase(minimal), { capturedAt });
+
+    expect(row).toMatchObject({ ceiling_price: null, sold_count: null, rating: null });
+  });
+
+  it('should fall back to the global sold count', () => {
+    const global = { ...item, sold_count: undefined, global_sold_count: 3000 };
+    expect(buildPriceHistoryRow(global, mapToSupabase(global)).sold_count).toBe(3000);
+  });
+
+  it('should parse the ceiling price with the market format', () => {
+    const mexican = { ...item, ceiling_price: '1,249.00', currency: 'MXN' };
+    const market = MARKET_PROFILES.MX;
+    const row = buildPriceHistoryRow(mexican, mapToSupabase(mexican, { market }), { market });
+
+    expect(row.ceiling_price).toBe(1249);
+    expect(row.currency).toBe('MXN');
+  });
+});
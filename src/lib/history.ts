@@ -0,0 +1,78 @@
+/**
+ * Price history: one time-stamped price, sold count and rating snapshot per product per run
+ */
+
+import { CurrencyConverter, findMarketByCurrency } from './currency.js';
+import { MARKET_PROFILES, MarketProfile } from './markets.js';
+import type { SupabaseProduct } from './mapping.js';
+import type { TikTokItem } from './schema.js';
+import { parseItemPrice, parsePriceRange } from './prices.js';
+
+/**
+ * Row of the Supabase `product_price_history` table
+ */
+export interface PriceHistoryRow {
+  platform_id: string;
+  captured_at: string;
+  price: number;
+  ceiling_price: number | null;
+  currency: string;
+  sold_count: number | null;
+  rating: number | null;
+}
+
+interface PriceHistoryOptions {
+  market?: MarketProfile;
+  /** Snapshot time, the same for every product of a run */
+  capturedAt?: Date;
+  /** Converts the ceiling price to the currency of the mapped price */
+  converter?: CurrencyConverter;
+}
+
+const parseCount = (value: string | number | undefined): number | null => {
+  if (value === undefined || value === '') return null;
+  const count = parseInt(String(value));
+  return isNaN(count) ? null : count;
+};
+
+/**
+ * Ceiling price of an item, or the top of a "R$ 10,00 - R$ 25,90" formatted range without one
+ */
+const parseCeilingPrice = (item: TikTokItem, market: MarketProfile): number => {
+  if (item.ceiling_price) {
+    return parseItemPrice(item, 'ceiling_price', market).amount ?? 0;
+  }
+  const range = parsePriceRange(item.format_price, market);
+  return range && range.max.amount !== range.min.amount ? (range.max.amount ?? 0) : 0;
+};
+
+/**
+ * Build the price history snapshot of one product from its raw item and mapped row
+ */
+export function buildPriceHistoryRow(
+  item: TikTokItem,
+  mapped: SupabaseProduct,
+  options: PriceHistoryOptions = {}
+): PriceHistoryRow {
+  const { market = MARKET_PROFILES.BR, capturedAt = new Date() } = options;
+
+  // Parse the ceiling price in the currency it was quoted in, then convert it like the price
+  const quoted = mapped.original_currency;
+  const converted = options.converter && quoted !== mapped.currency;
+  const format = converted ? (findMarketByCurrency(quoted) ?? market) : market;
+  let ceilingPrice = parseCeilingPrice(item, format);
+  if (converted && ceilingPrice > 0) {
+    ceilingPrice = options.converter?.convert(ceilingPrice, quoted, mapped.currency) ?? 0;
+  }
+  const rating = item.product_rating !== undefined ? parseFloat(String(item.product_rating)) : NaN;
+
+  return {
+    platform_id: mapped.platform_id,
+    captured_at: capturedAt.toISOString(),
+    price: mapped.price,
+    ceiling_price: ceilingPrice > 0 ? ceilingPrice : null,
+    currency: mapped.currency,
+    sold_count: parseCount(item.sold_count ?? item.global_sold_count),
+    rating: isNaN(rating) ? null : rating,
+  };
+}
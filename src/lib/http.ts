@@ -0,0 +1,76 @@
+/**
+ * Minimal HTTP client used by the scrapers, with optional proxy support
+ */
+
+import { ProxyAgent, request } from 'undici';
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  proxyUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Browser-like headers so TikTok serves the regular web payload
+ */
+export const DEFAULT_HEADERS: Record<string, string> = {
+  'user-agent':
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  accept: 'application/json, text/html;q=0.9, */*;q=0.8',
+  'accept-language': 'pt-BR,pt;q=0.9,en;q=0.8',
+};
+
+const proxyAgents = new Map<string, ProxyAgent>();
+
+/**
+ * Reuse one agent per proxy URL so connections are kept alive per session
+ */
+function getProxyAgent(proxyUrl: string): ProxyAgent {
+  let agent = proxyAgents.get(proxyUrl);
+  if (!agent) {
+    agent = new ProxyAgent(proxyUrl);
+    proxyAgents.set(proxyUrl, agent);
+  }
+  return agent;
+}
+
+/**
+ * Perform an HTTP request and return the status and body as text.
+ * Non-2xx responses are returned, not thrown, so callers can inspect blocks.
+ */
+export async function httpRequest(
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<HttpResponse> {
+  const { method = 'GET', headers = {}, body, proxyUrl, timeoutMs = 30000 } = options;
+
+  const response = await request(url, {
+    method,
+    headers: { ...DEFAULT_HEADERS, ...headers },
+    body,
+    dispatcher: proxyUrl ? getProxyAgent(proxyUrl) : undefined,
+    headersTimeout: timeoutMs,
+    bodyTimeout: timeoutMs,
+  });
+
+  const responseHeaders: Record<string, string> = {};
+  for (const [key, value] of Object.entries(response.headers)) {
+    if (value !== undefined) {
+      responseHeaders[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  return {
+    status: response.statusCode,
+    headers: responseHeaders,
+    body: await response.body.text(),
+  };
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectChange,
+  fingerprintProduct,
+  FINGERPRINTS_KEY,
+  loadFingerprints,
+  restoreFingerprints,
+  saveFingerprints,
+  shouldEmit,
+  trackChanges,
+} from './incremental.js';
+import { mapToSupabase } from './mapping.js';
+import { scoreProducts } from './scoring.js';
+
+const raw = {
+  product_id_str: '1001',
+  title: 'Shampoo Pantene 400ml',
+  cover: 'https://example.com/cover.jpg',
+  floor_price: '24.90',
+  format_price: 'R$ 24,90',
+  currency: 'BRL',
+  sold_count: '150',
+  product_rating: '4.5',
+};
+
+const product = mapToSupabase(raw);
+
+const memoryStore = () => {
+  const records: Record<string, any> = {};
+  return {
+    records,
+    getValue: async (key: string) => records[key] ?? null,
+    setValue: async (key: string, value: unknown) => {
+      records[key] = value;
+    },
+  };
+};
+
+describe('fingerprintProduct', () => {
+  it('should be stable for equal products', () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+    expect(fingerprintProduct({ ...product }, now)).toEqual(fingerprintProduct(product, now));
+  });
+
+  it('should not depend on object key order', () => {
+    const reordered = Object.fromEntries(Object.entries(product).reverse()) as typeof product;
+    expect(fingerprintProduct(reordered).hash).toBe(fingerprintProduct(product).hash);
+  });
+});
+
+describe('detectChange', () => {
+  it('should report unseen products as new', () => {
+    expect(detectChange(undefined, fingerprintProduct(product))).toEqual({
+      change_type: 'new',
+      changed_fields: [],
+    });
+  });
+
+  it('should report unchanged products', () => {
+    const previous = fingerprintProduct(product);
+    expect(detectChange(previous, fingerprintProduct({ ...product })).change_type).toBe(
+      'unchanged'
+    );
+  });
+
+  it('should list the changed fields', () => {
+    const previous = fingerprintProduct(product);
+    const current = fingerprintProduct({ ...product, price: 19.9, rating: 4.8 });
+
+    expect(detectChange(previous, current)).toEqual({
+      change_type: 'changed',
+      changed_fields: ['price', 'rating'],
+    });
+  });
+
+  it('should ignore fields computed across the batch or from earlier runs', () => {
+    const previous = fingerprintProduct(product);
+    const current = fingerprintProduct({
+      ...product,
+      trending_score: 12.5,
+      orders_24h: 180,
+      orders_7d: 900,
+      sold_count_total: 1200,
+      cluster_id: 'c-1',
+    });
+
+    expect(detectChange(previous, current).change_type).toBe('unchanged');
+  });
+});
+
+describe('shouldEmit', () => {
+  it.each([
+    ['all', [true, true, true]],
+    ['new', [true, false, false]],
+    ['changed', [false, true, false]],
+    ['new_or_changed', [true, true, false]],
+  ] as const)('should select change types for emitMode %s', (mode, expected) => {
+    expect((['new', 'changed', 'unchanged'] as const).map(type => shouldEmit(mode, type))).toEqual(
+      expected
+    );
+  });
+});
+
+describe('trackChanges', () => {
+  it('should classify a second run against the fingerprints of the first', async () => {
+    const store = memoryStore();
+    const other = { ...product, platform_id: '1002', title: 'Condicionador' };
+
+    const first = trackChanges([product, other], await loadFingerprints(store));
+    await saveFingerprints(store, first.fingerprints);
+    expect(first.summary).toEqual({ new: 2, changed: 0, unchanged: 0 });
+
+    const second = trackChanges(
+      [{ ...product, rating: 4.8 }, other, { ...product, platform_id: '1003' }],
+      await loadFingerprints(store)
+    );
+    expect(second.changes).toEqual([
+      { change_type: 'changed', changed_fields: ['rating'] },
+      { change_type: 'unchanged', changed_fields: [] },
+      { change_type: 'new', changed_fields: [] },
+    ]);
+    expect(second.summary).toEqual({ new: 1, changed: 1, unchanged: 1 });
+    expect(Object.keys(second.fingerprints).sort()).toEqual(['1001', '1002', '1003']);
+  });
+
+  it('should keep products unchanged when only another product of the batch changed', () => {
+    const batch = (soldCounts: string[]) => {
+      const products = soldCounts.map((soldCount, i) =>
+        mapToSupabase({ ...raw, product_id_str: String(1001 + i), sold_count: soldCount })
+      );
+      scoreProducts(products).forEach((breakdown, i) => {
+        products[i].trending_score = breakdown.score;
+      });
+      return products;
+    };
+
+    const first = batch(['150', '90']);
+    // A new top seller rescales the trending scores of the others
+    const second = batch(['150', '90', '50000']);
+    expect(second[0].trending_score).not.toBe(first[0].trending_score);
+
+    const { fingerprints } = trackChanges(first, {});
+    expect(trackChanges(second, fingerprints).summary).toEqual({
+      new: 1,
+      changed: 0,
+      unchanged: 2,
+    });
+  });
+
+  it('should keep the timestamp of unchanged products', () => {
+    const firstSeen = new Date('2024-01-01T00:00:00Z');
+    const { fingerprints } = trackChanges([product], {}, firstSeen);
+    const second = trackChanges([product], fingerprints, new Date('2024-02-01T00:00:00Z'));
+
+    expect(second.fingerprints[product.platform_id].updatedAt).toBe(firstSeen.toISOString());
+  });
+
+  it('should store fingerprints under one key', async () => {
+    const store = memoryStore();
+    await saveFingerprints(store, trackChanges([product], {}).fingerprints);
+    expect(Object.keys(store.records)).toEqual([FINGERPRINTS_KEY]);
+  });
+});
+
+describe('restoreFingerprints', () => {
+  it('should put back the previous fingerprint of failed products', () => {
+    const previous = trackChanges([product], {}).fingerprints;
+    const other = { ...product, platform_id: '1002' };
+    const next = trackChanges([{ ...product, price: 19.9 }, other], previous);
+
+    const restored = restoreFingerprints(next.fingerprints, previous, ['1001', '1002']);
+    expect(restored).toEqual(previous);
+
+    // Both are emitted again by the next run
+    const rerun = trackChanges([{ ...product, price: 19.9 }, other], restored);
+    expect(rerun.summary).toEqual({ new: 1, changed: 1, unchanged: 0 });
+  });
+});
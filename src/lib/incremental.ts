@@ -0,0 +1,202 @@
+/**
+ * Incremental runs: per-product fingerprints persisted between runs to detect new and changed products
+ */
+
+import { createHash } from 'crypto';
+import type { KeyValueStore } from 'apify';
+import type { SupabaseProduct } from './mapping.js';
+
+export type EmitMode = 'all' | 'new' | 'changed' | 'new_or_changed';
+
+export type ChangeType = 'new' | 'changed' | 'unchanged';
+
+export const EMIT_MODES: EmitMode[] = ['all', 'new', 'changed', 'new_or_changed'];
+
+/**
+ * Fingerprint of one mapped product: a hash of the whole row plus one hash per field,
+ * so the fields that changed can be reported
+ */
+export interface ProductFingerprint {
+  hash: string;
+  fields: Record<string, string>;
+  updatedAt: string;
+}
+
+export type FingerprintMap = Record<string, ProductFingerprint>;
+
+export interface ProductChange {
+  change_type: ChangeType;
+  changed_fields: string[];
+}
+
+export interface ChangeSummary {
+  new: number;
+  changed: number;
+  unchanged: number;
+}
+
+/**
+ * Fields computed across the batch or from earlier runs rather than scraped; they move when
+ * other products or the sales history do, so they are left out of the fingerprint
+ */
+export const UNFINGERPRINTED_FIELDS: (keyof SupabaseProduct)[] = [
+  'trending_score',
+  'orders_24h',
+  'orders_7d',
+  'sold_count_total',
+  'cluster_id',
+];
+
+/**
+ * Key of the fingerprint record in the fingerprint store
+ */
+export const FINGERPRINTS_KEY = 'FINGERPRINTS';
+
+const shortHash = (value: string): string =>
+  createHash('sha1').update(value).digest('hex').slice(0, 16);
+
+/**
+ * JSON with object keys sorted, so equal values always serialize identically
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fingerprint the scraped fields of a mapped product
+ */
+export function fingerprintProduct(
+  product: SupabaseProduct,
+  now: Date = new Date()
+): ProductFingerprint {
+  const fields: Record<string, string> = {};
+  const row: Record<string, unknown> = { ...product };
+  const skipped = new Set<string>(UNFINGERPRINTED_FIELDS);
+  for (const field of Object.keys(row).sort()) {
+    if (skipped.has(field)) {
+      continue;
+    }
+    fields[field] = shortHash(stableStringify(row[field]));
+  }
+
+  return {
+    hash: shortHash(stableStringify(fields)),
+    fields,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Compare a product's fingerprint with the one stored by a previous run
+ */
+export function detectChange(
+  previous: ProductFingerprint | undefined,
+  current: ProductFingerprint
+): ProductChange {
+  if (!previous) {
+    return { change_type: 'new', changed_fields: [] };
+  }
+
+  if (previous.hash === current.hash) {
+    return { change_type: 'unchanged', changed_fields: [] };
+  }
+
+  const fields = new Set([...Object.keys(previous.fields), ...Object.keys(current.fields)]);
+  const changedFields = [...fields]
+    .filter(field => previous.fields[field] !== current.fields[field])
+    .sort();
+
+  return { change_type: 'changed', changed_fields: changedFields };
+}
+
+/**
+ * Whether a product with the given change type is emitted in this emit mode
+ */
+export function shouldEmit(mode: EmitMode, changeType: ChangeType): boolean {
+  switch (mode) {
+    case 'new':
+      return changeType === 'new';
+    case 'changed':
+      return changeType === 'changed';
+    case 'new_or_changed':
+      return changeType !== 'unchanged';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Classify every product against the previous fingerprints. Returns one change per
+ * product (same order) and the updated fingerprint map to persist.
+ */
+export function trackChanges(
+  products: SupabaseProduct[],
+  previous: FingerprintMap,
+  now: Date = new Date()
+): { changes: ProductChange[]; fingerprints: FingerprintMap; summary: ChangeSummary } {
+  const fingerprints: FingerprintMap = { ...previous };
+  const summary: ChangeSummary = { new: 0, changed: 0, unchanged: 0 };
+
+  const changes = products.map(product => {
+    const current = fingerprintProduct(product, now);
+    const change = detectChange(fingerprints[product.platform_id], current);
+
+    // Unchanged products keep their original timestamp
+    if (change.change_type !== 'unchanged') {
+      fingerprints[product.platform_id] = current;
+    }
+    summary[change.change_type]++;
+    return change;
+  });
+
+  return { changes, fingerprints, summary };
+}
+
+/**
+ * Fingerprints with the given products put back to their previous state (removed when they
+ * had none), so products a sink failed to write are emitted again by the next run
+ */
+export function restoreFingerprints(
+  fingerprints: FingerprintMap,
+  previous: FingerprintMap,
+  platformIds: Iterable<string>
+): FingerprintMap {
+  const restored: FingerprintMap = { ...fingerprints };
+  for (const platformId of platformIds) {
+    if (previous[platformId]) {
+      restored[platformId] = previous[platformId];
+    } else {
+      delete restored[platformId];
+    }
+  }
+  return restored;
+}
+
+/**
+ * Load the fingerprints stored by previous runs
+ */
+export async function loadFingerprints(
+  store: Pick<KeyValueStore, 'getValue'>
+): Promise<FingerprintMap> {
+  return (await store.getValue<FingerprintMap>(FINGERPRINTS_KEY)) ?? {};
+}
+
+/**
+ * Persist fingerprints for the next run
+ */
+export async function saveFingerprints(
+  store: Pick<KeyValueStore, 'setValue'>,
+  fingerprints: FingerprintMap
+): Promise<void> {
+  await store.setValue(FINGERPRINTS_KEY, fingerprints);
+}
@@ -98,16 +98,16 @@ describe('mapToSupabase', () => {
   });
 
   describe('Price handling', () => {
-    it('should parse floor_price correctly', () => {
+    it('should read integer floor_price as minor units of format_price', () => {
       const mapped = mapToSupabase(mockCompleteItem);
-      expect(mapped.price).toBe(9999);
+      expect(mapped.price).toBe(99.99);
     });
 
     it('should fallback to ceiling_price', () => {
       const item = { ...mockCompleteItem } as any;
       delete item.floor_price;
       const mapped = mapToSupabase(item);
-      expect(mapped.price).toBe(12999);
+      expect(mapped.price).toBe(129.99);
     });
 
     it('should fallback to format_price parsing', () => {
@@ -133,16 +133,22 @@ describe('mapToSupabase', () => {
   });
 
   describe('Sales and rating data', () => {
-    it('should map sold_count to orders_24h', () => {
+    it('should map sold_count to sold_count_total', () => {
       const mapped = mapToSupabase(mockCompleteItem);
-      expect(mapped.orders_24h).toBe(150);
+      expect(mapped.sold_count_total).toBe(150);
     });
 
     it('should fallback to global_sold_count', () => {
       const item = { ...mockCompleteItem } as any;
       delete item.sold_count;
       const mapped = mapToSupabase(item);
-      expect(mapped.orders_24h).toBe(200);
+      expect(mapped.sold_count_total).toBe(200);
+    });
+
+    it('should leave orders_24h and orders_7d null without sales history', () => {
+      const mapped = mapToSupabase(mockCompleteItem);
+      expect(mapped.orders_24h).toBe(null);
+      expect(mapped.orders_7d).toBe(null);
     });
 
     it('should parse rating correctly', () => {
@@ -162,7 +168,7 @@ describe('mapToSupabase', () => {
 
     it('should default missing values to 0', () => {
       const mapped = mapToSupabase(mockMinimalItem);
-      expect(mapped.orders_24h).toBe(0);
+      expect(mapped.sold_count_total).toBe(null);
       expect(mapped.rating).toBe(0);
       expect(mapped.reviews_count).toBe(0);
     });
@@ -264,6 +270,46 @@ describe('mapToSupabase', () => {
     });
   });
 
+  describe('Detail enrichment', () => {
+    const detail = {
+      description: 'Descrição completa',
+      brand: 'Pantene',
+      category_path: [
+        { id: '601152', name: 'Beleza' },
+        { id: '601463', name: 'Shampoo' }
+      ],
+      images: ['https://example.com/g1.jpg', 'https://example.com/g2.jpg'],
+      specs: { Volume: '400ml' },
+      variants: [
+        {
+          sku_id: 'sku1',
+          name: '400ml',
+          attributes: { Tamanho: '400ml' },
+          price: 24.9,
+          original_price: null,
+          stock: 10
+        }
+      ]
+    };
+
+    it('should carry detail fields through', () => {
+      const mapped = mapToSupabase({ ...mockCompleteItem, detail });
+      expect(mapped.description).toBe('Descrição completa');
+      expect(mapped.brand).toBe('Pantene');
+      expect(mapped.category_path).toBe('Beleza > Shampoo');
+      expect(mapped.images).toEqual(detail.images);
+      expect(mapped.variants).toEqual(detail.variants);
+    });
+
+    it('should fall back to list-level images without detail', () => {
+      const mapped = mapToSupabase(mockCompleteItem);
+      expect(mapped.images).toEqual(mockCompleteItem.img);
+      expect(mapped.variants).toBe(null);
+      expect(mapped.description).toBe(null);
+      expect(mapped.category_path).toBe(null);
+    });
+  });
+
   describe('Complete mapping', () => {
     it('should produce valid Supabase object', () => {
       const mapped = mapToSupabase(mockCompleteItem);
@@ -287,7 +333,7 @@ describe('mapToSupabase', () => {
       // Check types
       expect(typeof mapped.title).toBe('string');
       expect(typeof mapped.price).toBe('number');
-      expect(typeof mapped.orders_24h).toBe('number');
+      expect(typeof mapped.sold_count_total).toBe('number');
       expect(typeof mapped.rating).toBe('number');
       expect(typeof mapped.reviews_count).toBe('number');
       expect(typeof mapped.trending_score).toBe('number');
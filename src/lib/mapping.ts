@@ -3,62 +3,81 @@
  */
 
 import { 
-  parsePrice, 
   pickImageUrl, 
   calculateTrendingScore, 
   normalizeCurrency, 
-  cleanPlatformId,
-  hasBrazilianCurrency,
-  isBrazilianWarehouse
+  cleanPlatformId
 } from './utils.js';
-
-interface TikTokItem {
-  product_id?: string | number;
-  product_id_str?: string;
-  title?: string;
-  cover?: string;
-  img?: string[];
-  floor_price?: string | number;
-  ceiling_price?: string | number;
-  format_price?: string;
-  currency?: string;
-  warehouse_region?: string;
-  seller_product_info?: {
-    seller_name?: string;
-    seller_id?: string | number;
-    seller_id_str?: string;
-  };
-  product_rating?: string | number;
-  review_count?: string | number;
-  sold_count?: string | number;
-  global_sold_count?: string | number;
-  [key: string]: any;
+import { MARKET_PROFILES, MarketProfile } from './markets.js';
+import { DEFAULT_MIN_BRAZIL_CONFIDENCE, scoreMarketSignals } from './signals.js';
+import type { CategoryResolver } from './categories.js';
+import { AffiliateResolver, estimateEarnings } from './affiliate.js';
+import { convertItemPrice, CurrencyConverter } from './currency.js';
+import { parseItemPrice, pickPriceField } from './prices.js';
+import type { ProductVariant } from './parsers.js';
+import type { SalesTracker } from './velocity.js';
+import type { TikTokItem } from './schema.js';
+
+interface MappingOptions {
+  /** Market the item was scraped for, defaults to Brazil */
+  market?: MarketProfile;
+  /** Resolves category_id; without it category_id stays null */
+  categoryResolver?: CategoryResolver;
+  /** Sold counts of earlier runs; without it orders_24h and orders_7d are null */
+  salesTracker?: SalesTracker;
+  /** Market signal confidence above which the currency is normalized to the market's */
+  minBrazilConfidence?: number;
+  /** Converts prices to `targetCurrency`; without it prices stay in their quoted currency */
+  converter?: CurrencyConverter;
+  /** Currency of `price`, defaults to the market currency */
+  targetCurrency?: string;
+  /** Resolves affiliate commissions; without it commission fields stay null */
+  affiliateResolver?: AffiliateResolver;
 }
 
-interface SupabaseProduct {
+export interface SupabaseProduct {
   title: string;
   image_url: string | null;
   price: number;
-  orders_24h: number;
+  /** Price and currency as quoted on TikTok, before conversion */
+  original_price: number;
+  original_currency: string;
+  orders_24h: number | null;
+  orders_7d: number | null;
+  sold_count_total: number | null;
   rating: number;
   reviews_count: number;
   trending_score: number;
   shop_name: string | null;
   category_id: number | null;
+  /** Open-collaboration commission in percent */
   commission_rate: number | null;
+  affiliate_available: boolean | null;
+  /** Commission per sale in `currency` */
+  estimated_earnings_per_sale: number | null;
   seller_id: string | null;
   seller_name: string | null;
   platform_id: string;
   currency: string;
+  source: string | null;
+  description: string | null;
+  brand: string | null;
+  category_path: string | null;
+  images: string[];
+  variants: ProductVariant[] | null;
+  /** Same product across sellers, set by the clustering stage */
+  cluster_id: string | null;
 }
 
 /**
  * Map a TikTok Shop item to Supabase products table schema
  */
-export function mapToSupabase(item: TikTokItem): SupabaseProduct {
-  // Determine if item has Brazil signals for currency normalization
-  const hasBrazilSignals = hasBrazilianCurrency(item.format_price, item.currency) || 
-                          isBrazilianWarehouse(item.warehouse_region);
+export function mapToSupabase(item: TikTokItem, options: MappingOptions = {}): SupabaseProduct {
+  const market = options.market || MARKET_PROFILES.BR;
+
+  // Determine if item has market signals for currency normalization
+  const minConfidence = options.minBrazilConfidence ?? DEFAULT_MIN_BRAZIL_CONFIDENCE;
+  const hasMarketSignals = scoreMarketSignals(item, market).confidence >= minConfidence;
 
   // Platform ID (required, unique)
   const platformId = cleanPlatformId(item.product_id_str || item.product_id);
@@ -69,24 +88,21 @@ export function mapToSupabase(item: TikTokItem): SupabaseProduct {
   // Image URL
   const imageUrl = pickImageUrl(item.cover, item.img);
 
-  // Price parsing
-  let price = 0;
-  if (item.floor_price) {
-    price = parsePrice(item.floor_price);
-  } else if (item.ceiling_price) {
-    price = parsePrice(item.ceiling_price);
-  } else if (item.format_price) {
-    price = parsePrice(item.format_price);
-  }
+  // Price parsing (minor-unit integers are checked against format_price)
+  const priceField = pickPriceField(item);
+  let price = priceField ? (parseItemPrice(item, priceField, market).amount ?? 0) : 0;
 
-  // Orders/sales data
-  let orders24h = 0;
+  // Lifetime sold count as shown by TikTok
+  let soldCountTotal: number | null = null;
   if (item.sold_count) {
-    orders24h = parseInt(String(item.sold_count)) || 0;
+    soldCountTotal = parseInt(String(item.sold_count)) || 0;
   } else if (item.global_sold_count) {
-    orders24h = parseInt(String(item.global_sold_count)) || 0;
+    soldCountTotal = parseInt(String(item.global_sold_count)) || 0;
   }
 
+  // Orders in the last 24h / 7d from sold-count deltas between runs (null without history)
+  const velocity = options.salesTracker?.observe(platformId, soldCountTotal);
+
   // Rating
   const rating = item.product_rating ? parseFloat(String(item.product_rating)) : 0;
 
@@ -95,7 +111,7 @@ export function mapToSupabase(item: TikTokItem): SupabaseProduct {
 
   // Calculate trending score using our formula
   // Formula: (normalized_sales * 0.6) + (normalized_rating * 0.4)
-  const trendingScore = calculateTrendingScore(orders24h, rating);
+  const trendingScore = calculateTrendingScore(soldCountTotal ?? 0, rating);
 
   // Seller information
   const sellerInfo = item.seller_product_info;
@@ -105,29 +121,85 @@ export function mapToSupabase(item: TikTokItem): SupabaseProduct {
   const sellerName = shopName; // Same as shop_name for TikTok Shop
 
   // Currency normalization
-  const currency = normalizeCurrency(item.currency, item.format_price, hasBrazilSignals);
+  let currency = normalizeCurrency(
+    item.currency,
+    item.format_price,
+    hasMarketSignals,
+    market.currency
+  );
+
+  // Currency conversion from the currency the item is quoted in to the target currency
+  let originalPrice = price;
+  let originalCurrency = currency;
+  const conversion = options.converter
+    ? convertItemPrice(item, priceField, {
+        market,
+        converter: options.converter,
+        targetCurrency: options.targetCurrency,
+        hasMarketSignals,
+      })
+    : null;
+  if (conversion) {
+    price = conversion.price;
+    currency = conversion.currency;
+    originalPrice = conversion.original_price;
+    originalCurrency = conversion.original_currency;
+  }
 
-  // Category ID - keeping null as specified, could implement mapping later
-  const categoryId = null;
+  // Category ID from the category mapping table, null when unmapped
+  const categoryId = options.categoryResolver?.resolve(item).category_id ?? null;
+
+  // Affiliate commission from the imported export or the item's own affiliate data
+  let affiliate = options.affiliateResolver?.resolve(platformId, item) ?? null;
+  // A stated amount is in the currency the source names, else in the one the price was quoted in
+  const commissionCurrency = affiliate?.commission_currency ?? originalCurrency;
+  if (affiliate?.commission_amount && commissionCurrency !== currency) {
+    const amount = affiliate.commission_amount;
+    const converted = options.converter?.convert(amount, commissionCurrency, currency) ?? null;
+    affiliate = {
+      ...affiliate,
+      commission_amount: converted,
+      commission_currency: converted === null ? null : currency,
+    };
+  }
 
-  // Commission rate - not available in TikTok data, keeping null
-  const commissionRate = null;
+  // Detail enrichment (only present when enrichDetails was enabled)
+  const detail = item.detail;
+  const categoryPath = detail?.category_path.length
+    ? detail.category_path.map(category => category.name).join(' > ')
+    : null;
+  const images = detail?.images.length
+    ? detail.images
+    : (item.img || []).filter(img => img && img.trim());
 
   const mapped: SupabaseProduct = {
     title,
     image_url: imageUrl,
     price,
-    orders_24h: orders24h,
+    original_price: originalPrice,
+    original_currency: originalCurrency,
+    orders_24h: velocity?.orders_24h ?? null,
+    orders_7d: velocity?.orders_7d ?? null,
+    sold_count_total: soldCountTotal,
     rating,
     reviews_count: reviewsCount,
     trending_score: trendingScore,
     shop_name: shopName,
     category_id: categoryId,
-    commission_rate: commissionRate,
+    commission_rate: affiliate?.commission_rate ?? null,
+    affiliate_available: affiliate?.affiliate_available ?? null,
+    estimated_earnings_per_sale: estimateEarnings(price, affiliate),
     seller_id: sellerId,
     seller_name: sellerName,
     platform_id: platformId,
-    currency
+    currency,
+    source: item.source || null,
+    description: detail?.description ?? null,
+    brand: detail?.brand ?? null,
+    category_path: categoryPath,
+    images,
+    variants: detail ? detail.variants : null,
+    cluster_id: null
   };
 
   return mapped;
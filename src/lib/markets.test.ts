@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMarketProfile,
+  hasMarketCurrency,
+  isMarketWarehouse,
+  MARKET_PROFILES,
+} from './markets.js';
+import { parsePrice } from './utils.js';
+import { filterBrazil } from './filters.js';
+import { mapToSupabase } from './mapping.js';
+
+describe('getMarketProfile', () => {
+  it('should return the profile for every supported region', () => {
+    for (const region of ['BR', 'MX', 'CO', 'VN', 'US', 'UK', 'TH', 'SG', 'MY', 'PH', 'ID']) {
+      expect(getMarketProfile(region).region).toBe(region);
+    }
+  });
+
+  it('should be case-insensitive and default to Brazil', () => {
+    expect(getMarketProfile('mx').currency).toBe('MXN');
+    expect(getMarketProfile().region).toBe('BR');
+  });
+
+  it('should map UK to the GB proxy country', () => {
+    expect(getMarketProfile('UK').proxyCountry).toBe('GB');
+  });
+
+  it('should reject unknown regions', () => {
+    expect(() => getMarketProfile('XX')).toThrow('Unknown region "XX"');
+  });
+});
+
+describe('hasMarketCurrency', () => {
+  it('should match currency codes and symbols', () => {
+    expect(hasMarketCurrency(MARKET_PROFILES.MX, undefined, 'MXN')).toBe(true);
+    expect(hasMarketCurrency(MARKET_PROFILES.CO, 'COL$ 45.900')).toBe(true);
+    expect(hasMarketCurrency(MARKET_PROFILES.MX, '$249.00')).toBe(true);
+  });
+
+  it('should not take prefixed dollar symbols for a bare "$"', () => {
+    expect(hasMarketCurrency(MARKET_PROFILES.MX, 'R$ 24,90')).toBe(false);
+    expect(hasMarketCurrency(MARKET_PROFILES.US, 'S$12.90')).toBe(false);
+  });
+});
+
+describe('isMarketWarehouse', () => {
+  it('should match states and cities of the market', () => {
+    expect(isMarketWarehouse(MARKET_PROFILES.MX, 'Jalisco')).toBe(true);
+    expect(isMarketWarehouse(MARKET_PROFILES.CO, 'Bogotá D.C.')).toBe(true);
+    expect(isMarketWarehouse(MARKET_PROFILES.CO, undefined)).toBe(false);
+  });
+});
+
+describe('parsePrice with a market format', () => {
+  it('should read formatted prices with the market separators', () => {
+    expect(parsePrice('R$ 1.234,56', MARKET_PROFILES.BR)).toBe(1234.56);
+    expect(parsePrice('$1,234.56', MARKET_PROFILES.MX)).toBe(1234.56);
+    expect(parsePrice('$ 45.900', MARKET_PROFILES.CO)).toBe(45900);
+    expect(parsePrice('586.671.556₫', MARKET_PROFILES.VN)).toBe(586671556);
+  });
+
+  it('should keep plain API decimals', () => {
+    expect(parsePrice('24.90', MARKET_PROFILES.BR)).toBe(24.9);
+    expect(parsePrice('249.5', MARKET_PROFILES.MX)).toBe(249.5);
+  });
+
+  it('should read a lone dot followed by three digits as thousands where dot groups thousands', () => {
+    expect(parsePrice('1.234', MARKET_PROFILES.BR)).toBe(1234);
+    expect(parsePrice('1.234', MARKET_PROFILES.US)).toBe(1.234);
+  });
+});
+
+describe('Market-driven pipeline', () => {
+  const mexicanItem = {
+    product_id_str: 'mx_1',
+    title: 'Crema hidratante',
+    cover: 'https://example.com/mx.jpg',
+    floor_price: '249.00',
+    format_price: '$249.00',
+    currency: 'MXN',
+    warehouse_region: 'Jalisco',
+  };
+  const brazilianItem = {
+    product_id_str: 'br_1',
+    title: 'Creme hidratante',
+    cover: 'https://example.com/br.jpg',
+    floor_price: '24.90',
+    format_price: 'R$ 24,90',
+    currency: 'BRL',
+    warehouse_region: 'São Paulo',
+  };
+
+  it('should keep only items with signals of the selected market', () => {
+    const filtered = filterBrazil([mexicanItem, brazilianItem], {
+      requireBrazilSignals: true,
+      market: MARKET_PROFILES.MX,
+    });
+    expect(filtered.map(item => item.product_id_str)).toEqual(['mx_1']);
+  });
+
+  it('should apply price ranges in the market currency', () => {
+    const filtered = filterBrazil([mexicanItem], {
+      market: MARKET_PROFILES.MX,
+      minPrice: 200,
+      maxPrice: 300,
+    });
+    expect(filtered).toHaveLength(1);
+  });
+
+  it('should map prices and currency with the market profile', () => {
+    const mapped = mapToSupabase(mexicanItem, { market: MARKET_PROFILES.MX });
+    expect(mapped.price).toBe(249);
+    expect(mapped.currency).toBe('MXN');
+  });
+
+  it('should keep Brazil as the default market', () => {
+    const mapped = mapToSupabase(brazilianItem);
+    expect(mapped.price).toBe(24.9);
+    expect(mapped.currency).toBe('BRL');
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Market profiles: per-region proxy country, currency, warehouse regions and price format
+ */
+
+import { BRAZILIAN_STATES, containsRegionName } from './utils.js';
+
+export interface MarketProfile {
+  region: string;
+  name: string;
+  /** Apify proxy country code (ISO 3166-1 alpha-2) */
+  proxyCountry: string;
+  /** Locale sent to TikTok and used for number formatting */
+  locale: string;
+  /** Currency prices are normalized to */
+  currency: string;
+  /** Currency codes that identify this market */
+  currencyCodes: string[];
+  /** Currency symbols that identify this market, most specific first */
+  currencySymbols: string[];
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: '.' | ',' | ' ';
+  /** Digits after the decimal separator (0 for VND, IDR, COP) */
+  minorUnits: number;
+  /** Warehouse states, cities and country names that identify this market */
+  warehouseRegions: string[];
+  /** URL fragments of the regional TikTok Shop site */
+  urlMarkers: string[];
+}
+
+export const MARKET_PROFILES: Record<string, MarketProfile> = {
+  BR: {
+    region: 'BR',
+    name: 'Brazil',
+    proxyCountry: 'BR',
+    locale: 'pt-BR',
+    currency: 'BRL',
+    currencyCodes: ['BRL'],
+    currencySymbols: ['R$'],
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    minorUnits: 2,
+    warehouseRegions: BRAZILIAN_STATES,
+    urlMarkers: ['/br-', '.br/', '/br/', 'brazil', 'brasil'],
+  },
+  MX: {
+    region: 'MX',
+    name: 'Mexico',
+    proxyCountry: 'MX',
+    locale: 'es-MX',
+    currency: 'MXN',
+    currencyCodes: ['MXN'],
+    currencySymbols: ['MX$', 'MXN$', '$'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: [
+      'México',
+      'Mexico',
+      'MX',
+      'Ciudad de México',
+      'CDMX',
+      'Estado de México',
+      'Jalisco',
+      'Guadalajara',
+      'Nuevo León',
+      'Monterrey',
+      'Puebla',
+    ],
+    urlMarkers: ['.mx/', '/mx/', 'mexico'],
+  },
+  CO: {
+    region: 'CO',
+    name: 'Colombia',
+    proxyCountry: 'CO',
+    locale: 'es-CO',
+    currency: 'COP',
+    currencyCodes: ['COP'],
+    currencySymbols: ['COL$', 'COP$', '$'],
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    minorUnits: 0,
+    warehouseRegions: [
+      'Colombia',
+      'CO',
+      'Bogotá',
+      'Bogota',
+      'Cundinamarca',
+      'Antioquia',
+      'Medellín',
+      'Valle del Cauca',
+      'Cali',
+      'Barranquilla',
+    ],
+    urlMarkers: ['.co/', '/co/', 'colombia'],
+  },
+  VN: {
+    region: 'VN',
+    name: 'Vietnam',
+    proxyCountry: 'VN',
+    locale: 'vi-VN',
+    currency: 'VND',
+    currencyCodes: ['VND'],
+    currencySymbols: ['₫', 'đ'],
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    minorUnits: 0,
+    warehouseRegions: [
+      'Vietnam',
+      'Việt Nam',
+      'VN',
+      'Ho Chi Minh',
+      'Hồ Chí Minh',
+      'Hanoi',
+      'Hà Nội',
+      'Da Nang',
+      'Đà Nẵng',
+      'Hai Phong',
+    ],
+    urlMarkers: ['.vn/', '/vn/', 'vietnam'],
+  },
+  US: {
+    region: 'US',
+    name: 'United States',
+    proxyCountry: 'US',
+    locale: 'en-US',
+    currency: 'USD',
+    currencyCodes: ['USD'],
+    currencySymbols: ['US$', '$'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: [
+      'United States',
+      'USA',
+      'US',
+      'California',
+      'Texas',
+      'New York',
+      'New Jersey',
+      'Florida',
+      'Georgia',
+      'Illinois',
+      'Pennsylvania',
+    ],
+    urlMarkers: ['/us/', 'united-states'],
+  },
+  UK: {
+    region: 'UK',
+    name: 'United Kingdom',
+    proxyCountry: 'GB',
+    locale: 'en-GB',
+    currency: 'GBP',
+    currencyCodes: ['GBP'],
+    currencySymbols: ['£'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: [
+      'United Kingdom',
+      'UK',
+      'GB',
+      'England',
+      'Scotland',
+      'Wales',
+      'Northern Ireland',
+      'London',
+      'Manchester',
+      'Birmingham',
+    ],
+    urlMarkers: ['.uk/', '/uk/', '/gb/'],
+  },
+  TH: {
+    region: 'TH',
+    name: 'Thailand',
+    proxyCountry: 'TH',
+    locale: 'th-TH',
+    currency: 'THB',
+    currencyCodes: ['THB'],
+    currencySymbols: ['฿'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: [
+      'Thailand',
+      'TH',
+      'ประเทศไทย',
+      'Bangkok',
+      'กรุงเทพ',
+      'Nonthaburi',
+      'Samut Prakan',
+      'Chiang Mai',
+    ],
+    urlMarkers: ['.th/', '/th/', 'thailand'],
+  },
+  SG: {
+    region: 'SG',
+    name: 'Singapore',
+    proxyCountry: 'SG',
+    locale: 'en-SG',
+    currency: 'SGD',
+    currencyCodes: ['SGD'],
+    currencySymbols: ['S$'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: ['Singapore', 'SG'],
+    urlMarkers: ['.sg/', '/sg/', 'singapore'],
+  },
+  MY: {
+    region: 'MY',
+    name: 'Malaysia',
+    proxyCountry: 'MY',
+    locale: 'ms-MY',
+    currency: 'MYR',
+    currencyCodes: ['MYR'],
+    currencySymbols: ['RM'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: [
+      'Malaysia',
+      'MY',
+      'Kuala Lumpur',
+      'Selangor',
+      'Johor',
+      'Penang',
+      'Pulau Pinang',
+      'Sabah',
+      'Sarawak',
+    ],
+    urlMarkers: ['.my/', '/my/', 'malaysia'],
+  },
+  PH: {
+    region: 'PH',
+    name: 'Philippines',
+    proxyCountry: 'PH',
+    locale: 'en-PH',
+    currency: 'PHP',
+    currencyCodes: ['PHP'],
+    currencySymbols: ['₱'],
+    decimalSeparator: '.',
+    thousandsSeparator: ',',
+    minorUnits: 2,
+    warehouseRegions: [
+      'Philippines',
+      'PH',
+      'Metro Manila',
+      'Manila',
+      'Quezon City',
+      'Cebu',
+      'Davao',
+      'Laguna',
+      'Cavite',
+    ],
+    urlMarkers: ['.ph/', '/ph/', 'philippines'],
+  },
+  ID: {
+    region: 'ID',
+    name: 'Indonesia',
+    proxyCountry: 'ID',
+    locale: 'id-ID',
+    currency: 'IDR',
+    currencyCodes: ['IDR'],
+    currencySymbols: ['Rp'],
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    minorUnits: 0,
+    warehouseRegions: [
+      'Indonesia',
+      'ID',
+      'Jakarta',
+      'DKI Jakarta',
+      'Jawa Barat',
+      'Jawa Timur',
+      'Jawa Tengah',
+      'Banten',
+      'Surabaya',
+      'Bandung',
+    ],
+    urlMarkers: ['.id/', '/id/', 'indonesia'],
+  },
+};
+
+/**
+ * Look up the market profile for a region, failing on unknown regions
+ */
+export function getMarketProfile(region: string = 'BR'): MarketProfile {
+  const profile = MARKET_PROFILES[region.toUpperCase()];
+  if (!profile) {
+    const known = Object.keys(MARKET_PROFILES).join(', ');
+    throw new Error(`Unknown region "${region}". Supported regions: ${known}`);
+  }
+  return profile;
+}
+
+/**
+ * Check whether a price string or currency code belongs to the market's currency
+ */
+export function hasMarketCurrency(
+  market: MarketProfile,
+  priceStr: string | undefined,
+  currency?: string
+): boolean {
+  if (currency) {
+    const code = currency.trim().toUpperCase();
+    if (market.currencyCodes.includes(code)) return true;
+    if (market.currencySymbols.some(symbol => symbol.toUpperCase() === code)) return true;
+  }
+
+  if (!priceStr) {
+    return false;
+  }
+
+  if (market.currencyCodes.some(code => priceStr.toUpperCase().includes(code))) {
+    return true;
+  }
+
+  return market.currencySymbols.some(symbol => {
+    // A bare "$" must not be part of a prefixed symbol such as "R$" or "S$"
+    if (symbol === '$') {
+      return /(^|[^A-Za-z])\$/.test(priceStr);
+    }
+    return priceStr.includes(symbol);
+  });
+}
+
+/**
+ * Check whether a warehouse region names one of the market's states, cities or country names
+ * as a whole word
+ */
+export function isMarketWarehouse(market: MarketProfile, warehouseRegion?: string): boolean {
+  if (!warehouseRegion) {
+    return false;
+  }
+
+  return market.warehouseRegions.some(name => containsRegionName(warehouseRegion, name));
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { crawlPages, itemKey, PageRequest } from './pagination.js';
+import type { SearchPage } from './parsers.js';
+
+const PAGE_SIZE = 20;
+
+// Fake offset-paginated endpoint serving `total` products
+function offsetEndpoint(total: number, options: { overlap?: number; failAt?: number } = {}) {
+  const requests: PageRequest[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchPage = async (request: PageRequest): Promise<SearchPage> => {
+    requests.push(request);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+
+    if (options.failAt !== undefined && request.offset === options.failAt) {
+      throw new Error('HTTP 500');
+    }
+
+    // Overlap simulates TikTok repeating products across neighbouring pages
+    const start = Math.max(0, request.offset - (options.overlap ?? 0));
+    const end = Math.min(total, request.offset + PAGE_SIZE);
+    const items = [];
+    for (let i = start; i < end; i++) {
+      items.push({ product_id_str: `p${i}`, title: `Produto ${i}` });
+    }
+    return { items, hasMore: end < total, nextOffset: end };
+  };
+
+  return { fetchPage, requests, maxInFlight: () => maxInFlight };
+}
+
+describe('crawlPages', () => {
+  describe('Offset pagination', () => {
+    it('should collect up to the limit across pages', async () => {
+      const endpoint = offsetEndpoint(1000);
+      const items = await crawlPages({
+        limit: 510,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 5,
+        fetchPage: endpoint.fetchPage,
+      });
+
+      expect(items).toHaveLength(510);
+      expect(new Set(items.map(item => item.product_id_str)).size).toBe(510);
+    });
+
+    it('should stop when results run out', async () => {
+      const endpoint = offsetEndpoint(45);
+      const items = await crawlPages({
+        limit: 500,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 5,
+        fetchPage: endpoint.fetchPage,
+      });
+
+      expect(items).toHaveLength(45);
+    });
+
+    it('should fetch pages in parallel up to maxConcurrency', async () => {
+      const endpoint = offsetEndpoint(1000);
+      await crawlPages({
+        limit: 400,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 4,
+        fetchPage: endpoint.fetchPage,
+      });
+
+      expect(endpoint.maxInFlight()).toBe(4);
+    });
+
+    it('should not request more pages than the limit needs', async () => {
+      const endpoint = offsetEndpoint(1000);
+      await crawlPages({
+        limit: 60,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 10,
+        fetchPage: endpoint.fetchPage,
+      });
+
+      expect(endpoint.requests.map(request => request.offset)).toEqual([0, 20, 40]);
+    });
+
+    it('should de-duplicate products repeated across pages', async () => {
+      const endpoint = offsetEndpoint(100, { overlap: 5 });
+      const items = await crawlPages({
+        limit: 1000,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 3,
+        fetchPage: endpoint.fetchPage,
+      });
+
+      expect(items).toHaveLength(100);
+    });
+
+    it('should keep collected items when a later page fails', async () => {
+      const endpoint = offsetEndpoint(1000, { failAt: 40 });
+      const items = await crawlPages({
+        limit: 200,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 2,
+        fetchPage: endpoint.fetchPage,
+      });
+
+      expect(items).toHaveLength(40);
+    });
+
+    it('should propagate a failure on the first page', async () => {
+      const endpoint = offsetEndpoint(1000, { failAt: 0 });
+      await expect(
+        crawlPages({
+          limit: 50,
+          pageSize: PAGE_SIZE,
+          maxConcurrency: 2,
+          fetchPage: endpoint.fetchPage,
+        })
+      ).rejects.toThrow('HTTP 500');
+    });
+  });
+
+  describe('Cursor pagination', () => {
+    it('should follow cursors sequentially', async () => {
+      const cursors: (string | undefined)[] = [];
+      const fetchPage = async ({ cursor }: PageRequest): Promise<SearchPage> => {
+        cursors.push(cursor);
+        const page = cursor ? Number(cursor) : 0;
+        const items = Array.from({ length: PAGE_SIZE }, (_, i) => ({
+          product_id: page * PAGE_SIZE + i,
+        }));
+        return { items, hasMore: page < 2, cursor: String(page + 1) };
+      };
+
+      const items = await crawlPages({
+        limit: 1000,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 5,
+        fetchPage,
+      });
+
+      expect(items).toHaveLength(60);
+      expect(cursors).toEqual([undefined, '1', '2']);
+    });
+
+    it('should stop when a page brings nothing new', async () => {
+      let calls = 0;
+      const fetchPage = async (): Promise<SearchPage> => {
+        calls++;
+        return { items: [{ product_id: 'same' }], hasMore: true, cursor: 'again' };
+      };
+
+      const items = await crawlPages({
+        limit: 100,
+        pageSize: PAGE_SIZE,
+        maxConcurrency: 1,
+        fetchPage,
+      });
+
+      expect(items).toHaveLength(1);
+      expect(calls).toBe(2);
+    });
+  });
+});
+
+describe('itemKey', () => {
+  it('should prefer product_id_str and ignore empty IDs', () => {
+    expect(itemKey({ product_id: 1, product_id_str: '1a' })).toBe('1a');
+    expect(itemKey({ product_id: 42 })).toBe('42');
+    expect(itemKey({ product_id: '' })).toBeUndefined();
+  });
+});
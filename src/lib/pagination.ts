@@ -0,0 +1,134 @@
+/**
+ * Paginated crawling of TikTok Shop list endpoints (search and trending)
+ */
+
+import type { SearchPage } from './parsers.js';
+import type { TikTokItem } from './schema.js';
+
+export interface PageRequest {
+  pageNumber: number;
+  offset: number;
+  cursor?: string;
+}
+
+export interface CrawlOptions {
+  limit: number;
+  pageSize: number;
+  maxConcurrency: number;
+  fetchPage: (request: PageRequest) => Promise<SearchPage>;
+  label?: string;
+}
+
+/**
+ * Stable de-duplication key for an item across pages
+ */
+export function itemKey(item: TikTokItem): string | undefined {
+  const id = item.product_id_str || item.product_id;
+  return id !== undefined && id !== null && id !== '' ? String(id) : undefined;
+}
+
+/**
+ * Crawl list pages until `limit` unique products are collected or results run out.
+ *
+ * The first page decides the mode: if TikTok returns a cursor, pages are followed
+ * one by one; otherwise offsets are predictable and up to `maxConcurrency` pages
+ * are fetched in parallel per wave.
+ */
+export async function crawlPages(options: CrawlOptions): Promise<TikTokItem[]> {
+  const { limit, pageSize, fetchPage, label = 'list' } = options;
+  const maxConcurrency = Math.max(1, options.maxConcurrency);
+  const collected = new Map<string, TikTokItem>();
+
+  // Accept a page's items, returning how many were new
+  const accept = (request: PageRequest, page: SearchPage): number => {
+    let added = 0;
+    for (const item of page.items) {
+      const key = itemKey(item);
+      if (!key || collected.has(key) || collected.size >= limit) continue;
+      collected.set(key, item);
+      added++;
+    }
+    console.log(
+      `📄 ${label} page ${request.pageNumber} (offset ${request.offset}): ` +
+        `${page.items.length} items, ${added} new, ${collected.size}/${limit} collected`
+    );
+    return added;
+  };
+
+  const firstRequest: PageRequest = { pageNumber: 1, offset: 0 };
+  const firstPage = await fetchPage(firstRequest);
+  const firstAdded = accept(firstRequest, firstPage);
+
+  if (!firstPage.hasMore || firstAdded === 0 || collected.size >= limit) {
+    return Array.from(collected.values());
+  }
+
+  // A generous ceiling so a misbehaving endpoint can't loop forever
+  const maxPages = Math.ceil(limit / pageSize) * 2 + 5;
+
+  if (firstPage.cursor) {
+    let cursor: string | undefined = firstPage.cursor;
+    let offset = firstPage.nextOffset ?? firstPage.items.length;
+
+    for (let pageNumber = 2; cursor && pageNumber <= maxPages; pageNumber++) {
+      const request: PageRequest = { pageNumber, offset, cursor };
+      let page: SearchPage;
+      try {
+        page = await fetchPage(request);
+      } catch (error) {
+        console.warn(`⚠️ ${label} page ${pageNumber} failed, stopping pagination:`, error);
+        break;
+      }
+
+      const added = accept(request, page);
+      if (!page.hasMore || added === 0 || collected.size >= limit) break;
+
+      cursor = page.cursor;
+      offset = page.nextOffset ?? offset + page.items.length;
+    }
+
+    return Array.from(collected.values());
+  }
+
+  let nextOffset = firstPage.nextOffset ?? pageSize;
+  let pageNumber = 2;
+
+  while (collected.size < limit && pageNumber <= maxPages) {
+    const remainingPages = Math.ceil((limit - collected.size) / pageSize);
+    const waveSize = Math.min(maxConcurrency, remainingPages, maxPages - pageNumber + 1);
+
+    const requests: PageRequest[] = [];
+    for (let i = 0; i < waveSize; i++) {
+      requests.push({ pageNumber: pageNumber + i, offset: nextOffset + i * pageSize });
+    }
+
+    const results = await Promise.allSettled(requests.map(request => fetchPage(request)));
+
+    let exhausted = false;
+    let waveAdded = 0;
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === 'rejected') {
+        console.warn(
+          `⚠️ ${label} page ${requests[i].pageNumber} failed, stopping pagination:`,
+          result.reason
+        );
+        exhausted = true;
+        break;
+      }
+
+      waveAdded += accept(requests[i], result.value);
+      if (!result.value.hasMore || result.value.items.length === 0) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    if (exhausted || waveAdded === 0) break;
+
+    pageNumber += waveSize;
+    nextOffset += waveSize * pageSize;
+  }
+
+  return Array.from(collected.values());
+}
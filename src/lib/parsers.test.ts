@@ -0,0 +1,280 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  extractEmbeddedState,
+  parseProductDetail,
+  parseSearchResponse,
+  parseTrendingResponse,
+} from './parsers.js';
+import { buildSearchUrl, buildTrendingUrl, sourceTag } from './tiktok.js';
+
+const readFixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf-8');
+
+describe('parseSearchResponse', () => {
+  describe('JSON API response', () => {
+    const page = parseSearchResponse(readFixture('search_response.json'));
+
+    it('should parse products into TikTokItems', () => {
+      expect(page.items).toHaveLength(2);
+      expect(page.items[0].title).toBe('Shampoo Pantene Restauração 400ml');
+    });
+
+    it('should map price, currency and seller fields', () => {
+      const item = page.items[0];
+      expect(item.floor_price).toBe('24.90');
+      expect(item.ceiling_price).toBe('32.90');
+      expect(item.format_price).toBe('R$ 24,90');
+      expect(item.currency).toBe('BRL');
+      expect(item.seller_product_info).toEqual({
+        seller_name: 'Beleza Brasil Oficial',
+        seller_id: '7495837261029384',
+        seller_id_str: '7495837261029384',
+      });
+    });
+
+    it('should map cover, gallery, rating and sales', () => {
+      const item = page.items[0];
+      expect(item.cover).toContain('a1b2c3');
+      expect(item.img).toHaveLength(2);
+      expect(item.product_rating).toBe(4.8);
+      expect(item.review_count).toBe('1284');
+      expect(item.sold_count).toBe(5321);
+      expect(item.warehouse_region).toBe('São Paulo');
+    });
+
+    it('should keep the canonical product URL as schema', () => {
+      expect(page.items[0].schema).toContain('shop.tiktok.com/br/');
+      expect(page.items[0].view_in_shop_button?.schema).toBe(page.items[0].schema);
+    });
+
+    it('should prefer product_id_str over lossy numeric IDs', () => {
+      expect(page.items[1].product_id_str).toBe('1729384756102938476');
+      expect(page.items[1].img).toEqual([page.items[1].cover]);
+    });
+
+    it('should leave out fields of an unexpected shape', () => {
+      const body = JSON.stringify({
+        products: [
+          {
+            product_id: 7,
+            title: { text: 'Produto' },
+            image: 'https://example.com/cover.jpg',
+            images: [null, { url_list: [42, 'https://example.com/g1.jpg'] }],
+            product_price_info: 'R$ 10,00',
+            seller_info: { seller_id: 987, shop_name: ['Loja'] },
+          },
+        ],
+      });
+
+      expect(parseSearchResponse(body).items[0]).toMatchObject({
+        product_id: '7',
+        title: undefined,
+        img: ['https://example.com/g1.jpg'],
+        floor_price: undefined,
+        seller_product_info: { seller_id: 987, seller_id_str: '987', seller_name: undefined },
+      });
+    });
+
+    it('should drop products without an ID', () => {
+      expect(page.items.find(item => item.title === 'Produto sem identificador')).toBeUndefined();
+    });
+
+    it('should read pagination info', () => {
+      expect(page.hasMore).toBe(true);
+      expect(page.nextOffset).toBe(20);
+    });
+  });
+
+  describe('HTML search page', () => {
+    const page = parseSearchResponse(readFixture('search_page.html'));
+
+    it('should parse products from embedded state', () => {
+      expect(page.items).toHaveLength(1);
+      expect(page.items[0].title).toBe('Chapinha Babyliss Pro Titanium');
+      expect(page.items[0].format_price).toBe('R$ 199,90');
+    });
+
+    it('should read cursor pagination info', () => {
+      expect(page.hasMore).toBe(false);
+      expect(page.cursor).toBe('eyJvZmZzZXQiOjIwfQ==');
+    });
+  });
+
+  describe('Error handling', () => {
+    it('should throw on API error codes', () => {
+      const body = JSON.stringify({ code: 10201, message: 'verify required' });
+      expect(() => parseSearchResponse(body)).toThrow('error code 10201');
+    });
+
+    it('should throw on unrecognised bodies', () => {
+      expect(() => parseSearchResponse('Access denied')).toThrow();
+      expect(() => parseSearchResponse('<html><body>captcha</body></html>')).toThrow();
+    });
+
+    it('should return an empty page when no products are present', () => {
+      const page = parseSearchResponse(JSON.stringify({ code: 0, data: {} }));
+      expect(page.items).toHaveLength(0);
+      expect(page.hasMore).toBe(false);
+    });
+  });
+});
+
+describe('parseTrendingResponse', () => {
+  const page = parseTrendingResponse(readFixture('trending_response.json'));
+
+  it('should unwrap ranking entries into TikTokItems', () => {
+    expect(page.items).toHaveLength(2);
+    expect(page.items[0].title).toBe('Secador de Cabelo Taiff Black 2000W');
+    expect(page.items[0].floor_price).toBe('159.90');
+    expect(page.items[1].sold_count).toBe(8751);
+  });
+
+  it('should keep rank and category of each entry', () => {
+    expect(page.items[0].trending_rank).toBe(1);
+    expect(page.items[1].trending_rank).toBe(2);
+    expect(page.items[0].trending_category_id).toBe('601152');
+  });
+
+  it('should fall back to list position when rank is missing', () => {
+    const body = JSON.stringify({
+      code: 0,
+      data: { ranking_list: [{ product: { product_id: '1', title: 'A' } }] },
+    });
+    expect(parseTrendingResponse(body).items[0].trending_rank).toBe(1);
+  });
+
+  it('should throw on API error codes', () => {
+    const body = JSON.stringify({ code: 10000, message: 'rate limited' });
+    expect(() => parseTrendingResponse(body)).toThrow('trending returned error code 10000');
+  });
+});
+
+describe('parseProductDetail', () => {
+  const detail = parseProductDetail(readFixture('product_detail.json'));
+
+  it('should parse SKU variants with price and stock', () => {
+    expect(detail.variants).toEqual([
+      {
+        sku_id: '1729384756102938700',
+        name: '400ml',
+        attributes: { Tamanho: '400ml' },
+        price: 24.9,
+        original_price: 39.9,
+        stock: 812,
+      },
+      {
+        sku_id: '1729384756102938701',
+        name: '750ml',
+        attributes: { Tamanho: '750ml' },
+        price: 32.9,
+        original_price: null,
+        stock: 0,
+      },
+    ]);
+  });
+
+  it('should keep only the text blocks of the description', () => {
+    expect(detail.description).toBe(
+      'Shampoo Pantene Restauração com Pro-V.\nRecupera cabelos danificados em 3 lavagens.'
+    );
+  });
+
+  it('should order the category breadcrumb by level', () => {
+    expect(detail.category_path.map(category => category.name)).toEqual([
+      'Beleza e Cuidados Pessoais',
+      'Cuidados com o cabelo',
+      'Shampoo',
+    ]);
+    expect(detail.category_path[2].id).toBe('601463');
+  });
+
+  it('should parse brand, specs and gallery', () => {
+    expect(detail.brand).toBe('Pantene');
+    expect(detail.specs).toEqual({
+      Marca: 'Pantene',
+      Volume: '400ml',
+      'Tipo de cabelo': 'Danificado',
+    });
+    expect(detail.images).toHaveLength(3);
+  });
+
+  it('should accept plain-text descriptions and fall back to the brand spec', () => {
+    const body = JSON.stringify({
+      code: 0,
+      data: {
+        product_info: {
+          product_base: {
+            description: 'Texto simples',
+            specifications: [{ name: 'Marca', value: 'Taiff' }],
+          },
+          skus: [],
+        },
+      },
+    });
+    const parsed = parseProductDetail(body);
+    expect(parsed.description).toBe('Texto simples');
+    expect(parsed.brand).toBe('Taiff');
+    expect(parsed.variants).toEqual([]);
+  });
+
+  it('should throw when the response has no product detail', () => {
+    expect(() => parseProductDetail(JSON.stringify({ code: 0, data: {} }))).toThrow(
+      'No product detail'
+    );
+  });
+});
+
+describe('extractEmbeddedState', () => {
+  it('should return null when no known script is present', () => {
+    expect(extractEmbeddedState('<html><script>var a = 1;</script></html>')).toBe(null);
+  });
+});
+
+describe('buildSearchUrl', () => {
+  const config = {
+    region: 'br',
+    limit: 20,
+    isTrendingProducts: false,
+    keyword: 'secador de cabelo',
+    sortType: 'BEST_SELLERS',
+    maxConcurrency: 5,
+    debug: false,
+  };
+
+  it('should encode keyword, region, sort type and offset', () => {
+    const url = new URL(buildSearchUrl(config, 40));
+    expect(url.searchParams.get('keyword')).toBe('secador de cabelo');
+    expect(url.searchParams.get('region')).toBe('BR');
+    expect(url.searchParams.get('sort_type')).toBe('1');
+    expect(url.searchParams.get('offset')).toBe('40');
+  });
+
+  it('should fall back to relevance for unknown sort types', () => {
+    const url = new URL(buildSearchUrl({ ...config, sortType: 'UNKNOWN' }));
+    expect(url.searchParams.get('sort_type')).toBe('0');
+  });
+});
+
+describe('buildTrendingUrl', () => {
+  const config = {
+    region: 'BR',
+    limit: 20,
+    isTrendingProducts: true,
+    keyword: 'baby',
+    sortType: 'RELEVANCE',
+    maxConcurrency: 5,
+    debug: false,
+  };
+
+  it('should only scope by category when one is given', () => {
+    expect(new URL(buildTrendingUrl(config)).searchParams.has('category_id')).toBe(false);
+    const scoped = new URL(buildTrendingUrl({ ...config, trendingCategoryId: '601152' }));
+    expect(scoped.searchParams.get('category_id')).toBe('601152');
+  });
+
+  it('should tag trending and search runs differently', () => {
+    expect(sourceTag(config)).toBe('trending');
+    expect(sourceTag({ ...config, isTrendingProducts: false })).toBe('search:baby');
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Parsers for TikTok Shop responses (JSON API payloads and server-rendered HTML pages)
+ */
+
+import { isRecord, TikTokItem } from './schema.js';
+
+export interface SearchPage {
+  items: TikTokItem[];
+  hasMore: boolean;
+  nextOffset?: number;
+  cursor?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** The object, or an empty one for anything else, so nested reads need no checks */
+const objectOf = (value: unknown): JsonObject => (isRecord(value) ? value : {});
+
+const arrayOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const stringOf = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/** Strings and numbers as sent; the schema validates their format */
+const scalarOf = (value: unknown): string | number | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? value : undefined;
+
+/**
+ * Script tags TikTok uses to embed the initial state in server-rendered pages
+ */
+const EMBEDDED_STATE_SCRIPT_IDS = [
+  '__MODERN_ROUTER_DATA__',
+  '__UNIVERSAL_DATA_FOR_REHYDRATION__',
+  'SIGI_STATE',
+];
+
+/**
+ * Extract the embedded JSON state from a TikTok Shop HTML page
+ */
+export function extractEmbeddedState(html: string): unknown {
+  for (const id of EMBEDDED_STATE_SCRIPT_IDS) {
+    const pattern = new RegExp(`<script[^>]*id=["']${id}["'][^>]*>([\\s\\S]*?)</script>`, 'i');
+    const match = html.match(pattern);
+    if (!match) continue;
+
+    try {
+      return JSON.parse(match[1]);
+    } catch {
+      // Try the next known script id
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a response body that may be either raw JSON or an HTML page with embedded state
+ */
+export function parseResponseBody(body: string): unknown {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('<')) {
+    const state = extractEmbeddedState(trimmed);
+    if (state === null) {
+      throw new Error('No embedded TikTok state found in HTML response');
+    }
+    return state;
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`Response is neither JSON nor HTML (starts with "${trimmed.slice(0, 40)}")`);
+  }
+}
+
+/**
+ * Recursively find the first object that holds an array under `listKey`
+ */
+function findListContainer(node: unknown, listKey: string, depth = 0): JsonObject | null {
+  if (!node || typeof node !== 'object' || depth > 12) {
+    return null;
+  }
+
+  if (isRecord(node) && Array.isArray(node[listKey])) {
+    return node;
+  }
+
+  for (const value of Object.values(node)) {
+    const found = findListContainer(value, listKey, depth + 1);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+/**
+ * Throw when the payload carries a non-zero TikTok API status code
+ */
+function assertSuccess(payload: unknown, endpoint: string): void {
+  const { code, message } = objectOf(payload);
+  if (typeof code === 'number' && code !== 0) {
+    throw new Error(
+      `TikTok ${endpoint} returned error code ${code}: ${stringOf(message) || 'unknown'}`
+    );
+  }
+}
+
+/**
+ * Read has_more / next_offset / cursor from a list container
+ */
+function readPagination(container: JsonObject): Omit<SearchPage, 'items'> {
+  return {
+    hasMore: Boolean(container.has_more),
+    nextOffset: typeof container.next_offset === 'number' ? container.next_offset : undefined,
+    cursor: container.cursor ? String(container.cursor) : undefined,
+  };
+}
+
+/**
+ * Pick all URLs from a TikTok image object (`{ url_list: [...] }`)
+ */
+function imageUrls(image: unknown): string[] {
+  if (!image) return [];
+  if (typeof image === 'string') return [image];
+  return arrayOf(objectOf(image).url_list).filter(
+    (url): url is string => typeof url === 'string' && url !== ''
+  );
+}
+
+/**
+ * Convert one product from the search payload into a TikTokItem
+ */
+export function parseProduct(value: unknown): TikTokItem {
+  const product = objectOf(value);
+  const priceInfo = objectOf(product.product_price_info);
+  const rateInfo = objectOf(product.rate_info);
+  const soldInfo = objectOf(product.sold_info);
+  const sellerInfo = objectOf(product.seller_info);
+  const productId = scalarOf(product.product_id_str) || scalarOf(product.product_id);
+  const sellerId = scalarOf(sellerInfo.seller_id);
+
+  const cover = imageUrls(product.image)[0];
+  const gallery = arrayOf(product.images).flatMap(image => imageUrls(image).slice(0, 1));
+  const canonicalUrl = stringOf(objectOf(product.seo_url).canonical_url);
+
+  return {
+    product_id: productId !== undefined ? String(productId) : undefined,
+    product_id_str: productId !== undefined ? String(productId) : undefined,
+    title: stringOf(product.title),
+    cover,
+    img: gallery.length > 0 ? gallery : cover ? [cover] : [],
+    floor_price: scalarOf(priceInfo.sale_price_decimal) ?? scalarOf(priceInfo.min_price_decimal),
+    ceiling_price:
+      scalarOf(priceInfo.sale_price_ceiling_decimal) ??
+      scalarOf(priceInfo.max_price_decimal) ??
+      scalarOf(priceInfo.sale_price_decimal),
+    format_price: stringOf(priceInfo.sale_price_format),
+    currency: stringOf(priceInfo.currency_name),
+    warehouse_region:
+      stringOf(objectOf(product.logistics_info).warehouse_region) ??
+      stringOf(product.warehouse_region),
+    seller_product_info: {
+      seller_name: stringOf(sellerInfo.shop_name) ?? stringOf(sellerInfo.seller_name),
+      seller_id: sellerId,
+      seller_id_str: sellerId !== undefined ? String(sellerId) : undefined,
+    },
+    product_rating: scalarOf(rateInfo.score),
+    review_count: scalarOf(rateInfo.review_count),
+    sold_count: scalarOf(soldInfo.sold_count),
+    global_sold_count: scalarOf(soldInfo.global_sold_count),
+    schema: canonicalUrl,
+    view_in_shop_button: canonicalUrl ? { schema: canonicalUrl } : undefined,
+  };
+}
+
+/**
+ * Parse a TikTok Shop search response (JSON API or HTML search page) into TikTokItems
+ */
+export function parseSearchResponse(body: string): SearchPage {
+  const payload = parseResponseBody(body);
+  assertSuccess(payload, 'search');
+
+  const container = findListContainer(payload, 'products');
+  if (!container) {
+    return { items: [], hasMore: false };
+  }
+
+  const items = arrayOf(container.products)
+    .map(product => parseProduct(product))
+    .filter(item => item.product_id);
+
+  return { items, ...readPagination(container) };
+}
+
+/**
+ * Parse a TikTok Shop trending/bestseller ranking response into TikTokItems.
+ * Ranking entries wrap the regular product payload and add `rank` and `category_id`.
+ */
+export function parseTrendingResponse(body: string): SearchPage {
+  const payload = parseResponseBody(body);
+  assertSuccess(payload, 'trending');
+
+  const container = findListContainer(payload, 'ranking_list');
+  if (!container) {
+    return { items: [], hasMore: false };
+  }
+
+  const items = arrayOf(container.ranking_list)
+    .map((value, index) => {
+      const entry = objectOf(value);
+      const item = parseProduct(entry.product || entry);
+      item.trending_rank = typeof entry.rank === 'number' ? entry.rank : index + 1;
+      if (entry.category_id !== undefined) {
+        item.trending_category_id = String(entry.category_id);
+      }
+      return item;
+    })
+    .filter(item => item.product_id);
+
+  return { items, ...readPagination(container) };
+}
+
+export interface ProductVariant {
+  sku_id: string;
+  name: string;
+  attributes: Record<string, string>;
+  price: number | null;
+  original_price: number | null;
+  stock: number | null;
+}
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+}
+
+export interface ProductDetail {
+  description: string | null;
+  brand: string | null;
+  category_path: CategoryNode[];
+  images: string[];
+  specs: Record<string, string>;
+  variants: ProductVariant[];
+}
+
+/**
+ * Convert a decimal string/number from the API to a number, or null when absent
+ */
+function toNumberOrNull(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * TikTok sends rich descriptions as a JSON string of blocks; keep only the text
+ */
+function parseDescription(raw: unknown): string | null {
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+
+  try {
+    const blocks: unknown = JSON.parse(raw);
+    if (Array.isArray(blocks)) {
+      const text = blocks
+        .map(objectOf)
+        .flatMap(block =>
+          block.type === 'text' && typeof block.text === 'string' ? [block.text.trim()] : []
+        )
+        .filter(Boolean)
+        .join('\n');
+      return text || null;
+    }
+  } catch {
+    // Plain-text description
+  }
+
+  return raw.trim();
+}
+
+/**
+ * Parse a product detail (PDP) response into variants, description, breadcrumb, brand and gallery
+ */
+export function parseProductDetail(body: string): ProductDetail {
+  const payload = parseResponseBody(body);
+  assertSuccess(payload, 'product detail');
+
+  const container = findListContainer(payload, 'skus');
+  if (!container) {
+    throw new Error('No product detail found in response');
+  }
+
+  const base = objectOf(container.product_base);
+
+  const variants: ProductVariant[] = arrayOf(container.skus).map(value => {
+    const sku = objectOf(value);
+    const attributes: Record<string, string> = {};
+    for (const prop of arrayOf(sku.sku_sale_props).map(objectOf)) {
+      if (prop.prop_name) attributes[String(prop.prop_name)] = String(prop.prop_value ?? '');
+    }
+    const price = objectOf(sku.price);
+
+    return {
+      sku_id: String(sku.sku_id_str ?? sku.sku_id ?? ''),
+      name: Object.values(attributes).join(' / '),
+      attributes,
+      price: toNumberOrNull(objectOf(price.real_price).price_val),
+      original_price: toNumberOrNull(objectOf(price.original_price).price_val),
+      stock: toNumberOrNull(sku.stock),
+    };
+  });
+
+  const level = (category: JsonObject) => (typeof category.level === 'number' ? category.level : 0);
+  const categoryPath: CategoryNode[] = arrayOf(container.categories)
+    .map(objectOf)
+    .sort((a, b) => level(a) - level(b))
+    .map(category => ({
+      id: String(category.category_id),
+      name: String(category.category_name ?? ''),
+    }));
+
+  const specs: Record<string, string> = {};
+  for (const spec of arrayOf(base.specifications).map(objectOf)) {
+    if (spec.name) specs[String(spec.name)] = String(spec.value ?? '');
+  }
+
+  const images: string[] = arrayOf(base.images).flatMap(image => imageUrls(image).slice(0, 1));
+
+  return {
+    description: parseDescription(base.desc_detail ?? base.description),
+    brand:
+      stringOf(objectOf(container.brand).brand_name) ??
+      stringOf(base.brand_name) ??
+      specs['Marca'] ??
+      null,
+    category_path: categoryPath,
+    images,
+    specs,
+    variants,
+  };
+}
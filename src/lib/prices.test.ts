@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectCurrency,
+  parseItemPrice,
+  parsePriceRange,
+  parsePriceText,
+  pickPriceField,
+} from './prices.js';
+import { MARKET_PROFILES } from './markets.js';
+import { buildPriceHistoryRow } from './history.js';
+import { mapToSupabase } from './mapping.js';
+import type { TikTokItem } from './schema.js';
+
+describe('parsePriceText', () => {
+  it('should parse prices in each market format', () => {
+    expect(parsePriceText('R$ 1.234,56', MARKET_PROFILES.BR)).toMatchObject({
+      amount: 1234.56,
+      currency: 'BRL',
+    });
+    expect(parsePriceText('$1,234.56', MARKET_PROFILES.US)).toMatchObject({
+      amount: 1234.56,
+      currency: 'USD',
+    });
+    expect(parsePriceText('586.671.556₫', MARKET_PROFILES.VN)).toMatchObject({
+      amount: 586671556,
+      currency: 'VND',
+    });
+    expect(parsePriceText('1 234,56 €').amount).toBe(1234.56);
+  });
+
+  it('should read ambiguous separators with the market format', () => {
+    expect(parsePriceText('1.234', MARKET_PROFILES.BR).amount).toBe(1234);
+    expect(parsePriceText('1.234', MARKET_PROFILES.US).amount).toBe(1.234);
+    expect(parsePriceText('1.234', MARKET_PROFILES.BR).confidence).toBeLessThan(
+      parsePriceText('R$ 1.234,56', MARKET_PROFILES.BR).confidence
+    );
+  });
+
+  it('should return a null amount instead of 0 when nothing parses', () => {
+    expect(parsePriceText('Consulte')).toEqual({ amount: null, currency: null, confidence: 0 });
+    expect(parsePriceText(undefined).amount).toBe(null);
+    expect(parsePriceText('R$ 0,00', MARKET_PROFILES.BR).amount).toBe(0);
+  });
+});
+
+describe('detectCurrency', () => {
+  it('should detect ISO codes and symbols', () => {
+    expect(detectCurrency('BRL 10,00')).toBe('BRL');
+    expect(detectCurrency('RM 12.90')).toBe('MYR');
+    expect(detectCurrency('S$ 5.00')).toBe('SGD');
+    expect(detectCurrency('12,90')).toBe(null);
+  });
+
+  it('should resolve a bare dollar sign against the market', () => {
+    expect(detectCurrency('$ 249.00', MARKET_PROFILES.MX)).toBe('MXN');
+    expect(detectCurrency('$ 249.00', MARKET_PROFILES.BR)).toBe('USD');
+    expect(detectCurrency('R$ 249,00', MARKET_PROFILES.MX)).toBe('BRL');
+  });
+});
+
+describe('parsePriceRange', () => {
+  it('should split a range into min and max', () => {
+    const range = parsePriceRange('R$ 10,00 - R$ 25,90', MARKET_PROFILES.BR);
+    expect(range?.min).toMatchObject({ amount: 10, currency: 'BRL' });
+    expect(range?.max).toMatchObject({ amount: 25.9, currency: 'BRL' });
+  });
+
+  it('should carry the currency over to a bare upper bound', () => {
+    const range = parsePriceRange('R$ 10,00 até 25,90', MARKET_PROFILES.BR);
+    expect(range?.max).toMatchObject({ amount: 25.9, currency: 'BRL' });
+  });
+
+  it('should give the same min and max for a single price', () => {
+    const range = parsePriceRange('R$ 49,90', MARKET_PROFILES.BR);
+    expect(range?.min.amount).toBe(49.9);
+    expect(range?.max.amount).toBe(49.9);
+  });
+
+  it('should return null when a bound does not parse', () => {
+    expect(parsePriceRange('Sob consulta', MARKET_PROFILES.BR)).toBe(null);
+    expect(parsePriceRange(undefined)).toBe(null);
+  });
+});
+
+describe('parseItemPrice', () => {
+  const item: TikTokItem = {
+    product_id: '1',
+    floor_price: '9999',
+    ceiling_price: '12999',
+    format_price: 'R$ 99,99',
+  };
+
+  it('should read integer API prices as minor units when format_price agrees', () => {
+    expect(parseItemPrice(item, 'floor_price', MARKET_PROFILES.BR)).toEqual({
+      amount: 99.99,
+      currency: 'BRL',
+      confidence: 0.95,
+    });
+    expect(parseItemPrice(item, 'ceiling_price', MARKET_PROFILES.BR).amount).toBe(129.99);
+  });
+
+  it('should keep integers that already match the formatted price', () => {
+    const whole = { ...item, floor_price: 100, format_price: 'R$ 100,00' };
+    expect(parseItemPrice(whole, 'floor_price', MARKET_PROFILES.BR).amount).toBe(100);
+  });
+
+  it('should keep integers with low confidence without a formatted price', () => {
+    const bare = { ...item, format_price: undefined };
+    expect(parseItemPrice(bare, 'floor_price', MARKET_PROFILES.BR)).toMatchObject({
+      amount: 9999,
+      confidence: 0.5,
+    });
+  });
+
+  it('should not divide in markets without minor units', () => {
+    const vietnamese = { ...item, floor_price: '150000', format_price: '150.000₫' };
+    expect(parseItemPrice(vietnamese, 'floor_price', MARKET_PROFILES.VN).amount).toBe(150000);
+  });
+
+  it('should pick the first available price field', () => {
+    expect(pickPriceField(item)).toBe('floor_price');
+    expect(pickPriceField({ product_id: '1', format_price: 'R$ 1,00' })).toBe('format_price');
+    expect(pickPriceField({ product_id: '1' })).toBe(null);
+  });
+});
+
+describe('price ranges in history', () => {
+  it('should take the ceiling price from a formatted range', () => {
+    const ranged: TikTokItem = {
+      product_id: '1',
+      title: 'Kit',
+      format_price: 'R$ 10,00 - R$ 25,90',
+    };
+    const mapped = mapToSupabase(ranged);
+
+    expect(mapped.price).toBe(10);
+    expect(buildPriceHistoryRow(ranged, mapped).ceiling_price).toBe(25.9);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Structured price parsing: amount, currency and confidence, price ranges and minor-unit
+ * integers cross-checked against the formatted price
+ */
+
+import { MARKET_PROFILES, MarketProfile } from './markets.js';
+import type { TikTokItem } from './schema.js';
+import { parseAmount } from './utils.js';
+
+export interface ParsedPrice {
+  /** Null when no amount could be read */
+  amount: number | null;
+  /** ISO code from the symbol or code in the text, null when none was found */
+  currency: string | null;
+  /** 0-1, how sure the amount reading is */
+  confidence: number;
+}
+
+export interface ParsedPriceRange {
+  min: ParsedPrice;
+  max: ParsedPrice;
+}
+
+export type PriceField = 'floor_price' | 'ceiling_price' | 'format_price';
+
+/**
+ * Symbols of every market, plus a few common ones, most specific first. A bare "$" is
+ * resolved against the market separately.
+ */
+const CURRENCY_SYMBOLS = (
+  [
+    ...Object.values(MARKET_PROFILES).flatMap(market =>
+      market.currencySymbols
+        .filter(symbol => symbol !== '$')
+        .map((symbol): [string, string] => [symbol, market.currency])
+    ),
+    ['US$', 'USD'],
+    ['€', 'EUR'],
+    ['¥', 'CNY'],
+  ] as Array<[string, string]>
+).sort((a, b) => b[0].length - a[0].length);
+
+const CURRENCY_CODES = new Set([
+  ...Object.values(MARKET_PROFILES).flatMap(market => market.currencyCodes),
+  'USD',
+  'EUR',
+  'CNY',
+]);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Currency named in a price string by ISO code or symbol. A bare "$" is the market's
+ * currency when the market writes prices with "$", else USD.
+ */
+export function detectCurrency(text: string, market?: MarketProfile): string | null {
+  for (const code of text.toUpperCase().match(/[A-Z]{3}/g) ?? []) {
+    if (CURRENCY_CODES.has(code)) return code;
+  }
+
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    // Letter symbols ("RM", "Rp") must not be part of a word
+    const pattern = /^[A-Za-z]+$/.test(symbol)
+      ? new RegExp(`(^|[^A-Za-z])${escapeRegExp(symbol)}(?![A-Za-z])`)
+      : new RegExp(escapeRegExp(symbol));
+    if (pattern.test(text)) return currency;
+  }
+
+  if (/(^|[^A-Za-z])\$/.test(text)) {
+    return market?.currencySymbols.includes('$') ? market.currency : 'USD';
+  }
+
+  return null;
+}
+
+/**
+ * Parse the first price in a value. Numbers are taken as they are.
+ */
+export function parsePriceText(
+  value: string | number | undefined,
+  market?: MarketProfile
+): ParsedPrice {
+  if (typeof value === 'number') {
+    return Number.isFinite(value)
+      ? { amount: value, currency: null, confidence: 1 }
+      : { amount: null, currency: null, confidence: 0 };
+  }
+  if (!value || typeof value !== 'string') {
+    return { amount: null, currency: null, confidence: 0 };
+  }
+
+  const { amount, confidence } = parseAmount(value, market);
+  return { amount, currency: detectCurrency(value, market), confidence };
+}
+
+/**
+ * Parse a price or a price range such as "R$ 10,00 - R$ 25,90" into min and max.
+ * A single price gives the same min and max.
+ */
+export function parsePriceRange(
+  value: string | number | undefined,
+  market?: MarketProfile
+): ParsedPriceRange | null {
+  if (typeof value !== 'string') {
+    const price = parsePriceText(value, market);
+    return price.amount === null ? null : { min: price, max: price };
+  }
+
+  const parts = value
+    .split(/\s*[-–—~]\s*|\s+(?:a|até|to)\s+/i)
+    .filter(part => /\d/.test(part))
+    .map(part => parsePriceText(part, market));
+  if (parts.length === 0 || parts.length > 2 || parts.some(part => part.amount === null)) {
+    return null;
+  }
+
+  // "R$ 10,00 - 25,90": the second bound inherits the currency of the first
+  const currency = parts[0].currency ?? parts[parts.length - 1].currency;
+  const [first, last] = [parts[0], parts[parts.length - 1]].map(part => ({ ...part, currency }));
+  return (first.amount as number) <= (last.amount as number)
+    ? { min: first, max: last }
+    : { min: last, max: first };
+}
+
+/**
+ * First price field the item has, in the order floor, ceiling, formatted
+ */
+export function pickPriceField(item: TikTokItem): PriceField | null {
+  if (item.floor_price) return 'floor_price';
+  if (item.ceiling_price) return 'ceiling_price';
+  if (item.format_price) return 'format_price';
+  return null;
+}
+
+/**
+ * Parse a price field of an item. Integer `floor_price`/`ceiling_price` values may be minor
+ * units ("9999" for R$ 99,99): they are compared with `format_price`, and divided when that
+ * reading is closer to the formatted price. Without `format_price` integers are kept as they are,
+ * with lower confidence.
+ */
+export function parseItemPrice(
+  item: TikTokItem,
+  field: PriceField,
+  market: MarketProfile
+): ParsedPrice {
+  const value = item[field];
+  const parsed = parsePriceText(value, market);
+  const currency =
+    parsed.currency ??
+    (item.format_price ? detectCurrency(item.format_price, market) : null) ??
+    (item.currency ? item.currency.trim().toUpperCase() : null);
+  const result: ParsedPrice = { ...parsed, currency };
+
+  const isInteger =
+    typeof value === 'number' ? Number.isInteger(value) : /^\s*\d+\s*$/.test(value ?? '');
+  if (field === 'format_price' || !isInteger || !parsed.amount || market.minorUnits === 0) {
+    return result;
+  }
+
+  const range = item.format_price ? parsePriceRange(item.format_price, market) : null;
+  if (!range) {
+    return { ...result, confidence: Math.min(result.confidence, 0.5) };
+  }
+
+  // Distance on a log scale, so 129.99 is "closer" to a 99.99 format price than 12999
+  const anchors = [range.min.amount, range.max.amount].filter(
+    (anchor): anchor is number => !!anchor
+  );
+  const distance = (amount: number) =>
+    Math.min(...anchors.map(anchor => Math.abs(Math.log(amount / anchor))));
+  const exact = (amount: number) => anchors.some(anchor => Math.abs(amount - anchor) < 0.005);
+
+  const minor = parsed.amount / 10 ** market.minorUnits;
+  const amount = distance(minor) < distance(parsed.amount) ? minor : parsed.amount;
+  return { amount, currency, confidence: exact(amount) ? 0.95 : 0.7 };
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildProfileOutput,
+  entityDatasetName,
+  getMappingProfile,
+  MAPPING_PROFILES,
+} from './profiles.js';
+import { mapToSupabase } from './mapping.js';
+import type { TikTokItem } from './schema.js';
+
+const cdn = (hash: string, size = 800) =>
+  `https://p16-oec-va.ibyteimg.com/tos-maliva-i-o3syd03w52-us/${hash}~tplv-o3syd03w52-resize-jpeg:${size}:${size}.jpeg`;
+
+const items: TikTokItem[] = [
+  {
+    product_id_str: '1',
+    title: 'Secador Taiff',
+    format_price: 'R$ 149,90',
+    cover: cdn('a1b2c3d4e5f6a7b8c9d0'),
+    img: [cdn('a1b2c3d4e5f6a7b8c9d0', 200), cdn('f0e1d2c3b4a5968778695a4b')],
+    sold_count: 100,
+    seller_product_info: { seller_id_str: 's1', seller_name: 'Loja Beleza' },
+  },
+  {
+    product_id_str: '2',
+    title: 'Escova Taiff',
+    format_price: 'R$ 89,90',
+    sold_count: 40,
+    seller_product_info: { seller_id_str: 's1', seller_name: 'Loja Beleza' },
+  },
+  { product_id_str: '3', title: 'Fone JBL', format_price: 'R$ 199,90' },
+];
+const products = items.map(item => mapToSupabase(item));
+
+describe('getMappingProfile', () => {
+  it('should return profiles by name', () => {
+    expect(getMappingProfile('normalized')).toBe(MAPPING_PROFILES.normalized);
+  });
+
+  it('should fail fast on unknown profiles', () => {
+    expect(() => getMappingProfile('v2')).toThrow('Input "mappingProfile" must be one of flat');
+    expect(() => getMappingProfile('toString')).toThrow('mappingProfile');
+  });
+});
+
+describe('flat profile', () => {
+  it('should emit the mapped product as is', () => {
+    const output = buildProfileOutput(MAPPING_PROFILES.flat, items, products);
+    expect(output.products).toEqual(products);
+  });
+});
+
+describe('normalized profile', () => {
+  const output = buildProfileOutput(MAPPING_PROFILES.normalized, items, products);
+
+  it('should emit one seller per seller_id across products', () => {
+    expect(output.sellers).toEqual([
+      { seller_id: 's1', seller_name: 'Loja Beleza', product_count: 2, total_sold: 140 },
+    ]);
+  });
+
+  it('should link products to their seller without duplicated seller fields', () => {
+    expect(output.products).toHaveLength(3);
+    expect(output.products[0]).toMatchObject({ platform_id: '1', seller_id: 's1', price: 149.9 });
+    expect(output.products[2].seller_id).toBe(null);
+    for (const field of ['shop_name', 'seller_name', 'image_url', 'images']) {
+      expect(output.products[0]).not.toHaveProperty(field);
+    }
+  });
+
+  it('should keep every image once, primary first', () => {
+    expect(output.product_images).toEqual([
+      { platform_id: '1', position: 0, url: cdn('a1b2c3d4e5f6a7b8c9d0'), is_primary: true },
+      {
+        platform_id: '1',
+        position: 1,
+        url: cdn('f0e1d2c3b4a5968778695a4b'),
+        is_primary: false,
+      },
+    ]);
+  });
+});
+
+describe('entityDatasetName', () => {
+  it('should build a valid dataset name', () => {
+    expect(entityDatasetName('tiktok-shop', 'product_images')).toBe('tiktok-shop-product-images');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Mapping profiles: named output schemas built from the mapped products. `flat` is the
+ * SupabaseProduct row as is; `normalized` splits it into sellers, products and product_images
+ * linked by foreign keys. A team on another schema adds a profile here instead of changing
+ * mapping.ts.
+ */
+
+import { imageKey } from './clustering.js';
+import type { SupabaseProduct } from './mapping.js';
+import type { TikTokItem } from './schema.js';
+
+/**
+ * One output record of an entity, as written to its dataset
+ */
+export type EntityRow = Record<string, unknown>;
+
+export interface EntitySpec {
+  /** Record type, also the suffix of its dataset name */
+  name: string;
+  /** Fields that identify a row; rows with the same key are merged */
+  key: string[];
+  /** Combine a row with an earlier one of the same key, the new row wins by default */
+  merge?: (existing: EntityRow, row: EntityRow) => EntityRow;
+}
+
+export interface MappingProfile {
+  name: string;
+  description: string;
+  /** Record types in the order they should be loaded (referenced tables first) */
+  entities: EntitySpec[];
+  /** Rows of each entity for one product */
+  map(product: SupabaseProduct, item: TikTokItem): Record<string, EntityRow[]>;
+}
+
+/**
+ * Rows by entity name
+ */
+export type ProfileOutput = Record<string, EntityRow[]>;
+
+/**
+ * Product fields moved out of the normalized products row: seller details go to sellers,
+ * images to product_images
+ */
+const NORMALIZED_OUT = new Set(['shop_name', 'seller_name', 'image_url', 'images']);
+
+/**
+ * Every image of a product, primary image first, without repeats of the same file in
+ * another size
+ */
+function productImages(product: SupabaseProduct, item: TikTokItem): string[] {
+  const urls = [product.image_url, item.cover, ...product.images, ...(item.img ?? [])];
+  const seen = new Set<string>();
+  const images: string[] = [];
+  for (const url of urls) {
+    const trimmed = url?.trim();
+    if (!trimmed) continue;
+    const key = imageKey(trimmed) ?? trimmed;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    images.push(trimmed);
+  }
+  return images;
+}
+
+const mergeSellers = (existing: EntityRow, row: EntityRow): EntityRow => ({
+  seller_id: existing.seller_id,
+  seller_name: existing.seller_name ?? row.seller_name,
+  product_count: Number(existing.product_count) + Number(row.product_count),
+  total_sold:
+    existing.total_sold === null && row.total_sold === null
+      ? null
+      : Number(existing.total_sold ?? 0) + Number(row.total_sold ?? 0),
+});
+
+export const MAPPING_PROFILES: Record<string, MappingProfile> = {
+  flat: {
+    name: 'flat',
+    description: 'One products row per listing, the schema of mapToSupabase',
+    entities: [{ name: 'products', key: ['platform_id'] }],
+    map: product => ({ products: [{ ...product }] }),
+  },
+  normalized: {
+    name: 'normalized',
+    description: 'sellers, products (seller_id foreign key) and product_images (platform_id)',
+    entities: [
+      { name: 'sellers', key: ['seller_id'], merge: mergeSellers },
+      { name: 'products', key: ['platform_id'] },
+      { name: 'product_images', key: ['platform_id', 'position'] },
+    ],
+    map: (product, item) => {
+      const sellers: EntityRow[] = product.seller_id
+        ? [
+            {
+              seller_id: product.seller_id,
+              seller_name: product.seller_name ?? product.shop_name,
+              product_count: 1,
+              total_sold: product.sold_count_total,
+            },
+          ]
+        : [];
+      const row = Object.fromEntries(
+        Object.entries(product).filter(([field]) => !NORMALIZED_OUT.has(field))
+      );
+      const images = productImages(product, item).map((url, position) => ({
+        platform_id: product.platform_id,
+        position,
+        url,
+        is_primary: position === 0,
+      }));
+      return { sellers, products: [row], product_images: images };
+    },
+  },
+};
+
+/**
+ * Profile selected by the `mappingProfile` input. Throws on unknown names.
+ */
+export function getMappingProfile(name: unknown): MappingProfile {
+  const profile =
+    typeof name === 'string' && Object.prototype.hasOwnProperty.call(MAPPING_PROFILES, name)
+      ? MAPPING_PROFILES[name]
+      : undefined;
+  if (!profile) {
+    const names = Object.keys(MAPPING_PROFILES).join(', ');
+    throw new Error(`Input "mappingProfile" must be one of ${names}, got ${JSON.stringify(name)}`);
+  }
+  return profile;
+}
+
+/**
+ * Apply a profile to a batch of products (in the same order as their items). Rows of an
+ * entity that share a key, like the seller of several products, are merged into one.
+ */
+export function buildProfileOutput(
+  profile: MappingProfile,
+  items: TikTokItem[],
+  products: SupabaseProduct[]
+): ProfileOutput {
+  const rowsByEntity = new Map(
+    profile.entities.map(entity => [entity.name, new Map<string, EntityRow>()])
+  );
+
+  products.forEach((product, i) => {
+    const mapped = profile.map(product, items[i] ?? {});
+    for (const entity of profile.entities) {
+      const rows = rowsByEntity.get(entity.name) as Map<string, EntityRow>;
+      for (const row of mapped[entity.name] ?? []) {
+        const key = JSON.stringify(entity.key.map(field => row[field] ?? null));
+        const existing = rows.get(key);
+        rows.set(key, existing && entity.merge ? entity.merge(existing, row) : row);
+      }
+    }
+  });
+
+  return Object.fromEntries(
+    profile.entities.map(entity => [
+      entity.name,
+      [...(rowsByEntity.get(entity.name)?.values() ?? [])],
+    ])
+  );
+}
+
+/**
+ * Dataset of an entity: `<prefix>-<entity>`, with underscores as hyphens since dataset names
+ * allow only letters, digits and hyphens
+ */
+export function entityDatasetName(prefix: string, entity: string): string {
+  return `${prefix}-${entity.replace(/_/g, '-')}`;
+}
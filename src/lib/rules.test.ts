@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRule, resolveField, Rule, validateRules } from './rules.js';
+import { filterBrazil } from './filters.js';
+
+const item = {
+  product_id_str: '1001',
+  title: 'Capinha iPhone 15 Silicone',
+  floor_price: '19.90',
+  format_price: 'R$ 19,90',
+  product_rating: 4.6,
+  review_count: 120,
+  img: ['https://example.com/a.jpg', 'https://example.com/b.jpg'],
+  seller_product_info: { seller_id_str: 'seller-1', seller_name: 'Loja Capas' },
+};
+
+const mapped = { platform_id: '1001', rating: 4.6, reviews_count: 120, price: 19.9, sold_count: 0 };
+
+const context = { raw: item, mapped: () => mapped };
+
+const matches = (rule: Rule) => evaluateRule(rule, context);
+
+describe('resolveField', () => {
+  it('should read raw, mapped and unprefixed dot paths', () => {
+    expect(resolveField(context, 'raw.seller_product_info.seller_id_str')).toBe('seller-1');
+    expect(resolveField(context, 'mapped.price')).toBe(19.9);
+    expect(resolveField(context, 'title')).toBe(item.title);
+    expect(resolveField(context, 'reviews_count')).toBe(120);
+    expect(resolveField(context, 'raw.missing.deep')).toBe(undefined);
+  });
+
+  it('should only map the item when a mapped field is read', () => {
+    let calls = 0;
+    const lazy = { raw: item, mapped: () => (calls++, mapped) };
+    resolveField(lazy, 'title');
+    expect(calls).toBe(0);
+    resolveField(lazy, 'mapped.rating');
+    expect(calls).toBe(1);
+  });
+});
+
+describe('evaluateRule', () => {
+  it('should compare equals case-insensitively and numbers loosely', () => {
+    expect(
+      matches({ field: 'seller_product_info.seller_name', op: 'equals', value: 'loja capas' })
+    ).toBe(true);
+    expect(matches({ field: 'floor_price', op: 'equals', value: 19.9 })).toBe(true);
+    expect(matches({ field: 'product_id_str', op: 'equals', value: '1002' })).toBe(false);
+  });
+
+  it('should match in against allow/deny lists', () => {
+    expect(
+      matches({ field: 'seller_product_info.seller_id_str', op: 'in', values: ['seller-1', 'x'] })
+    ).toBe(true);
+    expect(matches({ field: 'seller_product_info.seller_id_str', op: 'in', values: [] })).toBe(
+      false
+    );
+  });
+
+  it('should test regex with case-insensitive default flags', () => {
+    expect(matches({ field: 'title', op: 'regex', pattern: 'capinha|pel[ií]cula' })).toBe(true);
+    expect(matches({ field: 'title', op: 'regex', pattern: 'capinha', flags: '' })).toBe(false);
+    expect(matches({ field: 'raw.missing', op: 'regex', pattern: '.*' })).toBe(false);
+  });
+
+  it('should check inclusive numeric ranges', () => {
+    expect(matches({ field: 'mapped.rating', op: 'range', min: 4.6 })).toBe(true);
+    expect(matches({ field: 'mapped.rating', op: 'range', min: 4, max: 4.5 })).toBe(false);
+    expect(matches({ field: 'floor_price', op: 'range', max: 20 })).toBe(true);
+    expect(matches({ field: 'title', op: 'range', min: 0 })).toBe(false);
+  });
+
+  it('should check existence, treating empty strings as missing', () => {
+    expect(matches({ field: 'seller_product_info', op: 'exists' })).toBe(true);
+    expect(matches({ field: 'raw.cover', op: 'exists' })).toBe(false);
+    expect(matches({ field: 'raw.cover', op: 'exists', value: false })).toBe(true);
+    const empty = { raw: { cover: '  ' }, mapped: () => ({}) };
+    expect(evaluateRule({ field: 'cover', op: 'exists' }, empty)).toBe(false);
+  });
+
+  it('should match array fields when any element matches', () => {
+    expect(matches({ field: 'img', op: 'regex', pattern: 'b\\.jpg$' })).toBe(true);
+    expect(matches({ field: 'img', op: 'equals', value: 'c.jpg' })).toBe(false);
+  });
+
+  it('should combine rules with all, any and not', () => {
+    const highRated: Rule = { field: 'mapped.rating', op: 'range', min: 4 };
+    const phoneCase: Rule = { field: 'title', op: 'regex', pattern: 'capinha' };
+    const deniedSeller: Rule = {
+      field: 'seller_product_info.seller_id_str',
+      op: 'in',
+      values: ['x'],
+    };
+
+    expect(matches({ all: [highRated, phoneCase] })).toBe(true);
+    expect(matches({ all: [highRated, deniedSeller] })).toBe(false);
+    expect(matches({ any: [deniedSeller, phoneCase] })).toBe(true);
+    expect(matches({ not: { any: [deniedSeller] } })).toBe(true);
+    expect(matches({ all: [] })).toBe(true);
+    expect(matches({ any: [] })).toBe(false);
+  });
+});
+
+describe('validateRules', () => {
+  it('should accept missing rules and valid rule sets', () => {
+    expect(validateRules(undefined)).toEqual({});
+    const rules = { exclude: { any: [{ field: 'title', op: 'regex', pattern: 'capinha' }] } };
+    expect(validateRules(rules)).toBe(rules);
+  });
+
+  it('should fail fast on malformed rules', () => {
+    expect(() => validateRules([])).toThrow('must be an object');
+    expect(() => validateRules({ keep: {} })).toThrow('unknown keys: keep');
+    expect(() => validateRules({ include: { field: 'title', op: 'contains' } })).toThrow(
+      'Rule "include" has unknown op "contains"'
+    );
+    expect(() => validateRules({ include: { any: {} } })).toThrow('"include.any" must be an array');
+    expect(() =>
+      validateRules({ exclude: { all: [{ field: 'title', op: 'regex', pattern: '(' }] } })
+    ).toThrow('Rule "exclude.all[0]" has an invalid regex');
+    expect(() => validateRules({ include: { field: 'rating', op: 'range' } })).toThrow(
+      'needs numeric "min" and/or "max"'
+    );
+    expect(() => validateRules({ include: { field: 'seller', op: 'in' } })).toThrow(
+      'needs a "values" array'
+    );
+  });
+
+  it('should reject fields computed across the batch after filtering', () => {
+    for (const field of ['mapped.trending_score', 'trending_score', 'mapped.cluster_id']) {
+      expect(() => validateRules({ include: { field, op: 'range', min: 0.5 } })).toThrow(
+        'computed across the batch'
+      );
+    }
+    expect(validateRules({ include: { field: 'raw.trending_score', op: 'exists' } })).toBeTruthy();
+  });
+});
+
+describe('filterBrazil rules', () => {
+  const items = [
+    item,
+    {
+      ...item,
+      product_id_str: '1002',
+      title: 'Shampoo Anticaspa 400ml',
+      product_rating: 3.9,
+      review_count: 8,
+    },
+    {
+      ...item,
+      product_id_str: '1003',
+      title: 'Condicionador Hidratação 300ml',
+      product_rating: 4.8,
+      review_count: 300,
+    },
+  ];
+
+  it('should keep only items passing the rules', () => {
+    const filtered = filterBrazil(items, {
+      requireBrazilSignals: true,
+      rules: {
+        include: { field: 'mapped.rating', op: 'range', min: 4 },
+        exclude: { field: 'title', op: 'regex', pattern: 'capinha' },
+      },
+    });
+
+    expect(filtered.map(kept => kept.product_id_str)).toEqual(['1003']);
+  });
+
+  it('should throw on invalid rules', () => {
+    expect(() =>
+      filterBrazil(items, { rules: { include: { field: 'title', op: 'like' } } as any })
+    ).toThrow('unknown op "like"');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Declarative include/exclude rules evaluated on raw or mapped product fields
+ */
+
+export type RuleOperator = 'equals' | 'in' | 'regex' | 'range' | 'exists';
+
+export const RULE_OPERATORS: RuleOperator[] = ['equals', 'in', 'regex', 'range', 'exists'];
+
+/**
+ * Test on a single field. `field` is a dot path on the raw item (`raw.title`), on the mapped
+ * product (`mapped.rating`), or unprefixed to try the raw item first, then the mapped one.
+ */
+export interface FieldCondition {
+  field: string;
+  op: RuleOperator;
+  /** `equals`: expected value; `exists`: false to require a missing field */
+  value?: string | number | boolean | null;
+  /** `in`: allowed values */
+  values?: Array<string | number | boolean>;
+  /** `regex`: pattern tested against the field as a string */
+  pattern?: string;
+  /** `regex`: flags, defaults to case-insensitive */
+  flags?: string;
+  /** `range`: inclusive bounds */
+  min?: number;
+  max?: number;
+}
+
+export type Rule = FieldCondition | { all: Rule[] } | { any: Rule[] } | { not: Rule };
+
+/**
+ * Items must match `include` (when set) and must not match `exclude`
+ */
+export interface RuleSet {
+  include?: Rule;
+  exclude?: Rule;
+}
+
+/**
+ * Values a rule can be evaluated against
+ */
+export interface RuleContext {
+  raw: unknown;
+  /** Mapped product, computed on first use */
+  mapped: () => unknown;
+}
+
+/**
+ * Mapped fields computed across the whole batch after filtering, which rules cannot test
+ */
+const BATCH_FIELDS = ['trending_score', 'cluster_id'];
+
+const getPath = (obj: unknown, path: string[]): unknown =>
+  path.reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    obj
+  );
+
+/**
+ * Resolve a field path in the rule context
+ */
+export function resolveField(context: RuleContext, field: string): unknown {
+  const [scope, ...rest] = field.split('.');
+  if (scope === 'raw') return getPath(context.raw, rest);
+  if (scope === 'mapped') return getPath(context.mapped(), rest);
+
+  const path = field.split('.');
+  const raw = getPath(context.raw, path);
+  return raw !== undefined ? raw : getPath(context.mapped(), path);
+}
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/** Strings compare case-insensitively, numeric strings equal their number */
+const looseEquals = (actual: unknown, expected: unknown): boolean => {
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return actual.trim().toLowerCase() === expected.trim().toLowerCase();
+  }
+  const a = toNumber(actual);
+  const b = toNumber(expected);
+  if (a !== null && b !== null) return a === b;
+  return actual === expected;
+};
+
+function matchesCondition(condition: FieldCondition, value: unknown): boolean {
+  // Conditions on array fields match when any element matches
+  if (Array.isArray(value) && condition.op !== 'exists') {
+    return value.some(element => matchesCondition(condition, element));
+  }
+
+  switch (condition.op) {
+    case 'exists':
+      return isMissing(value) === (condition.value === false);
+    case 'equals':
+      return looseEquals(value, condition.value);
+    case 'in':
+      return (condition.values ?? []).some(expected => looseEquals(value, expected));
+    case 'regex':
+      return (
+        !isMissing(value) &&
+        new RegExp(condition.pattern ?? '', condition.flags ?? 'i').test(String(value))
+      );
+    case 'range': {
+      const number = toNumber(value);
+      if (number === null) return false;
+      if (condition.min !== undefined && number < condition.min) return false;
+      if (condition.max !== undefined && number > condition.max) return false;
+      return true;
+    }
+  }
+}
+
+/**
+ * Evaluate a rule. `all` of an empty list matches, `any` of an empty list does not.
+ */
+export function evaluateRule(rule: Rule, context: RuleContext): boolean {
+  if ('all' in rule) return rule.all.every(child => evaluateRule(child, context));
+  if ('any' in rule) return rule.any.some(child => evaluateRule(child, context));
+  if ('not' in rule) return !evaluateRule(rule.not, context);
+  return matchesCondition(rule, resolveField(context, rule.field));
+}
+
+function validateRule(rule: unknown, path: string): void {
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    throw new Error(`Rule "${path}" must be an object`);
+  }
+  const r = rule as Record<string, unknown>;
+
+  for (const group of ['all', 'any'] as const) {
+    if (group in r) {
+      if (!Array.isArray(r[group])) {
+        throw new Error(`Rule "${path}.${group}" must be an array`);
+      }
+      (r[group] as unknown[]).forEach((child, i) => validateRule(child, `${path}.${group}[${i}]`));
+      return;
+    }
+  }
+  if ('not' in r) {
+    validateRule(r.not, `${path}.not`);
+    return;
+  }
+
+  if (typeof r.field !== 'string' || !r.field) {
+    throw new Error(`Rule "${path}" needs a "field" or an "all"/"any"/"not" group`);
+  }
+  const [scope, ...rest] = r.field.split('.');
+  const mappedField = scope === 'mapped' ? rest[0] : scope === 'raw' ? undefined : scope;
+  if (mappedField && BATCH_FIELDS.includes(mappedField)) {
+    throw new Error(
+      `Rule "${path}" cannot test "${r.field}": it is computed across the batch after filtering`
+    );
+  }
+  if (!RULE_OPERATORS.includes(r.op as RuleOperator)) {
+    throw new Error(
+      `Rule "${path}" has unknown op ${JSON.stringify(r.op)}. Supported: ${RULE_OPERATORS.join(', ')}`
+    );
+  }
+
+  if (r.op === 'in' && !Array.isArray(r.values)) {
+    throw new Error(`Rule "${path}" with op "in" needs a "values" array`);
+  }
+  if (r.op === 'regex') {
+    if (typeof r.pattern !== 'string') {
+      throw new Error(`Rule "${path}" with op "regex" needs a "pattern" string`);
+    }
+    try {
+      new RegExp(r.pattern, (r.flags as string | undefined) ?? 'i');
+    } catch (error) {
+      throw new Error(`Rule "${path}" has an invalid regex: ${(error as Error).message}`);
+    }
+  }
+  if (r.op === 'range') {
+    const bounds = [r.min, r.max].filter(bound => bound !== undefined);
+    if (bounds.length === 0 || bounds.some(bound => typeof bound !== 'number')) {
+      throw new Error(`Rule "${path}" with op "range" needs numeric "min" and/or "max"`);
+    }
+  }
+}
+
+/**
+ * Check the `rules` input and fail fast on unknown operators or malformed groups
+ */
+export function validateRules(rules: unknown): RuleSet {
+  if (rules === undefined || rules === null) {
+    return {};
+  }
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    throw new Error('Input "rules" must be an object with "include" and/or "exclude"');
+  }
+
+  const set = rules as Record<string, unknown>;
+  const unknownKeys = Object.keys(set).filter(key => key !== 'include' && key !== 'exclude');
+  if (unknownKeys.length > 0) {
+    throw new Error(`Input "rules" has unknown keys: ${unknownKeys.join(', ')}`);
+  }
+  if (set.include !== undefined) validateRule(set.include, 'include');
+  if (set.exclude !== undefined) validateRule(set.exclude, 'exclude');
+
+  return set as RuleSet;
+}
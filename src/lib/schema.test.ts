@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { buildValidationReport, validateItems, validateTikTokItem } from './schema.js';
+import { collectItems, createMockSource, createReplaySource } from './sources.js';
+import { getMarketProfile } from './markets.js';
+import { parsePriceText } from './prices.js';
+
+const validItem = {
+  product_id: '123',
+  product_id_str: '123',
+  title: 'Shampoo Pantene 400ml',
+  cover: 'https://example.com/cover.jpg',
+  img: ['https://example.com/cover.jpg'],
+  floor_price: '24.90',
+  format_price: 'R$ 24,90',
+  currency: 'BRL',
+  product_rating: '4.5',
+  review_count: 12,
+  sold_count: '150',
+};
+
+const config = {
+  region: 'BR',
+  limit: 10,
+  isTrendingProducts: false,
+  keyword: 'shampoo',
+  sortType: 'RELEVANCE',
+  maxConcurrency: 5,
+  debug: false,
+};
+
+describe('validateTikTokItem', () => {
+  it('should accept a complete item', () => {
+    expect(validateTikTokItem(validItem)).toEqual([]);
+  });
+
+  it('should accept a numeric product_id without product_id_str', () => {
+    const item = { ...validItem, product_id: 123, product_id_str: undefined };
+    expect(validateTikTokItem(item)).toEqual([]);
+  });
+
+  it('should require an id, a title and a positive price', () => {
+    const errors = validateTikTokItem({ cover: 'https://example.com/a.jpg', floor_price: '0' });
+    expect(errors.map(error => error.field)).toEqual(['product_id', 'title', 'price']);
+  });
+
+  it('should parse format_price in the number format of the market, like the mapping', () => {
+    const vietnam = getMarketProfile('VN');
+    const priced = (formatPrice: string) => ({
+      ...validItem,
+      floor_price: undefined,
+      format_price: formatPrice,
+    });
+
+    for (const formatPrice of ['586.671.556₫', '0,5₫', '0₫', 'liên hệ']) {
+      const hasPrice = (parsePriceText(formatPrice, vietnam).amount ?? 0) > 0;
+      const errors = validateTikTokItem(priced(formatPrice), vietnam);
+      expect(errors.some(error => error.field === 'price')).toBe(!hasPrice);
+    }
+    expect(validateTikTokItem(priced('0₫'), vietnam).map(error => error.field)).toEqual(['price']);
+  });
+
+  it('should report the offending value of each field', () => {
+    const errors = validateTikTokItem({ ...validItem, sold_count: '1.2k', product_rating: 7 });
+
+    expect(errors).toEqual([
+      { field: 'sold_count', message: expect.any(String), value: '1.2k' },
+      { field: 'product_rating', message: 'must be a number between 0 and 5', value: 7 },
+    ]);
+  });
+
+  it('should check field types', () => {
+    const errors = validateTikTokItem({
+      ...validItem,
+      img: 'https://example.com/a.jpg',
+      currency: 986,
+      trending_rank: 0,
+      view_in_shop_button: 'https://example.com/p/1',
+    });
+    expect(errors.map(error => error.field)).toEqual([
+      'currency',
+      'img',
+      'trending_rank',
+      'view_in_shop_button',
+    ]);
+  });
+
+  it('should reject non-objects', () => {
+    expect(validateTikTokItem(null)).toEqual([
+      { field: '(item)', message: 'must be an object', value: null },
+    ]);
+  });
+});
+
+describe('validateItems', () => {
+  it('should split items and keep the errors of invalid ones', () => {
+    const untitled = { ...validItem, title: '  ' };
+    const result = validateItems([validItem, untitled]);
+
+    expect(result.valid).toEqual([validItem]);
+    expect(result.invalid).toEqual([
+      { item: untitled, errors: [{ field: 'title', message: expect.any(String), value: '  ' }] },
+    ]);
+  });
+
+  it('should accept items produced by the replay and mock sources', async () => {
+    const replayed = await collectItems(
+      createReplaySource(join(__dirname, '__fixtures__', 'replay')).stream(config)
+    );
+    const mocked = await collectItems(createMockSource().stream(config));
+
+    expect(validateItems([...replayed, ...mocked]).invalid).toEqual([]);
+  });
+});
+
+describe('buildValidationReport', () => {
+  it('should count invalid items per field', () => {
+    const result = validateItems([
+      validItem,
+      { ...validItem, title: '' },
+      { ...validItem, title: '', floor_price: 'abc', format_price: undefined },
+    ]);
+
+    expect(buildValidationReport(result)).toEqual({
+      total: 3,
+      valid: 1,
+      invalid: 2,
+      errorsByField: { title: 2, floor_price: 1, price: 1 },
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Canonical raw TikTok Shop item and its runtime validation
+ */
+
+import type { ProductDetail } from './parsers.js';
+import type { MarketProfile } from './markets.js';
+import { parsePriceText } from './prices.js';
+
+/**
+ * Raw product as produced by every source, before filtering and mapping
+ */
+export interface TikTokItem {
+  product_id?: string | number;
+  product_id_str?: string;
+  title?: string;
+  cover?: string;
+  img?: string[];
+  floor_price?: string | number;
+  ceiling_price?: string | number;
+  format_price?: string;
+  currency?: string;
+  warehouse_region?: string;
+  seller_product_info?: {
+    seller_name?: string;
+    seller_id?: string | number;
+    seller_id_str?: string;
+  };
+  product_rating?: string | number;
+  review_count?: string | number;
+  sold_count?: string | number;
+  global_sold_count?: string | number;
+  /** Canonical product URL */
+  schema?: string;
+  view_in_shop_button?: {
+    schema?: string;
+  };
+  trending_rank?: number;
+  trending_category_id?: string;
+  source?: string;
+  detail?: ProductDetail;
+  /** Affiliate terms, from sources that provide them */
+  affiliate?: {
+    commission_rate?: string | number;
+    commission_amount?: string | number;
+    commission_currency?: string;
+    affiliate_available?: boolean | string | number;
+  };
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+/**
+ * An item that failed validation, as stored in the invalid-items dataset
+ */
+export interface InvalidItem {
+  item: unknown;
+  errors: FieldError[];
+}
+
+export interface ValidationResult {
+  valid: TikTokItem[];
+  invalid: InvalidItem[];
+}
+
+/**
+ * Number of invalid items per field, for the run summary
+ */
+export interface ValidationReport {
+  total: number;
+  valid: number;
+  invalid: number;
+  errorsByField: Record<string, number>;
+}
+
+/**
+ * A JSON object, as opposed to null, arrays and primitives
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isNumericLike = (value: unknown): boolean =>
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (typeof value === 'string' && /^\s*\d+(\.\d+)?\s*$/.test(value));
+
+/**
+ * Validate one raw item against the canonical schema, returning every field error. Prices are
+ * parsed in the number format of `market`, like the mapping stage parses them.
+ */
+export function validateTikTokItem(item: unknown, market?: MarketProfile): FieldError[] {
+  if (!isRecord(item)) {
+    return [{ field: '(item)', message: 'must be an object', value: item }];
+  }
+
+  const raw = item;
+  const errors: FieldError[] = [];
+  const fail = (field: string, message: string) =>
+    errors.push({ field, message, value: raw[field] });
+
+  // Identity
+  const hasId =
+    isNonEmptyString(raw.product_id_str) ||
+    isNonEmptyString(raw.product_id) ||
+    (typeof raw.product_id === 'number' && Number.isFinite(raw.product_id));
+  if (!hasId) {
+    fail('product_id', 'product_id or product_id_str is required');
+  }
+  if (raw.product_id_str !== undefined && typeof raw.product_id_str !== 'string') {
+    fail('product_id_str', 'must be a string');
+  }
+
+  if (!isNonEmptyString(raw.title)) {
+    fail('title', 'must be a non-empty string');
+  }
+
+  // Price: at least one positive price, and numeric price fields must be numeric
+  for (const field of ['floor_price', 'ceiling_price']) {
+    if (raw[field] !== undefined && !isNumericLike(raw[field])) {
+      fail(field, 'must be a number or numeric string');
+    }
+  }
+  if (raw.format_price !== undefined && typeof raw.format_price !== 'string') {
+    fail('format_price', 'must be a string');
+  }
+  const hasPrice = ['floor_price', 'ceiling_price', 'format_price'].some(
+    field => (parsePriceText(raw[field] as string | number | undefined, market).amount ?? 0) > 0
+  );
+  if (!hasPrice) {
+    fail('price', 'a positive floor_price, ceiling_price or format_price is required');
+  }
+
+  // Optional strings
+  for (const field of ['cover', 'currency', 'warehouse_region', 'schema', 'source']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      fail(field, 'must be a string');
+    }
+  }
+
+  if (
+    raw.img !== undefined &&
+    (!Array.isArray(raw.img) || raw.img.some(url => typeof url !== 'string'))
+  ) {
+    fail('img', 'must be an array of strings');
+  }
+
+  // Optional counts and rating
+  for (const field of ['review_count', 'sold_count', 'global_sold_count']) {
+    if (raw[field] !== undefined && !isNumericLike(raw[field])) {
+      fail(field, 'must be a non-negative number or numeric string');
+    }
+  }
+  if (raw.product_rating !== undefined) {
+    const rating = Number(raw.product_rating);
+    if (!isNumericLike(raw.product_rating) || rating > 5) {
+      fail('product_rating', 'must be a number between 0 and 5');
+    }
+  }
+  if (
+    raw.trending_rank !== undefined &&
+    (!Number.isInteger(raw.trending_rank) || (raw.trending_rank as number) < 1)
+  ) {
+    fail('trending_rank', 'must be a positive integer');
+  }
+
+  // Nested objects
+  const seller = raw.seller_product_info;
+  if (seller !== undefined && (typeof seller !== 'object' || seller === null)) {
+    fail('seller_product_info', 'must be an object');
+  }
+  const button = raw.view_in_shop_button;
+  if (button !== undefined && (typeof button !== 'object' || button === null)) {
+    fail('view_in_shop_button', 'must be an object');
+  }
+  const detail = raw.detail;
+  if (detail !== undefined && (typeof detail !== 'object' || detail === null)) {
+    fail('detail', 'must be an object');
+  }
+  const affiliate = raw.affiliate;
+  if (affiliate !== undefined && (typeof affiliate !== 'object' || affiliate === null)) {
+    fail('affiliate', 'must be an object');
+  }
+
+  return errors;
+}
+
+/**
+ * Split scraped items into schema-valid items and invalid items with their field errors
+ */
+export function validateItems(items: unknown[], market?: MarketProfile): ValidationResult {
+  const result: ValidationResult = { valid: [], invalid: [] };
+
+  for (const item of items) {
+    const errors = validateTikTokItem(item, market);
+    if (errors.length === 0) {
+      result.valid.push(item as TikTokItem);
+    } else {
+      result.invalid.push({ item, errors });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Summarize a validation result: counts and the number of items failing each field
+ */
+export function buildValidationReport(result: ValidationResult): ValidationReport {
+  const errorsByField: Record<string, number> = {};
+
+  for (const { errors } of result.invalid) {
+    for (const field of new Set(errors.map(error => error.field))) {
+      errorsByField[field] = (errorsByField[field] ?? 0) + 1;
+    }
+  }
+
+  return {
+    total: result.valid.length + result.invalid.length,
+    valid: result.valid.length,
+    invalid: result.invalid.length,
+    errorsByField,
+  };
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bayesianRating,
+  createNormalizer,
+  DEFAULT_SCORING_WEIGHTS,
+  resolveNormalization,
+  resolveWeights,
+  scoreProducts,
+} from './scoring.js';
+import { mapToSupabase } from './mapping.js';
+
+const product = (
+  id: string,
+  sold: number,
+  rating: number,
+  reviews: number,
+  orders24h?: number
+) => ({
+  ...mapToSupabase({
+    product_id_str: id,
+    title: `Produto ${id}`,
+    floor_price: '10.00',
+    sold_count: sold,
+    product_rating: rating,
+    review_count: reviews,
+  }),
+  orders_24h: orders24h ?? null,
+});
+
+describe('createNormalizer', () => {
+  it('should log-scale relative to the batch maximum', () => {
+    const normalize = createNormalizer([0, 9, 99999], 'log');
+    expect(normalize(99999)).toBe(1);
+    expect(normalize(0)).toBe(0);
+    expect(normalize(9)).toBeCloseTo(Math.log(10) / Math.log(100000));
+  });
+
+  it('should not saturate above a fixed threshold', () => {
+    const normalize = createNormalizer([1500, 5000, 20000], 'log');
+    expect(normalize(1500)).toBeLessThan(normalize(5000));
+    expect(normalize(5000)).toBeLessThan(normalize(20000));
+  });
+
+  it('should rank values by percentile with ties counted half', () => {
+    const normalize = createNormalizer([10, 20, 20, 40], 'percentile');
+    expect(normalize(10)).toBe(0);
+    expect(normalize(20)).toBe(0.5);
+    expect(normalize(40)).toBe(1);
+  });
+
+  it('should handle a batch of one', () => {
+    expect(createNormalizer([5], 'percentile')(5)).toBe(1);
+    expect(createNormalizer([0], 'log')(0)).toBe(0);
+  });
+});
+
+describe('bayesianRating', () => {
+  it('should pull ratings with few reviews towards the prior', () => {
+    expect(bayesianRating(5, 1, 4, 20)).toBeCloseTo(4.048, 3);
+    expect(bayesianRating(5, 1000, 4, 20)).toBeCloseTo(4.98, 2);
+    expect(bayesianRating(0, 0, 4, 0)).toBe(4);
+  });
+});
+
+describe('resolveWeights', () => {
+  it('should merge partial weights with the defaults', () => {
+    expect(resolveWeights({ velocity: 0.6 })).toEqual({
+      ...DEFAULT_SCORING_WEIGHTS,
+      velocity: 0.6,
+    });
+  });
+
+  it('should reject negative, non-numeric or all-zero weights', () => {
+    expect(() => resolveWeights({ sales: -1 })).toThrow('"sales" must be a non-negative number');
+    expect(() => resolveWeights({ rating: '0.2' as any })).toThrow();
+    expect(() => resolveWeights({ sales: 0, velocity: 0, rating: 0, reviews: 0 })).toThrow(
+      'At least one scoring weight'
+    );
+  });
+});
+
+describe('resolveNormalization', () => {
+  it('should default to log and accept known modes', () => {
+    expect(resolveNormalization(undefined)).toBe('log');
+    expect(resolveNormalization('percentile')).toBe('percentile');
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => resolveNormalization('linear')).toThrow(
+      'Input "scoreNormalization" must be one of log, percentile, got "linear"'
+    );
+  });
+});
+
+describe('scoreProducts', () => {
+  it('should rank a heavy seller above one with a single perfect review', () => {
+    const [seller, oneReview] = scoreProducts([
+      product('a', 20000, 4.6, 800),
+      product('b', 5, 5, 1),
+    ]);
+    expect(seller.score).toBeGreaterThan(oneReview.score);
+    expect(oneReview.components.rating.value).toBeLessThan(5);
+  });
+
+  it('should redistribute the velocity weight when there is no history', () => {
+    const [breakdown] = scoreProducts([product('a', 100, 4, 10)]);
+
+    expect(breakdown.components.velocity).toEqual({
+      value: null,
+      normalized: null,
+      weight: 0,
+      contribution: 0,
+    });
+    const weights = Object.values(breakdown.components).map(component => component.weight);
+    expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 3);
+  });
+
+  it('should use velocity when history is available', () => {
+    const [fast, slow] = scoreProducts(
+      [product('a', 1000, 4.5, 100, 300), product('b', 1000, 4.5, 100, 3)],
+      { weights: { velocity: 1, sales: 0, rating: 0, reviews: 0 } }
+    );
+    expect(fast.score).toBe(1);
+    expect(slow.score).toBeLessThan(0.5);
+  });
+
+  it('should explain the score with component contributions', () => {
+    const breakdowns = scoreProducts(
+      [product('a', 1520, 4.7, 89, 12), product('b', 300, 4.1, 10, 2)],
+      { normalization: 'percentile' }
+    );
+
+    for (const breakdown of breakdowns) {
+      const sum = Object.values(breakdown.components).reduce(
+        (total, component) => total + component.contribution,
+        0
+      );
+      expect(breakdown.normalization).toBe('percentile');
+      expect(sum).toBeCloseTo(breakdown.score, 3);
+    }
+    expect(breakdowns[0].components.sales).toMatchObject({ value: 1520, normalized: 1 });
+  });
+
+  it('should keep scores between 0 and 1', () => {
+    const scores = scoreProducts([
+      product('a', 0, 0, 0),
+      product('b', 50, 3, 2),
+      product('c', 100000, 5, 20000, 5000),
+    ]).map(breakdown => breakdown.score);
+    expect(Math.min(...scores)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...scores)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Batch-relative trending score with configurable weights and an explainable breakdown
+ */
+
+import type { SupabaseProduct } from './mapping.js';
+
+export type ScoreComponent = 'sales' | 'velocity' | 'rating' | 'reviews';
+
+export type ScoringWeights = Record<ScoreComponent, number>;
+
+export type Normalization = 'log' | 'percentile';
+
+export const NORMALIZATIONS: Normalization[] = ['log', 'percentile'];
+
+export interface ScoringOptions {
+  weights?: Partial<ScoringWeights>;
+  /** How sales, velocity and review counts are scaled across the batch */
+  normalization?: Normalization;
+  /** Rating assumed for products with few reviews; defaults to the batch average */
+  ratingPriorMean?: number;
+  /** Number of reviews the prior is worth in the Bayesian average */
+  ratingPriorWeight?: number;
+}
+
+export interface ComponentScore {
+  /** Raw input value (Bayesian rating for `rating`) */
+  value: number | null;
+  /** Value scaled to 0-1 */
+  normalized: number | null;
+  /** Effective weight after redistributing missing components */
+  weight: number;
+  contribution: number;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  normalization: Normalization;
+  components: Record<ScoreComponent, ComponentScore>;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  sales: 0.4,
+  velocity: 0.3,
+  rating: 0.2,
+  reviews: 0.1,
+};
+
+const COMPONENTS: ScoreComponent[] = ['sales', 'velocity', 'rating', 'reviews'];
+
+const round = (value: number, digits: number = 4): number =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Check weights and fail fast on negative or non-numeric values
+ */
+export function resolveWeights(weights: Partial<ScoringWeights> = {}): ScoringWeights {
+  const resolved = { ...DEFAULT_SCORING_WEIGHTS, ...weights };
+
+  for (const component of COMPONENTS) {
+    const weight = resolved[component];
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Scoring weight "${component}" must be a non-negative number`);
+    }
+  }
+  if (COMPONENTS.every(component => resolved[component] === 0)) {
+    throw new Error('At least one scoring weight must be greater than 0');
+  }
+
+  return resolved;
+}
+
+/**
+ * The `scoreNormalization` input, `log` when unset. Throws on unknown modes.
+ */
+export function resolveNormalization(normalization: unknown): Normalization {
+  if (normalization === undefined || normalization === null || normalization === '') {
+    return 'log';
+  }
+  if (!NORMALIZATIONS.includes(normalization as Normalization)) {
+    const modes = NORMALIZATIONS.join(', ');
+    throw new Error(
+      `Input "scoreNormalization" must be one of ${modes}, got ${JSON.stringify(normalization)}`
+    );
+  }
+  return normalization as Normalization;
+}
+
+/**
+ * Build a 0-1 scaler from the values of the batch. `log` divides log(1 + x) by the batch
+ * maximum; `percentile` uses the share of the batch below the value (ties count half).
+ */
+export function createNormalizer(
+  values: number[],
+  normalization: Normalization
+): (value: number) => number {
+  const clean = values.filter(value => Number.isFinite(value)).map(value => Math.max(0, value));
+
+  if (normalization === 'percentile') {
+    const sorted = [...clean].sort((a, b) => a - b);
+    return value => {
+      if (sorted.length <= 1) return value > 0 ? 1 : 0;
+      const below = sorted.filter(other => other < value).length;
+      const equal = sorted.filter(other => other === value).length;
+      return Math.min(1, Math.max(0, (below + (equal - 1) / 2) / (sorted.length - 1)));
+    };
+  }
+
+  const maxLog = Math.log1p(Math.max(0, ...clean));
+  return value => (maxLog > 0 ? Math.min(1, Math.log1p(Math.max(0, value)) / maxLog) : 0);
+}
+
+/**
+ * Review-weighted rating: (priorWeight * priorMean + reviews * rating) / (priorWeight + reviews)
+ */
+export function bayesianRating(
+  rating: number,
+  reviews: number,
+  priorMean: number,
+  priorWeight: number
+): number {
+  const count = Math.max(0, reviews);
+  if (count + priorWeight === 0) return priorMean;
+  return (priorWeight * priorMean + count * rating) / (priorWeight + count);
+}
+
+/**
+ * Score every product of a batch. Products without velocity history have the velocity
+ * weight redistributed over the other components.
+ */
+export function scoreProducts(
+  products: SupabaseProduct[],
+  options: ScoringOptions = {}
+): ScoreBreakdown[] {
+  const weights = resolveWeights(options.weights);
+  const normalization = options.normalization ?? 'log';
+  const priorWeight = options.ratingPriorWeight ?? 20;
+
+  const rated = products.filter(product => product.rating > 0);
+  const priorMean =
+    options.ratingPriorMean ??
+    (rated.length > 0 ? rated.reduce((sum, product) => sum + product.rating, 0) / rated.length : 0);
+
+  const salesOf = (product: SupabaseProduct) => product.sold_count_total ?? 0;
+  const normalizeSales = createNormalizer(products.map(salesOf), normalization);
+  const normalizeVelocity = createNormalizer(
+    products.flatMap(product => (product.orders_24h === null ? [] : [product.orders_24h])),
+    normalization
+  );
+  const normalizeReviews = createNormalizer(
+    products.map(product => product.reviews_count),
+    normalization
+  );
+
+  return products.map(product => {
+    const rating =
+      product.rating > 0
+        ? bayesianRating(product.rating, product.reviews_count, priorMean, priorWeight)
+        : priorMean;
+
+    const inputs: Record<ScoreComponent, { value: number | null; normalized: number | null }> = {
+      sales: { value: salesOf(product), normalized: normalizeSales(salesOf(product)) },
+      velocity:
+        product.orders_24h === null
+          ? { value: null, normalized: null }
+          : { value: product.orders_24h, normalized: normalizeVelocity(product.orders_24h) },
+      rating: { value: round(rating), normalized: Math.min(1, Math.max(0, rating / 5)) },
+      reviews: {
+        value: product.reviews_count,
+        normalized: normalizeReviews(product.reviews_count),
+      },
+    };
+
+    const available = COMPONENTS.filter(component => inputs[component].normalized !== null);
+    const totalWeight = available.reduce((sum, component) => sum + weights[component], 0);
+
+    const components = {} as Record<ScoreComponent, ComponentScore>;
+    let score = 0;
+    for (const component of COMPONENTS) {
+      const { value, normalized } = inputs[component];
+      const weight =
+        normalized === null || totalWeight === 0 ? 0 : weights[component] / totalWeight;
+      const contribution = weight * (normalized ?? 0);
+      score += contribution;
+      components[component] = {
+        value,
+        normalized: normalized === null ? null : round(normalized),
+        weight: round(weight),
+        contribution: round(contribution),
+      };
+    }
+
+    return { score: round(score), normalization, components };
+  });
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { backoffDelay, createSessionPool, detectBlock } from './sessions.js';
+
+// Local stub of TikTok that blocks the first `n` hits of each scenario
+let server: Server;
+let baseUrl: string;
+const hits: Record<string, number> = {};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const scenario = url.pathname.slice(1);
+    const failures = Number(url.searchParams.get('failures') ?? 0);
+    const hit = (hits[req.url || ''] = (hits[req.url || ''] ?? 0) + 1);
+    const ok = () => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ code: 0, data: { products: [] } }));
+    };
+
+    if (hit > failures) return ok();
+
+    switch (scenario) {
+      case 'forbidden':
+        res.writeHead(403);
+        return res.end('Forbidden');
+      case 'rate-limited':
+        res.writeHead(429);
+        return res.end('Too Many Requests');
+      case 'captcha':
+        res.writeHead(200, { 'content-type': 'text/html' });
+        return res.end('<html><div id="captcha-verify-image"></div></html>');
+      case 'empty':
+        res.writeHead(200, { 'content-type': 'application/json' });
+        return res.end('');
+      case 'server-error':
+        res.writeHead(502);
+        return res.end('Bad Gateway');
+      case 'not-found':
+        res.writeHead(404);
+        return res.end('Not Found');
+      default:
+        return ok();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const newPool = (options: { maxRetries?: number; poolSize?: number } = {}) => {
+  const sessionIds: string[] = [];
+  const pool = createSessionPool({
+    newProxyUrl: async sessionId => {
+      sessionIds.push(sessionId);
+      return undefined; // Direct connection to the local stub
+    },
+    baseDelayMs: 1,
+    maxDelayMs: 5,
+    ...options,
+  });
+  return { pool, sessionIds };
+};
+
+describe('createSessionPool', () => {
+  it('should return successful responses without retries', async () => {
+    const { pool } = newPool();
+    const response = await pool.request(`${baseUrl}/ok`);
+
+    expect(response.status).toBe(200);
+    expect(pool.stats()).toMatchObject({
+      requests: 1,
+      attempts: 1,
+      succeeded: 1,
+      retries: 0,
+      blocks: 0,
+    });
+  });
+
+  it.each([
+    ['forbidden', 'http_403'],
+    ['rate-limited', 'http_429'],
+    ['captcha', 'captcha'],
+    ['empty', 'empty_json'],
+  ] as const)('should retire the session and retry after %s', async (scenario, reason) => {
+    const { pool } = newPool({ poolSize: 1 });
+    const response = await pool.request(`${baseUrl}/${scenario}?failures=2&t=${reason}`);
+
+    expect(response.status).toBe(200);
+    const stats = pool.stats();
+    expect(stats.blocks).toBe(2);
+    expect(stats.blocksByReason[reason]).toBe(2);
+    expect(stats.retries).toBe(2);
+    expect(stats.sessionsRetired).toBe(2);
+    expect(stats.sessionsCreated).toBe(3);
+  });
+
+  it('should retry 5xx responses without retiring the session', async () => {
+    const { pool } = newPool({ poolSize: 1 });
+    const response = await pool.request(`${baseUrl}/server-error?failures=1`);
+
+    expect(response.status).toBe(200);
+    expect(pool.stats()).toMatchObject({ retries: 1, blocks: 0, sessionsRetired: 0 });
+  });
+
+  it('should give up after maxRetries and count the failure', async () => {
+    const { pool } = newPool({ maxRetries: 2 });
+
+    await expect(pool.request(`${baseUrl}/forbidden?failures=10`)).rejects.toThrow(
+      'Request failed after 3 attempts (blocked (http_403))'
+    );
+    expect(pool.stats()).toMatchObject({
+      requests: 1,
+      attempts: 3,
+      retries: 2,
+      failed: 1,
+      blocks: 3,
+    });
+  });
+
+  it('should return non-block 4xx responses to the caller', async () => {
+    const { pool } = newPool();
+    const response = await pool.request(`${baseUrl}/not-found?failures=1`);
+
+    expect(response.status).toBe(404);
+    expect(pool.stats().retries).toBe(0);
+  });
+
+  it('should retire sessions on network errors', async () => {
+    const { pool } = newPool({ maxRetries: 1 });
+
+    await expect(pool.request('http://127.0.0.1:1/unreachable')).rejects.toThrow(
+      'Request failed after 2 attempts'
+    );
+    expect(pool.stats().sessionsRetired).toBe(2);
+  });
+
+  it('should give each session its own proxy URL and rotate up to poolSize', async () => {
+    const { pool, sessionIds } = newPool({ poolSize: 3 });
+    await Promise.all(Array.from({ length: 9 }, () => pool.request(`${baseUrl}/ok`)));
+
+    expect(sessionIds).toEqual(['session_1', 'session_2', 'session_3']);
+    expect(pool.stats().sessionsCreated).toBe(3);
+  });
+});
+
+describe('detectBlock', () => {
+  const response = (status: number, body: string) => ({ status, headers: {}, body });
+
+  it('should not flag normal JSON or HTML pages', () => {
+    expect(detectBlock(response(200, '{"code":0,"data":{}}'))).toBe(null);
+    expect(detectBlock(response(200, '<html><script id="SIGI_STATE">{}</script></html>'))).toBe(
+      null
+    );
+    expect(detectBlock(response(404, ''))).toBe(null);
+  });
+
+  it('should flag empty JSON bodies', () => {
+    expect(detectBlock(response(200, '  '))).toBe('empty_json');
+    expect(detectBlock(response(200, '{}'))).toBe('empty_json');
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should grow exponentially up to the maximum', () => {
+    const noJitter = () => 1;
+    expect(backoffDelay(0, 100, 1000, noJitter)).toBe(100);
+    expect(backoffDelay(2, 100, 1000, noJitter)).toBe(400);
+    expect(backoffDelay(5, 100, 1000, noJitter)).toBe(1000);
+  });
+
+  it('should apply full jitter', () => {
+    expect(backoffDelay(3, 100, 10000, () => 0.5)).toBe(400);
+    expect(backoffDelay(3, 100, 10000, () => 0)).toBe(0);
+  });
+});
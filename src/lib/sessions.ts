@@ -0,0 +1,221 @@
+/**
+ * Proxy session pool with block detection, session retirement and retries with backoff
+ */
+
+import { httpRequest, HttpRequestOptions, HttpResponse } from './http.js';
+
+export type BlockReason = 'http_403' | 'http_429' | 'captcha' | 'empty_json';
+
+export interface Session {
+  id: string;
+  proxyUrl?: string;
+  usageCount: number;
+  blockCount: number;
+  retired: boolean;
+}
+
+export interface SessionPoolOptions {
+  /** Returns the proxy URL for a session, e.g. `proxyConfiguration.newUrl(sessionId)` */
+  newProxyUrl: (sessionId: string) => Promise<string | undefined>;
+  /** Number of sessions used in rotation */
+  poolSize?: number;
+  /** Blocks a session may receive before it is retired */
+  maxBlocksPerSession?: number;
+  /** Retries per request after the first attempt */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface SessionStats {
+  /** Requests made by callers, however many attempts each took */
+  requests: number;
+  /** Attempts sent, retries included; the base of the block rate */
+  attempts: number;
+  succeeded: number;
+  failed: number;
+  retries: number;
+  blocks: number;
+  blocksByReason: Record<BlockReason, number>;
+  sessionsCreated: number;
+  sessionsRetired: number;
+}
+
+export interface SessionPool {
+  request(url: string, options?: Omit<HttpRequestOptions, 'proxyUrl'>): Promise<HttpResponse>;
+  stats(): SessionStats;
+}
+
+/**
+ * Markers of TikTok's captcha / verification interstitials
+ */
+const CAPTCHA_MARKERS = ['captcha', 'verify-bar', 'secsdk', 'verify to continue', '/verify?'];
+
+/**
+ * Classify a response as a block, or null when it looks like a normal response
+ */
+export function detectBlock(response: HttpResponse): BlockReason | null {
+  if (response.status === 403) return 'http_403';
+  if (response.status === 429) return 'http_429';
+
+  if (response.status !== 200) return null;
+
+  const body = response.body.trim();
+  if (body === '' || body === '{}' || body === 'null') {
+    return 'empty_json';
+  }
+
+  // Captcha pages are HTML; check only the start of large bodies to stay cheap
+  if (body.startsWith('<')) {
+    const head = body.slice(0, 20000).toLowerCase();
+    if (CAPTCHA_MARKERS.some(marker => head.includes(marker))) {
+      return 'captcha';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)]
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Create a pool of proxy sessions. Each session has its own proxy URL; sessions
+ * that get blocked are retired and replaced. Blocked, 5xx and failed requests are
+ * retried on another session with exponential backoff.
+ */
+export function createSessionPool(options: SessionPoolOptions): SessionPool {
+  const {
+    newProxyUrl,
+    poolSize = 5,
+    maxBlocksPerSession = 1,
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    timeoutMs,
+  } = options;
+
+  const sessions: Session[] = [];
+  let sessionCounter = 0;
+  let rotation = 0;
+
+  const stats: SessionStats = {
+    requests: 0,
+    attempts: 0,
+    succeeded: 0,
+    failed: 0,
+    retries: 0,
+    blocks: 0,
+    blocksByReason: { http_403: 0, http_429: 0, captcha: 0, empty_json: 0 },
+    sessionsCreated: 0,
+    sessionsRetired: 0,
+  };
+
+  // Proxy URLs resolve asynchronously; requests await the URL of their session
+  const proxyUrls = new Map<string, Promise<string | undefined>>();
+
+  const createSession = (): Session => {
+    sessionCounter++;
+    const id = `session_${sessionCounter}`;
+    const session: Session = { id, usageCount: 0, blockCount: 0, retired: false };
+
+    sessions.push(session);
+    stats.sessionsCreated++;
+    proxyUrls.set(
+      id,
+      newProxyUrl(id).then(proxyUrl => {
+        session.proxyUrl = proxyUrl;
+        return proxyUrl;
+      })
+    );
+    return session;
+  };
+
+  // Round-robin over live sessions, topping the pool up to poolSize first
+  const pickSession = (): Session => {
+    const live = sessions.filter(session => !session.retired);
+    if (live.length < poolSize) {
+      return createSession();
+    }
+    rotation = (rotation + 1) % live.length;
+    return live[rotation];
+  };
+
+  const retire = (session: Session) => {
+    if (!session.retired) {
+      session.retired = true;
+      stats.sessionsRetired++;
+    }
+  };
+
+  const request: SessionPool['request'] = async (url, requestOptions = {}) => {
+    let lastError = 'unknown error';
+    stats.requests++;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        stats.retries++;
+        await new Promise(resolve =>
+          setTimeout(resolve, backoffDelay(attempt - 1, baseDelayMs, maxDelayMs))
+        );
+      }
+
+      const session = pickSession();
+      session.usageCount++;
+      stats.attempts++;
+
+      let response: HttpResponse;
+      try {
+        response = await httpRequest(url, {
+          timeoutMs,
+          ...requestOptions,
+          proxyUrl: await proxyUrls.get(session.id),
+        });
+      } catch (error) {
+        // Network/proxy errors usually mean the session's proxy is unusable
+        lastError = error instanceof Error ? error.message : String(error);
+        retire(session);
+        continue;
+      }
+
+      const block = detectBlock(response);
+      if (block) {
+        stats.blocks++;
+        stats.blocksByReason[block]++;
+        session.blockCount++;
+        if (session.blockCount >= maxBlocksPerSession) {
+          retire(session);
+        }
+        lastError = `blocked (${block})`;
+        continue;
+      }
+
+      if (response.status >= 500) {
+        lastError = `HTTP ${response.status}`;
+        continue;
+      }
+
+      stats.succeeded++;
+      return response;
+    }
+
+    stats.failed++;
+    throw new Error(`Request failed after ${maxRetries + 1} attempts (${lastError}): ${url}`);
+  };
+
+  return {
+    request,
+    stats: () => ({ ...stats, blocksByReason: { ...stats.blocksByReason } }),
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidCnpj,
+  portugueseTitleMarkers,
+  resolveMinConfidence,
+  scoreMarketSignals,
+} from './signals.js';
+import { MARKET_PROFILES } from './markets.js';
+
+const BR = MARKET_PROFILES.BR;
+
+const signalNames = (item: Parameters<typeof scoreMarketSignals>[0], market = BR) =>
+  scoreMarketSignals(item, market).signals.map(signal => signal.name);
+
+describe('scoreMarketSignals', () => {
+  it('should score currency and warehouse as strong signals', () => {
+    const score = scoreMarketSignals(
+      { title: 'Produto', currency: 'BRL', warehouse_region: 'São Paulo, SP' },
+      BR
+    );
+
+    expect(score.confidence).toBe(0.8);
+    expect(score.signals).toEqual([
+      { name: 'currency', weight: 0.6, evidence: 'BRL' },
+      { name: 'warehouse_region', weight: 0.5, evidence: 'São Paulo' },
+    ]);
+  });
+
+  it('should return zero confidence without signals', () => {
+    expect(scoreMarketSignals({ title: 'Wireless Earbuds' }, BR)).toEqual({
+      confidence: 0,
+      signals: [],
+    });
+  });
+
+  it('should not match state codes inside foreign place names', () => {
+    for (const region of ['SEOUL', 'MALAYSIA', 'Vietnam', 'PANAMA', 'Ho Chi Minh']) {
+      expect(signalNames({ title: 'Item', warehouse_region: region })).toEqual([]);
+    }
+  });
+
+  it('should count a bare state code as a weak signal', () => {
+    const score = scoreMarketSignals({ title: 'Item', warehouse_region: 'RJ' }, BR);
+    expect(score.signals.map(signal => signal.name)).toEqual(['warehouse_code']);
+    expect(score.confidence).toBe(0.25);
+  });
+
+  it('should match cities without accents', () => {
+    expect(signalNames({ title: 'Item', warehouse_region: 'Cajamar - Sao Paulo' })).toEqual([
+      'warehouse_region',
+    ]);
+  });
+
+  it('should only read "brazil" from URLs, preferring .br domains', () => {
+    const blob = { title: 'Item', schema: '{"note":"ships from brazil"}' };
+    expect(signalNames(blob)).toEqual([]);
+
+    const path = scoreMarketSignals(
+      { title: 'Item', schema: 'https://shop.tiktok.com/br/pdp/123' },
+      BR
+    );
+    expect(path.signals[0]).toMatchObject({ name: 'market_url', weight: 0.3 });
+
+    const domain = scoreMarketSignals(
+      { title: 'Item', view_in_shop_button: { schema: 'https://loja.com.br/p/1' } },
+      BR
+    );
+    expect(domain.signals[0]).toMatchObject({ name: 'market_url', weight: 0.5 });
+  });
+
+  it('should detect CEPs and CNPJ-like seller IDs', () => {
+    const score = scoreMarketSignals(
+      {
+        title: 'Item',
+        warehouse_region: 'CEP 01310-100',
+        seller_product_info: { seller_id_str: '11.222.333/0001-81', seller_name: 'Loja' },
+      },
+      BR
+    );
+
+    expect(score.signals).toEqual([
+      { name: 'cep', weight: 0.4, evidence: '01310-100' },
+      { name: 'cnpj_seller', weight: 0.6, evidence: '11.222.333/0001-81' },
+    ]);
+    expect(score.confidence).toBe(0.76);
+  });
+
+  it('should ignore seller IDs with invalid CNPJ check digits', () => {
+    const item = { title: 'Item', seller_product_info: { seller_id_str: '11222333000182' } };
+    expect(signalNames(item)).toEqual([]);
+  });
+
+  it('should detect Portuguese titles but not pass the default threshold on them alone', () => {
+    const score = scoreMarketSignals({ title: 'Kit Shampoo com Condicionador' }, BR);
+    expect(score.signals.map(signal => signal.name)).toEqual(['portuguese_title']);
+    expect(score.confidence).toBeLessThan(0.5);
+
+    expect(signalNames({ title: 'Champú con acondicionador' })).toEqual([]);
+  });
+
+  it('should only apply Brazilian signals to Brazil', () => {
+    const item = {
+      title: 'Máscara de Hidratação',
+      warehouse_region: '01310-100',
+      currency: 'MXN',
+    };
+    expect(signalNames(item, MARKET_PROFILES.MX)).toEqual(['currency']);
+  });
+});
+
+describe('portugueseTitleMarkers', () => {
+  it('should list "ção" endings, nasal vowels and common words', () => {
+    expect(portugueseTitleMarkers('Máscara de Hidratação Sem Sal')).toEqual(['ção', 'ã', 'sem']);
+    expect(portugueseTitleMarkers('Wireless Earbuds')).toEqual([]);
+  });
+});
+
+describe('isValidCnpj', () => {
+  it('should check both check digits', () => {
+    expect(isValidCnpj('11.222.333/0001-81')).toBe(true);
+    expect(isValidCnpj('11222333000181')).toBe(true);
+    expect(isValidCnpj('11222333000180')).toBe(false);
+    expect(isValidCnpj('00000000000000')).toBe(false);
+    expect(isValidCnpj('1122233300018')).toBe(false);
+  });
+});
+
+describe('resolveMinConfidence', () => {
+  it('should default to 0.5 and reject values outside 0-1', () => {
+    expect(resolveMinConfidence(undefined)).toBe(0.5);
+    expect(resolveMinConfidence(0.8)).toBe(0.8);
+    expect(() => resolveMinConfidence(1.5)).toThrow('between 0 and 1');
+    expect(() => resolveMinConfidence('0.5')).toThrow();
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Weighted market signal scoring: a confidence that an item belongs to the target market,
+ * with the signals that fired
+ */
+
+import { hasMarketCurrency, MarketProfile } from './markets.js';
+import { containsRegionName } from './utils.js';
+import type { TikTokItem } from './schema.js';
+
+export type SignalName =
+  | 'currency'
+  | 'warehouse_region'
+  | 'warehouse_code'
+  | 'market_url'
+  | 'cep'
+  | 'portuguese_title'
+  | 'cnpj_seller';
+
+export interface MarketSignal {
+  name: SignalName;
+  weight: number;
+  /** What matched, e.g. the currency code or the warehouse name */
+  evidence: string;
+}
+
+export interface SignalScore {
+  /** 0-1, combined as 1 - Π(1 - weight) so independent weak signals add up */
+  confidence: number;
+  signals: MarketSignal[];
+}
+
+/**
+ * Weight of each signal on its own. Currency, a full state/city name, a regional TLD
+ * or a valid CNPJ are strong enough to pass the default threshold alone.
+ */
+export const SIGNAL_WEIGHTS: Record<SignalName, number> = {
+  currency: 0.6,
+  warehouse_region: 0.5,
+  warehouse_code: 0.25,
+  market_url: 0.5,
+  cep: 0.4,
+  portuguese_title: 0.3,
+  cnpj_seller: 0.6,
+};
+
+/** URL markers that are not a regional domain count for less */
+const URL_PATH_WEIGHT = 0.3;
+
+export const DEFAULT_MIN_BRAZIL_CONFIDENCE = 0.5;
+
+/**
+ * Brazilian fulfilment hubs and large cities seen in warehouse regions
+ */
+const BRAZILIAN_CITIES = [
+  'Belo Horizonte',
+  'Curitiba',
+  'Porto Alegre',
+  'Salvador',
+  'Recife',
+  'Fortaleza',
+  'Brasília',
+  'Goiânia',
+  'Manaus',
+  'Belém',
+  'Florianópolis',
+  'Campinas',
+  'Guarulhos',
+  'Barueri',
+  'Cajamar',
+  'Osasco',
+  'Extrema',
+  'Joinville',
+  'Itajaí',
+];
+
+/** Words that are common in Portuguese product titles but not in Spanish or English */
+const PORTUGUESE_WORDS = [
+  'com',
+  'sem',
+  'nao',
+  'voce',
+  'kit',
+  'unidades',
+  'feminino',
+  'feminina',
+  'masculino',
+  'masculina',
+  'infantil',
+  'unissex',
+  'frete',
+  'gratis',
+  'promocao',
+  'tamanho',
+  'preto',
+  'branco',
+  'cabelo',
+  'oculos',
+  'calca',
+  'capinha',
+];
+
+const fold = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Check the two CNPJ check digits of a 14-digit string
+ */
+export function isValidCnpj(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1{13}$/.test(digits)) {
+    return false;
+  }
+
+  const checkDigit = (length: number): number => {
+    const weights =
+      length === 12
+        ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+        : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, i) => total + weight * Number(digits[i]), 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === Number(digits[12]) && checkDigit(13) === Number(digits[13]);
+}
+
+/**
+ * Portuguese markers found in a title: "ção"/"ções" endings, "ã"/"õ" and common words
+ */
+export function portugueseTitleMarkers(title: string): string[] {
+  const lower = title.toLowerCase();
+  const markers: string[] = [];
+
+  const suffix = lower.match(/ç(ão|ões)/);
+  if (suffix) markers.push(suffix[0]);
+  const nasal = lower.match(/[ãõ]/);
+  if (nasal) markers.push(nasal[0]);
+
+  const words = new Set(fold(title).split(/[^a-z0-9]+/));
+  markers.push(...PORTUGUESE_WORDS.filter(word => words.has(word)));
+
+  return markers;
+}
+
+const sellerStrings = (item: TikTokItem): string[] =>
+  Object.values(item.seller_product_info ?? {}).filter(
+    (value): value is string => typeof value === 'string'
+  );
+
+const urlsOf = (item: TikTokItem): string[] =>
+  [item.schema, item.view_in_shop_button?.schema]
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap(value => value.match(/https?:\/\/[^\s"'<>]+/g) ?? []);
+
+function detectWarehouse(item: TikTokItem, market: MarketProfile): MarketSignal | null {
+  const region = item.warehouse_region;
+  if (!region) return null;
+
+  const names =
+    market.region === 'BR'
+      ? [...market.warehouseRegions, ...BRAZILIAN_CITIES]
+      : market.warehouseRegions;
+  const fullName = names
+    .filter(name => name.length > 2)
+    .sort((a, b) => b.length - a.length)
+    .find(name => containsRegionName(region, name));
+  if (fullName) {
+    return {
+      name: 'warehouse_region',
+      weight: SIGNAL_WEIGHTS.warehouse_region,
+      evidence: fullName,
+    };
+  }
+
+  // Bare two-letter codes are ambiguous ("PA", "MA") and only count as a weak hint
+  const code = names
+    .filter(name => name.length <= 2)
+    .find(name => containsRegionName(region, name));
+  return code
+    ? { name: 'warehouse_code', weight: SIGNAL_WEIGHTS.warehouse_code, evidence: code }
+    : null;
+}
+
+function detectUrl(item: TikTokItem, market: MarketProfile): MarketSignal | null {
+  let best: MarketSignal | null = null;
+
+  for (const raw of urlsOf(item)) {
+    let href: string;
+    try {
+      href = new URL(raw).href.toLowerCase();
+    } catch {
+      continue;
+    }
+
+    for (const marker of market.urlMarkers) {
+      if (!href.includes(marker)) continue;
+      const weight = marker.startsWith('.') ? SIGNAL_WEIGHTS.market_url : URL_PATH_WEIGHT;
+      if (!best || weight > best.weight) {
+        best = { name: 'market_url', weight, evidence: href };
+      }
+    }
+  }
+
+  return best;
+}
+
+function detectCep(item: TikTokItem): MarketSignal | null {
+  const pattern = /(^|\D)(\d{5}-\d{3})(\D|$)|cep:?\s*(\d{5}-?\d{3})/i;
+  for (const text of [item.warehouse_region ?? '', ...sellerStrings(item)]) {
+    const match = text.match(pattern);
+    if (match) {
+      return { name: 'cep', weight: SIGNAL_WEIGHTS.cep, evidence: match[2] ?? match[4] };
+    }
+  }
+  return null;
+}
+
+function detectCnpj(item: TikTokItem): MarketSignal | null {
+  const pattern = /(?:^|\D)(\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2})(?!\d)/g;
+  for (const text of sellerStrings(item)) {
+    for (const match of text.matchAll(pattern)) {
+      if (isValidCnpj(match[1])) {
+        return { name: 'cnpj_seller', weight: SIGNAL_WEIGHTS.cnpj_seller, evidence: match[1] };
+      }
+    }
+  }
+  return null;
+}
+
+function detectPortugueseTitle(item: TikTokItem): MarketSignal | null {
+  const markers = portugueseTitleMarkers(item.title ?? '');
+  // "ção" alone is distinctive; other markers need company
+  const strong = markers.some(marker => marker.startsWith('ç'));
+  if (!strong && markers.length < 2) return null;
+  return {
+    name: 'portuguese_title',
+    weight: SIGNAL_WEIGHTS.portuguese_title,
+    evidence: markers.join(', '),
+  };
+}
+
+/**
+ * Score how confidently an item belongs to the market. CEP, Portuguese title and CNPJ
+ * signals only apply to Brazil.
+ */
+export function scoreMarketSignals(item: TikTokItem, market: MarketProfile): SignalScore {
+  const signals: MarketSignal[] = [];
+
+  if (hasMarketCurrency(market, item.format_price, item.currency)) {
+    const evidence =
+      item.currency && hasMarketCurrency(market, undefined, item.currency)
+        ? item.currency
+        : (item.format_price ?? '');
+    signals.push({ name: 'currency', weight: SIGNAL_WEIGHTS.currency, evidence });
+  }
+
+  const detected = [
+    detectWarehouse(item, market),
+    detectUrl(item, market),
+    ...(market.region === 'BR'
+      ? [detectCep(item), detectPortugueseTitle(item), detectCnpj(item)]
+      : []),
+  ];
+  signals.push(...detected.filter((signal): signal is MarketSignal => signal !== null));
+
+  const miss = signals.reduce((product, signal) => product * (1 - signal.weight), 1);
+  return { confidence: Math.round((1 - miss) * 1000) / 1000, signals };
+}
+
+/**
+ * Check the `minBrazilConfidence` input
+ */
+export function resolveMinConfidence(value: unknown): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_MIN_BRAZIL_CONFIDENCE;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error(
+      `Input "minBrazilConfidence" must be a number between 0 and 1, got ${JSON.stringify(value)}`
+    );
+  }
+  return value;
+}
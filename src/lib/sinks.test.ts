@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { parquetReadObjects } from 'hyparquet';
+import {
+  createSinks,
+  getColumn,
+  OutputRecord,
+  redactSinkConfig,
+  resolveSinks,
+  SinkConfig,
+  SinkContext,
+  signPayload,
+  toCsv,
+  validateSinkConfigs,
+  writeToSinks,
+} from './sinks.js';
+import { parseCsv } from './affiliate.js';
+import { mapToSupabase } from './mapping.js';
+
+// Local webhook receiver that records each request
+let server: Server;
+let baseUrl: string;
+let received: Array<{ headers: IncomingMessage['headers']; body: string }>;
+/** Statuses to answer with before accepting requests */
+let queued: number[];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(queued.shift() ?? 204);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+// In-memory key-value stores and datasets
+let records: Map<string, { value: unknown; contentType?: string }>;
+let pushed: unknown[][];
+let failPushes: number;
+
+beforeEach(() => {
+  received = [];
+  queued = [];
+  records = new Map();
+  pushed = [];
+  failPushes = 0;
+});
+
+const context: SinkContext = {
+  openKeyValueStore: async (name?: string) => ({
+    setValue: async (key: string, value: unknown, options?: { contentType?: string }) => {
+      records.set(`${name ?? 'default'}/${key}`, { value, contentType: options?.contentType });
+    },
+  }),
+  openDataset: async () => ({
+    pushData: async (data: unknown) => {
+      if (failPushes-- > 0) throw new Error('dataset unavailable');
+      pushed.push(data as unknown[]);
+    },
+  }),
+  policy: { baseDelayMs: 1, maxDelayMs: 2 },
+  now: () => 1_700_000_000_000,
+};
+
+const record = (id: string, title: string): OutputRecord => ({
+  raw: { product_id_str: id, title },
+  mapped: {
+    ...mapToSupabase({
+      product_id_str: id,
+      title,
+      floor_price: '10.00',
+      cover: `https://example.com/${id}.jpg`,
+    }),
+  },
+  change_type: 'new',
+});
+
+const output = [record('1', 'Secador, "Pro"'), record('2', 'Fone'), record('3', 'Mochila')];
+
+const run = async (configs: SinkConfig[]) =>
+  writeToSinks(await createSinks(configs, context), output);
+
+describe('getColumn', () => {
+  it('should read record fields first and mapped fields otherwise', () => {
+    expect(getColumn(output[0], 'raw.title')).toBe('Secador, "Pro"');
+    expect(getColumn(output[0], 'change_type')).toBe('new');
+    expect(getColumn(output[0], 'platform_id')).toBe('1');
+    expect(getColumn(output[0], 'raw.missing.deep')).toBe(undefined);
+  });
+});
+
+describe('toCsv', () => {
+  it('should quote cells and write nested values as JSON', () => {
+    const csv = toCsv([{ title: 'a, "b"', tags: ['x'], price: null }], ['title', 'tags', 'price']);
+    expect(csv).toBe('title,tags,price\n"a, ""b""","[""x""]",\n');
+    expect(parseCsv(csv)[1]).toEqual(['a, "b"', '["x"]', '']);
+  });
+});
+
+describe('file sinks', () => {
+  it('should store NDJSON with the selected columns', async () => {
+    const [result] = await run([{ type: 'ndjson', columns: ['platform_id', 'raw.title'] }]);
+
+    const file = records.get('default/products.ndjson');
+    expect(file?.contentType).toBe('application/x-ndjson');
+    const lines = String(file?.value)
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(lines[0]).toEqual({ platform_id: '1', 'raw.title': 'Secador, "Pro"' });
+    expect(result).toMatchObject({
+      written: 3,
+      failed: 0,
+      location: 'products.ndjson in default store',
+    });
+  });
+
+  it('should store CSV with every mapped field by default', async () => {
+    await run([{ type: 'csv', storeName: 'exports', key: 'latest.csv' }]);
+
+    const rows = parseCsv(String(records.get('exports/latest.csv')?.value));
+    expect(rows[0]).toEqual(Object.keys(output[0].mapped));
+    expect(rows).toHaveLength(4);
+    expect(rows[1][rows[0].indexOf('title')]).toBe('Secador, "Pro"');
+  });
+
+  it('should store Parquet that reads back with typed columns', async () => {
+    await run([{ type: 'parquet', columns: ['platform_id', 'price', 'images', 'raw.title'] }]);
+
+    const file = records.get('default/products.parquet');
+    expect(file?.contentType).toBe('application/vnd.apache.parquet');
+    const buffer = file?.value as Buffer;
+    const arrayBuffer = new ArrayBuffer(buffer.byteLength);
+    new Uint8Array(arrayBuffer).set(buffer);
+    const rows = await parquetReadObjects({ file: arrayBuffer });
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toEqual({
+      platform_id: '1',
+      price: 10,
+      images: output[0].mapped.images,
+      'raw.title': 'Secador, "Pro"',
+    });
+  });
+});
+
+describe('dataset sink', () => {
+  it('should push records in batches and retry failed pushes', async () => {
+    failPushes = 1;
+    const [result] = await run([{ type: 'dataset', batchSize: 2 }]);
+
+    expect(pushed.map(batch => batch.length)).toEqual([2, 1]);
+    expect(result).toMatchObject({ written: 3, failed: 0 });
+  });
+
+  it('should report a batch as failed when retries are exhausted', async () => {
+    failPushes = 2;
+    const [result] = await run([{ type: 'dataset', maxRetries: 1, batchSize: 2 }]);
+
+    expect(result).toMatchObject({ written: 1, failed: 2 });
+    expect(result.errors[0].message).toBe('dataset unavailable');
+    expect(result.failedIds).toEqual(['1', '2']);
+  });
+});
+
+describe('webhook sink', () => {
+  it('should POST signed batches of mapped rows', async () => {
+    const [result] = await run([
+      { type: 'webhook', url: `${baseUrl}/hook`, secret: 's3cret', batchSize: 2 },
+    ]);
+
+    expect(received).toHaveLength(2);
+    const body = JSON.parse(received[0].body);
+    expect(body.batch).toBe(1);
+    expect(body.items.map((item: { platform_id: string }) => item.platform_id)).toEqual(['1', '2']);
+
+    const { headers } = received[0];
+    expect(headers['x-signature-timestamp']).toBe('1700000000');
+    expect(headers['x-signature']).toBe(
+      `sha256=${signPayload('s3cret', 1700000000, received[0].body)}`
+    );
+    expect(result).toMatchObject({ written: 3, failed: 0 });
+  });
+
+  it('should send the selected columns and retry server errors', async () => {
+    queued = [503];
+    const [result] = await run([
+      { type: 'webhook', url: `${baseUrl}/hook`, columns: ['platform_id', 'change_type'] },
+    ]);
+
+    expect(received).toHaveLength(2);
+    expect(received[1].headers['x-signature']).toBe(undefined);
+    expect(JSON.parse(received[1].body).items[0]).toEqual({ platform_id: '1', change_type: 'new' });
+    expect(result.written).toBe(3);
+  });
+
+  it('should report a rejected batch without retrying it', async () => {
+    queued = [400];
+    const [result] = await run([{ type: 'webhook', url: `${baseUrl}/hook`, batchSize: 2 }]);
+
+    expect(received).toHaveLength(2);
+    expect(result).toMatchObject({ written: 1, failed: 2 });
+    expect(result.errors[0]).toEqual({ key: 'batch 1', status: 400, message: 'HTTP 400' });
+    expect(result.failedIds).toEqual(['1', '2']);
+  });
+});
+
+describe('validateSinkConfigs', () => {
+  it('should accept valid sinks', () => {
+    const sinks = [
+      { type: 'csv', columns: ['platform_id'] },
+      { type: 'webhook', url: baseUrl },
+    ];
+    expect(validateSinkConfigs(sinks)).toEqual(sinks);
+  });
+
+  it('should fail fast with the path of the problem', () => {
+    expect(() => validateSinkConfigs({ type: 'csv' })).toThrow('must be an array');
+    expect(() => validateSinkConfigs([{ type: 'xml' }])).toThrow('sinks[0].type');
+    expect(() => validateSinkConfigs([{ type: 'webhook' }])).toThrow('sinks[0].url');
+    expect(() => validateSinkConfigs([{ type: 'csv', columns: [] }])).toThrow('columns');
+    expect(() => validateSinkConfigs([{ type: 'csv', key: 'a/b' }])).toThrow('sinks[0].key');
+    expect(() => validateSinkConfigs([{ type: 'dataset', batchSize: 0 }])).toThrow('batchSize');
+    expect(() => validateSinkConfigs([{ type: 'csv' }, { type: 'csv' }])).toThrow(
+      'sinks[1]" has the same name'
+    );
+  });
+});
+
+describe('resolveSinks', () => {
+  it('should default to the dataset', () => {
+    expect(resolveSinks({}, {})).toEqual([{ type: 'dataset' }]);
+  });
+
+  it('should add a Supabase sink from the supabase inputs', () => {
+    const env = { SUPABASE_URL: 'https://abc.supabase.co', SUPABASE_KEY: 'env-key' };
+    expect(resolveSinks({ sinks: [{ type: 'csv' }] }, env)).toEqual([
+      { type: 'csv' },
+      {
+        type: 'supabase',
+        url: 'https://abc.supabase.co',
+        apiKey: 'env-key',
+        table: 'products',
+        batchSize: 500,
+      },
+    ]);
+  });
+});
+
+describe('redactSinkConfig', () => {
+  it('should mask credentials and header values but keep the header names', () => {
+    const sink: SinkConfig = {
+      type: 'webhook',
+      url: 'https://hooks.example.com/products',
+      secret: 'signing-secret',
+      headers: { Authorization: 'Bearer token', apikey: 'service-key' },
+    };
+
+    expect(redactSinkConfig(sink)).toEqual({
+      type: 'webhook',
+      url: 'https://hooks.example.com/products',
+      secret: '***',
+      headers: { Authorization: '***', apikey: '***' },
+    });
+    expect(redactSinkConfig({ type: 'supabase', apiKey: 'key' }).apiKey).toBe('***');
+    expect(sink.headers?.Authorization).toBe('Bearer token');
+  });
+});
@@ -0,0 +1,642 @@
+/**
+ * Output sinks: the targets emitted records are written to. A run can write to several sinks
+ * (the dataset, NDJSON/CSV/Parquet files in a key-value store, a signed webhook, Supabase),
+ * all sharing the batching and retry policy of delivery.ts.
+ */
+
+import { createHmac } from 'crypto';
+import type { Dataset, KeyValueStore } from 'apify';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import type { BasicType, ColumnSource } from 'hyparquet-writer';
+import {
+  chunk,
+  DEFAULT_DELIVERY_POLICY,
+  DeliveryPolicy,
+  requestWithRetries,
+  withRetries,
+} from './delivery.js';
+import type { MappedRow } from './fieldmapping.js';
+import type { TikTokItem } from './schema.js';
+import {
+  createSupabaseSink,
+  DEFAULT_SUPABASE_BATCH_SIZE,
+  resolveSupabaseOptions,
+} from './supabase.js';
+
+export type SinkType = 'dataset' | 'ndjson' | 'csv' | 'parquet' | 'webhook' | 'supabase';
+
+export const SINK_TYPES: SinkType[] = [
+  'dataset',
+  'ndjson',
+  'csv',
+  'parquet',
+  'webhook',
+  'supabase',
+];
+
+/**
+ * One output target, from the `sinks` input
+ */
+export interface SinkConfig {
+  type: SinkType;
+  /** Label in logs and the sink report, defaults to the type */
+  name?: string;
+  /** Fields to output, as paths into the record ("raw.title") or the mapped row ("price") */
+  columns?: string[];
+  /** dataset: dataset name, the run's default dataset when unset */
+  datasetName?: string;
+  /** ndjson, csv, parquet: key-value store name, the run's default store when unset */
+  storeName?: string;
+  /** ndjson, csv, parquet: record key, products.<type> by default */
+  key?: string;
+  /** webhook: endpoint; supabase: project URL (falls back to SUPABASE_URL) */
+  url?: string;
+  /** webhook: HMAC-SHA256 signing secret */
+  secret?: string;
+  /** webhook: extra request headers */
+  headers?: Record<string, string>;
+  /** supabase: service role key (falls back to SUPABASE_KEY) */
+  apiKey?: string;
+  /** supabase: table name */
+  table?: string;
+  /** Overrides of the shared delivery policy */
+  batchSize?: number;
+  maxRetries?: number;
+}
+
+/**
+ * One emitted record: the mapped row (columns of the field mapping) plus raw data, scores and
+ * change tracking
+ */
+export interface OutputRecord {
+  raw: TikTokItem;
+  mapped: MappedRow;
+  [field: string]: unknown;
+}
+
+export interface SinkError {
+  /** platform_id of the failed row, or the batch for whole-batch failures */
+  key: string | null;
+  /** HTTP status, null for network and storage errors */
+  status: number | null;
+  message: string;
+}
+
+export interface SinkResult {
+  name: string;
+  type: SinkType;
+  written: number;
+  failed: number;
+  errors: SinkError[];
+  /** platform_ids of the records that were not written */
+  failedIds: string[];
+  /** Where the records went */
+  location: string;
+  /** Counts specific to the sink, like inserted and updated rows */
+  counts?: Record<string, number>;
+}
+
+export interface Sink {
+  name: string;
+  type: SinkType;
+  /** Accept records; sinks that send batches send each batch once it is full */
+  write(records: OutputRecord[]): Promise<void>;
+  /** Send what is left and report */
+  close(): Promise<SinkResult>;
+}
+
+/**
+ * Storage and settings sinks are created with. main.ts passes the Apify SDK; tests pass fakes.
+ */
+export interface SinkContext {
+  openDataset(name?: string): Promise<Pick<Dataset, 'pushData'>>;
+  openKeyValueStore(name?: string): Promise<Pick<KeyValueStore, 'setValue'>>;
+  /** Shared policy; batchSize and maxRetries of a sink override it */
+  policy?: Partial<DeliveryPolicy>;
+  /** Current time in ms, for webhook signatures */
+  now?: () => number;
+}
+
+const FILE_CONTENT_TYPES: Record<'ndjson' | 'csv' | 'parquet', string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+/**
+ * Key-value store record keys allowed by Apify
+ */
+const RECORD_KEY_PATTERN = /^[a-zA-Z0-9!\-_.'()]{1,256}$/;
+
+const errorText = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Value of a column. The first path segment is looked up on the record ("raw", "change_type",
+ * "score_breakdown"); paths that don't start with a record field are read from the mapped row.
+ */
+export function getColumn(record: OutputRecord, column: string): unknown {
+  const path = column.split('.');
+  let value: unknown = Object.prototype.hasOwnProperty.call(record, path[0])
+    ? record
+    : record.mapped;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Flat row with the selected columns, keyed by column path
+ */
+export function selectColumns(record: OutputRecord, columns: string[]): Record<string, unknown> {
+  return Object.fromEntries(columns.map(column => [column, getColumn(record, column) ?? null]));
+}
+
+/**
+ * One JSON document per line
+ */
+export function toNdjson(rows: unknown[]): string {
+  return rows.map(row => `${JSON.stringify(row)}\n`).join('');
+}
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a header row. Nested values are written as JSON.
+ */
+export function toCsv(rows: Array<Record<string, unknown>>, columns: string[]): string {
+  const lines = [columns, ...rows.map(row => columns.map(column => row[column]))];
+  return lines.map(cells => `${cells.map(csvCell).join(',')}\n`).join('');
+}
+
+/**
+ * Parquet column with a type inferred from its values: numbers are DOUBLE, booleans BOOLEAN,
+ * objects and arrays JSON, everything else STRING
+ */
+function parquetColumn(name: string, values: unknown[]): ColumnSource {
+  const present = values.filter(value => value !== null && value !== undefined);
+  let type: BasicType = 'STRING';
+  if (present.length > 0 && present.every(value => typeof value === 'number')) {
+    type = 'DOUBLE';
+  } else if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+    type = 'BOOLEAN';
+  } else if (present.some(value => typeof value === 'object')) {
+    type = 'JSON';
+  }
+
+  const data = values.map(value => {
+    if (value === null || value === undefined) return null;
+    return type === 'STRING' ? String(value) : value;
+  });
+  return { name, data, type, nullable: true };
+}
+
+/**
+ * Parquet file with one column per selected column
+ */
+export function toParquet(rows: Array<Record<string, unknown>>, columns: string[]): Buffer {
+  const columnData = columns.map(column =>
+    parquetColumn(
+      column,
+      rows.map(row => row[column])
+    )
+  );
+  return Buffer.from(parquetWriteBuffer({ columnData }));
+}
+
+/**
+ * Signature of a webhook body: hex HMAC-SHA256 of `<timestamp>.<body>`. Receivers recompute it
+ * from the X-Signature-Timestamp header and the raw body.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Columns of a flat file: the selected ones, else every field of the mapped row
+ */
+const fileColumns = (config: SinkConfig, records: OutputRecord[]): string[] =>
+  config.columns ?? Object.keys(records[0]?.mapped ?? {});
+
+/**
+ * Dataset sink: pushes records (or their selected columns) in batches
+ */
+async function createDatasetSink(
+  name: string,
+  config: SinkConfig,
+  context: SinkContext,
+  policy: DeliveryPolicy
+): Promise<Sink> {
+  const dataset = await context.openDataset(config.datasetName);
+  const result: SinkResult = {
+    name,
+    type: 'dataset',
+    written: 0,
+    failed: 0,
+    errors: [],
+    failedIds: [],
+    location: config.datasetName ? `dataset "${config.datasetName}"` : 'default dataset',
+  };
+
+  const write = async (records: OutputRecord[]) => {
+    const { columns } = config;
+    for (const batch of chunk(records, policy.batchSize)) {
+      const rows = columns ? batch.map(record => selectColumns(record, columns)) : batch;
+      try {
+        await withRetries(() => dataset.pushData(rows), policy);
+        result.written += batch.length;
+      } catch (error) {
+        result.failed += batch.length;
+        result.errors.push({ key: null, status: null, message: errorText(error) });
+        result.failedIds.push(...batch.map(record => record.mapped.platform_id));
+      }
+    }
+  };
+
+  return { name, type: 'dataset', write, close: async () => result };
+}
+
+/**
+ * File sink: collects records and stores them as one NDJSON, CSV or Parquet record in a
+ * key-value store on close
+ */
+async function createFileSink(
+  name: string,
+  type: 'ndjson' | 'csv' | 'parquet',
+  config: SinkConfig,
+  context: SinkContext,
+  policy: DeliveryPolicy
+): Promise<Sink> {
+  const store = await context.openKeyValueStore(config.storeName);
+  const key = config.key ?? `products.${type}`;
+  const records: OutputRecord[] = [];
+
+  const encode = (): string | Buffer => {
+    if (type === 'ndjson') {
+      const { columns } = config;
+      return toNdjson(columns ? records.map(record => selectColumns(record, columns)) : records);
+    }
+    const columns = fileColumns(config, records);
+    const rows = records.map(record => selectColumns(record, columns));
+    return type === 'csv' ? toCsv(rows, columns) : toParquet(rows, columns);
+  };
+
+  const storeLabel = config.storeName ? `key-value store "${config.storeName}"` : 'default store';
+
+  const close = async (): Promise<SinkResult> => {
+    const result: SinkResult = {
+      name,
+      type,
+      written: 0,
+      failed: 0,
+      errors: [],
+      failedIds: [],
+      location: `${key} in ${storeLabel}`,
+    };
+    try {
+      const body = encode();
+      await withRetries(
+        () => store.setValue(key, body, { contentType: FILE_CONTENT_TYPES[type] }),
+        policy
+      );
+      result.written = records.length;
+    } catch (error) {
+      result.failed = records.length;
+      result.errors.push({ key, status: null, message: errorText(error) });
+      result.failedIds = records.map(record => record.mapped.platform_id);
+    }
+    return result;
+  };
+
+  return {
+    name,
+    type,
+    write: async batch => {
+      records.push(...batch);
+    },
+    close,
+  };
+}
+
+/**
+ * Webhook sink: POSTs `{ batch, items }` JSON bodies of mapped rows (or their selected columns),
+ * signed with HMAC-SHA256 when a secret is set
+ */
+function createWebhookSink(
+  name: string,
+  config: SinkConfig,
+  context: SinkContext,
+  policy: DeliveryPolicy
+): Sink {
+  const url = config.url as string;
+  const now = context.now ?? Date.now;
+  const pending: OutputRecord[] = [];
+  let batchNumber = 0;
+  const result: SinkResult = {
+    name,
+    type: 'webhook',
+    written: 0,
+    failed: 0,
+    errors: [],
+    failedIds: [],
+    location: new URL(url).origin,
+  };
+
+  const send = async (records: OutputRecord[]) => {
+    batchNumber++;
+    const { columns } = config;
+    const items = records.map(record => (columns ? selectColumns(record, columns) : record.mapped));
+    const body = JSON.stringify({ batch: batchNumber, items });
+    const headers: Record<string, string> = {
+      ...config.headers,
+      'content-type': 'application/json',
+    };
+    if (config.secret) {
+      const timestamp = Math.floor(now() / 1000);
+      headers['x-signature-timestamp'] = String(timestamp);
+      headers['x-signature'] = `sha256=${signPayload(config.secret, timestamp, body)}`;
+    }
+
+    let error: SinkError | null = null;
+    try {
+      const response = await requestWithRetries(url, { method: 'POST', headers, body }, policy);
+      if (response.status >= 300) {
+        const message = response.body.trim().slice(0, 200) || `HTTP ${response.status}`;
+        error = { key: `batch ${batchNumber}`, status: response.status, message };
+      }
+    } catch (requestError) {
+      error = { key: `batch ${batchNumber}`, status: null, message: errorText(requestError) };
+    }
+
+    if (error) {
+      result.failed += records.length;
+      result.errors.push(error);
+      result.failedIds.push(...records.map(record => record.mapped.platform_id));
+    } else {
+      result.written += records.length;
+    }
+  };
+
+  const write = async (records: OutputRecord[]) => {
+    pending.push(...records);
+    while (pending.length >= policy.batchSize) {
+      await send(pending.splice(0, policy.batchSize));
+    }
+  };
+
+  const close = async () => {
+    if (pending.length > 0) {
+      await send(pending.splice(0));
+    }
+    return result;
+  };
+
+  return { name, type: 'webhook', write, close };
+}
+
+/**
+ * Supabase sink: collects the mapped rows and upserts them on close, so each platform_id is
+ * sent once per run
+ */
+function createSupabaseOutputSink(name: string, config: SinkConfig, policy: DeliveryPolicy): Sink {
+  const options = resolveSupabaseOptions({
+    supabaseUrl: config.url,
+    supabaseKey: config.apiKey,
+    supabaseTable: config.table,
+    supabaseBatchSize: policy.batchSize,
+    maxRetries: policy.maxRetries,
+  });
+  if (!options) {
+    throw new Error(`Sink "${name}" needs a url (or SUPABASE_URL)`);
+  }
+  const upserter = createSupabaseSink({
+    ...options,
+    baseDelayMs: policy.baseDelayMs,
+    maxDelayMs: policy.maxDelayMs,
+  });
+  const rows: MappedRow[] = [];
+
+  const close = async (): Promise<SinkResult> => {
+    const summary = await upserter.upsert(rows);
+    return {
+      name,
+      type: 'supabase',
+      written: summary.inserted + summary.updated + summary.upserted,
+      failed: summary.failed,
+      errors: summary.errors.map(({ platform_id, status, message }) => ({
+        key: platform_id,
+        status,
+        message,
+      })),
+      failedIds: summary.errors.map(error => error.platform_id),
+      location: `table "${options.table}"`,
+      counts: {
+        inserted: summary.inserted,
+        updated: summary.updated,
+        ...(summary.upserted > 0 && { upserted: summary.upserted }),
+      },
+    };
+  };
+
+  return {
+    name,
+    type: 'supabase',
+    write: async records => {
+      rows.push(...records.map(record => record.mapped));
+    },
+    close,
+  };
+}
+
+/**
+ * Create the configured sinks. Stores are opened and Supabase settings resolved here, so
+ * misconfigured sinks fail before scraping.
+ */
+export async function createSinks(configs: SinkConfig[], context: SinkContext): Promise<Sink[]> {
+  const sinks: Sink[] = [];
+  for (const config of configs) {
+    const name = config.name ?? config.type;
+    const policy: DeliveryPolicy = {
+      ...DEFAULT_DELIVERY_POLICY,
+      ...context.policy,
+      ...(config.batchSize !== undefined && { batchSize: config.batchSize }),
+      ...(config.maxRetries !== undefined && { maxRetries: config.maxRetries }),
+    };
+
+    if (config.type === 'dataset') {
+      sinks.push(await createDatasetSink(name, config, context, policy));
+    } else if (config.type === 'webhook') {
+      sinks.push(createWebhookSink(name, config, context, policy));
+    } else if (config.type === 'supabase') {
+      sinks.push(createSupabaseOutputSink(name, config, policy));
+    } else {
+      sinks.push(await createFileSink(name, config.type, config, context, policy));
+    }
+  }
+  return sinks;
+}
+
+/**
+ * Write records to every sink, then close them all and collect their results
+ */
+export async function writeToSinks(sinks: Sink[], records: OutputRecord[]): Promise<SinkResult[]> {
+  for (const sink of sinks) {
+    await sink.write(records);
+  }
+  const results: SinkResult[] = [];
+  for (const sink of sinks) {
+    results.push(await sink.close());
+  }
+  return results;
+}
+
+const isPositiveInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+/**
+ * Validate the `sinks` input, failing fast with the path of the first problem
+ */
+export function validateSinkConfigs(value: unknown): SinkConfig[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Input "sinks" must be an array of sink objects');
+  }
+
+  const names = new Set<string>();
+  return value.map((entry, i): SinkConfig => {
+    const at = `Input "sinks[${i}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`${at}" must be an object, got ${JSON.stringify(entry)}`);
+    }
+    const config = entry as SinkConfig;
+
+    if (!SINK_TYPES.includes(config.type)) {
+      const types = SINK_TYPES.join(', ');
+      throw new Error(`${at}.type" must be one of ${types}, got ${JSON.stringify(config.type)}`);
+    }
+    for (const field of [
+      'name',
+      'datasetName',
+      'storeName',
+      'url',
+      'secret',
+      'apiKey',
+      'table',
+    ] as const) {
+      if (config[field] !== undefined && (typeof config[field] !== 'string' || !config[field])) {
+        throw new Error(`${at}.${field}" must be a non-empty string`);
+      }
+    }
+
+    const name = config.name ?? config.type;
+    if (names.has(name)) {
+      throw new Error(`${at}" has the same name as another sink ("${name}"); set distinct names`);
+    }
+    names.add(name);
+
+    if (config.columns !== undefined) {
+      const { columns } = config;
+      if (
+        !Array.isArray(columns) ||
+        columns.length === 0 ||
+        !columns.every(column => typeof column === 'string' && column.trim())
+      ) {
+        throw new Error(`${at}.columns" must be a non-empty array of field paths`);
+      }
+      if (config.type === 'supabase') {
+        throw new Error(`${at}.columns" is not supported by supabase sinks`);
+      }
+    }
+    if (config.key !== undefined && !RECORD_KEY_PATTERN.test(String(config.key))) {
+      throw new Error(
+        `${at}.key" must be a key-value store key, got ${JSON.stringify(config.key)}`
+      );
+    }
+    if (config.batchSize !== undefined && !isPositiveInteger(config.batchSize)) {
+      throw new Error(`${at}.batchSize" must be a positive integer, got ${config.batchSize}`);
+    }
+    if (
+      config.maxRetries !== undefined &&
+      !(Number.isInteger(config.maxRetries) && config.maxRetries >= 0)
+    ) {
+      throw new Error(`${at}.maxRetries" must be a non-negative integer, got ${config.maxRetries}`);
+    }
+    if (
+      config.headers !== undefined &&
+      (!config.headers ||
+        typeof config.headers !== 'object' ||
+        !Object.values(config.headers).every(header => typeof header === 'string'))
+    ) {
+      throw new Error(`${at}.headers" must be an object of header strings`);
+    }
+
+    if (config.type === 'webhook') {
+      let protocol = '';
+      try {
+        protocol = new URL(config.url ?? '').protocol;
+      } catch {
+        // Reported below
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new Error(`${at}.url" must be an http(s) URL for webhook sinks`);
+      }
+    }
+
+    return config;
+  });
+}
+
+/**
+ * Sinks of a run: the `sinks` input (the default dataset when unset), plus a Supabase sink
+ * when the supabaseUrl input or SUPABASE_URL is set and `sinks` has none
+ */
+export function resolveSinks(
+  input: {
+    sinks?: unknown;
+    supabaseUrl?: string;
+    supabaseKey?: string;
+    supabaseTable?: string;
+    supabaseBatchSize?: number;
+    maxRetries?: number;
+  },
+  env: Record<string, string | undefined> = process.env
+): SinkConfig[] {
+  const sinks = validateSinkConfigs(input.sinks ?? [{ type: 'dataset' }]);
+  if (sinks.some(sink => sink.type === 'supabase')) {
+    return sinks;
+  }
+
+  const supabase = resolveSupabaseOptions(input, env);
+  if (supabase) {
+    sinks.push({
+      type: 'supabase',
+      url: supabase.url,
+      apiKey: supabase.key,
+      table: supabase.table,
+      batchSize: supabase.batchSize ?? DEFAULT_SUPABASE_BATCH_SIZE,
+    });
+  }
+  return sinks;
+}
+
+/**
+ * Sink config safe to log: the secret, API key and header values are masked, since webhook
+ * headers usually carry the credentials (`Authorization`, `apikey`)
+ */
+export function redactSinkConfig(sink: SinkConfig): SinkConfig {
+  return {
+    ...sink,
+    ...(sink.secret && { secret: '***' }),
+    ...(sink.apiKey && { apiKey: '***' }),
+    ...(sink.headers && {
+      headers: Object.fromEntries(Object.keys(sink.headers).map(name => [name, '***'])),
+    }),
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import {
+  collectItems,
+  createKeyValueRecorder,
+  createMockSource,
+  createReplaySource,
+  readRecordedResponses,
+} from './sources.js';
+import { filterBrazil } from './filters.js';
+import { mapToSupabase } from './mapping.js';
+
+const REPLAY_DIR = join(__dirname, '__fixtures__', 'replay');
+
+const config = {
+  region: 'BR',
+  limit: 100,
+  isTrendingProducts: false,
+  keyword: 'shampoo',
+  sortType: 'RELEVANCE',
+  maxConcurrency: 5,
+  debug: false,
+};
+
+describe('createReplaySource', () => {
+  it('should replay recorded pages de-duplicated by product_id', async () => {
+    const items = await collectItems(createReplaySource(REPLAY_DIR).stream(config));
+
+    expect(items.map(item => item.product_id_str)).toEqual([
+      '1729384756102938475',
+      '1729384756102938476',
+      '1729384756102938480',
+    ]);
+  });
+
+  it('should attach recorded detail responses to their products', async () => {
+    const items = await collectItems(createReplaySource(REPLAY_DIR).stream(config));
+
+    expect(items[0].detail?.brand).toBe('Pantene');
+    expect(items[0].detail?.variants).toHaveLength(2);
+    expect(items[1].detail).toBeUndefined();
+  });
+
+  it('should tag items with the recorded search keyword', async () => {
+    const items = await collectItems(
+      createReplaySource(REPLAY_DIR).stream({ ...config, keyword: 'other' })
+    );
+    expect(items.every(item => item.source === 'search:shampoo')).toBe(true);
+  });
+
+  it('should honor the limit', async () => {
+    const items = await collectItems(
+      createReplaySource(REPLAY_DIR).stream({ ...config, limit: 2 })
+    );
+    expect(items).toHaveLength(2);
+  });
+
+  it('should run the filter and mapping pipeline offline', async () => {
+    const rawItems = await collectItems(createReplaySource(REPLAY_DIR).stream(config));
+    const filtered = filterBrazil(rawItems, { requireBrazilSignals: true, dropIfNoImage: true });
+    const mapped = filtered.map(item => mapToSupabase(item));
+
+    expect(mapped.map(product => product.platform_id)).toEqual([
+      '1729384756102938475',
+      '1729384756102938476',
+    ]);
+    expect(mapped[0].brand).toBe('Pantene');
+    expect(mapped[0].currency).toBe('BRL');
+  });
+});
+
+describe('readRecordedResponses', () => {
+  it('should read responses in recording order', async () => {
+    const responses = await readRecordedResponses(REPLAY_DIR);
+    expect(responses.map(response => response.kind)).toEqual(['search', 'search', 'detail']);
+  });
+});
+
+describe('createKeyValueRecorder', () => {
+  it('should store responses under sequential keys', async () => {
+    const saved: Record<string, any> = {};
+    const recorder = createKeyValueRecorder({
+      setValue: async (key: string, value: unknown) => {
+        saved[key] = value;
+      },
+    });
+
+    await recorder('search', 'https://example.com/search?keyword=a', '{"code":0}');
+    await recorder('detail', 'https://example.com/detail?product_id=1', '{"code":0}');
+
+    expect(Object.keys(saved)).toEqual(['RESPONSE-search-00001', 'RESPONSE-detail-00002']);
+    expect(saved['RESPONSE-search-00001']).toMatchObject({
+      kind: 'search',
+      url: 'https://example.com/search?keyword=a',
+      body: '{"code":0}',
+    });
+  });
+});
+
+describe('createMockSource', () => {
+  it('should generate up to the limit with a source tag', async () => {
+    const items = await collectItems(createMockSource().stream({ ...config, limit: 30 }));
+    expect(items).toHaveLength(30);
+    expect(items[0].source).toBe('search:shampoo');
+    expect(items[0].currency).toBe('BRL');
+  });
+});
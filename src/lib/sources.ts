@@ -0,0 +1,181 @@
+/**
+ * Product source adapters: live TikTok scraping, synthetic mock data and
+ * replay of responses recorded from a previous live run
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { KeyValueStore, ProxyConfiguration } from 'apify';
+import { itemKey } from './pagination.js';
+import { parseProductDetail, parseSearchResponse, parseTrendingResponse } from './parsers.js';
+import type { TikTokItem } from './schema.js';
+import type { SessionPool, SessionStats } from './sessions.js';
+import {
+  createLiveSessionPool,
+  generateMockBrazilianProducts,
+  ResponseKind,
+  ResponseRecorder,
+  scrapeTikTokShop,
+  ScrapingConfig,
+  sourceTag,
+} from './tiktok.js';
+
+export type SourceName = 'live' | 'mock' | 'replay';
+
+export interface ProductSource {
+  name: SourceName;
+  stream(config: ScrapingConfig): AsyncIterable<TikTokItem>;
+  /** Proxy session statistics, for sources that make network requests */
+  sessionStats?(): SessionStats | null;
+}
+
+/**
+ * One recorded TikTok response as stored in the key-value store
+ */
+export interface RecordedResponse {
+  kind: ResponseKind;
+  url: string;
+  recordedAt: string;
+  body: string;
+}
+
+/**
+ * Key prefix of recorded responses, e.g. `RESPONSE-search-00001`
+ */
+export const RECORDED_RESPONSE_PREFIX = 'RESPONSE-';
+
+const RECORDED_FILE_PATTERN = /^RESPONSE-(search|trending|detail)-\d+\.json$/;
+
+/**
+ * Collect an async stream into an array
+ */
+export async function collectItems<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Recorder that saves every raw response to a key-value store.
+ * Locally the store is a directory of JSON files that the replay source can read back.
+ */
+export function createKeyValueRecorder(store: Pick<KeyValueStore, 'setValue'>): ResponseRecorder {
+  let sequence = 0;
+
+  return async (kind, url, body) => {
+    sequence++;
+    const key = `${RECORDED_RESPONSE_PREFIX}${kind}-${String(sequence).padStart(5, '0')}`;
+    const record: RecordedResponse = { kind, url, recordedAt: new Date().toISOString(), body };
+    await store.setValue(key, record);
+  };
+}
+
+/**
+ * Live TikTok Shop source. With `recorder`, raw responses are saved for later replay.
+ */
+export function createLiveSource(
+  proxyConfiguration: ProxyConfiguration,
+  recorder?: ResponseRecorder
+): ProductSource {
+  let sessionPool: SessionPool | null = null;
+
+  return {
+    name: 'live',
+    async *stream(config) {
+      sessionPool = createLiveSessionPool(config, proxyConfiguration);
+      yield* await scrapeTikTokShop(config, proxyConfiguration, { recorder, sessionPool });
+    },
+    sessionStats: () => sessionPool?.stats() ?? null,
+  };
+}
+
+/**
+ * Synthetic Brazilian products, no network access
+ */
+export function createMockSource(): ProductSource {
+  return {
+    name: 'mock',
+    async *stream(config) {
+      const source = sourceTag(config);
+      for (const product of await generateMockBrazilianProducts(config)) {
+        yield { ...product, source };
+      }
+    },
+  };
+}
+
+/**
+ * Read all recorded responses from a directory, in recording order
+ */
+export async function readRecordedResponses(dir: string): Promise<RecordedResponse[]> {
+  const files = (await fs.readdir(dir)).filter(file => RECORDED_FILE_PATTERN.test(file));
+
+  // Sort by sequence number so pages are replayed in the order they were fetched
+  const sequenceOf = (file: string) => Number(file.match(/-(\d+)\.json$/)?.[1] ?? 0);
+  files.sort((a, b) => sequenceOf(a) - sequenceOf(b));
+
+  const responses: RecordedResponse[] = [];
+  for (const file of files) {
+    const record = JSON.parse(await fs.readFile(join(dir, file), 'utf-8'));
+    if (typeof record?.body !== 'string' || !record.kind) {
+      throw new Error(`Recorded response ${file} is missing "kind" or "body"`);
+    }
+    responses.push(record);
+  }
+
+  return responses;
+}
+
+/**
+ * Source tag of a recorded list response, derived from its URL
+ */
+function recordedSourceTag(response: RecordedResponse): string {
+  if (response.kind === 'trending') {
+    return 'trending';
+  }
+  const keyword = new URL(response.url).searchParams.get('keyword');
+  return `search:${keyword ?? ''}`;
+}
+
+/**
+ * Replay a directory of recorded responses through the same parsers as the live source.
+ * Detail responses are attached to their products by `product_id`.
+ */
+export function createReplaySource(dir: string): ProductSource {
+  return {
+    name: 'replay',
+    async *stream(config) {
+      const responses = await readRecordedResponses(dir);
+      console.log(`📼 Replaying ${responses.length} recorded responses from ${dir}`);
+
+      const details = new Map<string, TikTokItem['detail']>();
+      for (const response of responses.filter(r => r.kind === 'detail')) {
+        const productId = new URL(response.url).searchParams.get('product_id');
+        if (productId) {
+          details.set(productId, parseProductDetail(response.body));
+        }
+      }
+
+      const seen = new Set<string>();
+      for (const response of responses.filter(r => r.kind !== 'detail')) {
+        const page =
+          response.kind === 'trending'
+            ? parseTrendingResponse(response.body)
+            : parseSearchResponse(response.body);
+        const source = recordedSourceTag(response);
+
+        for (const item of page.items) {
+          const key = itemKey(item);
+          if (!key || seen.has(key)) continue;
+          if (seen.size >= config.limit) return;
+          seen.add(key);
+
+          const detail = details.get(key);
+          yield detail ? { ...item, source, detail } : { ...item, source };
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createSupabaseSink, resolveSupabaseOptions, restEndpoint } from './supabase.js';
+import { mapToSupabase } from './mapping.js';
+
+// Local PostgREST stub: an in-memory products table with upsert on platform_id
+let server: Server;
+let baseUrl: string;
+let table: Map<string, Record<string, unknown>>;
+let requests: Array<{
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  rows: number;
+}>;
+/** Responses to upserts before they are handled normally */
+let queued: Array<{ status: number; headers?: Record<string, string> }>;
+/** Reject lookups, like a proxy refusing a long URL */
+let failLookups: boolean;
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    const rows = body ? (JSON.parse(body) as Array<Record<string, unknown>>) : [];
+    requests.push({
+      method: req.method ?? '',
+      url: req.url ?? '',
+      headers: req.headers,
+      rows: rows.length,
+    });
+
+    const next = req.method === 'POST' ? queued.shift() : undefined;
+    if (next) {
+      res.writeHead(next.status, next.headers);
+      return res.end(JSON.stringify({ message: `stub ${next.status}` }));
+    }
+    if (req.headers.apikey !== 'service-key') {
+      res.writeHead(401, { 'content-type': 'application/json' });
+      return res.end(JSON.stringify({ message: 'Invalid API key' }));
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method === 'GET') {
+      if (failLookups) {
+        res.writeHead(414);
+        return res.end();
+      }
+      const ids = (url.searchParams.get('platform_id') ?? '')
+        .replace(/^in\.\(|\)$/g, '')
+        .split(',')
+        .map(id => JSON.parse(id));
+      const found = ids.filter(id => table.has(id)).map(platform_id => ({ platform_id }));
+      res.writeHead(200, { 'content-type': 'application/json' });
+      return res.end(JSON.stringify(found));
+    }
+
+    // Like Postgres, one bad row rejects the whole request
+    const bad = rows.find(row => row.price === -1);
+    if (bad) {
+      res.writeHead(400, { 'content-type': 'application/json' });
+      return res.end(
+        JSON.stringify({
+          code: '23514',
+          message: 'new row for relation "products" violates check constraint "price_positive"',
+          details: `Failing row contains (${bad.platform_id}).`,
+        })
+      );
+    }
+    for (const row of rows) table.set(String(row.platform_id), row);
+    res.writeHead(201);
+    res.end();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  table = new Map();
+  requests = [];
+  queued = [];
+  failLookups = false;
+});
+
+const product = (id: string, price = 10) => ({
+  ...mapToSupabase({ product_id_str: id, title: `Produto ${id}`, floor_price: '10.00' }),
+  price,
+});
+
+const newSink = (options: { batchSize?: number; maxRetries?: number; key?: string } = {}) =>
+  createSupabaseSink({
+    url: `${baseUrl}/rest/v1`,
+    key: options.key ?? 'service-key',
+    batchSize: options.batchSize,
+    maxRetries: options.maxRetries ?? 3,
+    baseDelayMs: 1,
+    maxDelayMs: 5,
+  });
+
+describe('restEndpoint', () => {
+  it('should add the Supabase REST prefix to a project URL', () => {
+    expect(restEndpoint('https://abc.supabase.co', 'products')).toBe(
+      'https://abc.supabase.co/rest/v1/products'
+    );
+    expect(restEndpoint('https://abc.supabase.co/', 'products')).toBe(
+      'https://abc.supabase.co/rest/v1/products'
+    );
+  });
+
+  it('should use a URL with a path as the PostgREST root', () => {
+    expect(restEndpoint('http://localhost:3000/api/', 'products')).toBe(
+      'http://localhost:3000/api/products'
+    );
+  });
+});
+
+describe('createSupabaseSink', () => {
+  it('should upsert in batches and count inserted and updated rows', async () => {
+    table.set('2', { platform_id: '2' });
+    const summary = await newSink({ batchSize: 2 }).upsert([
+      product('1'),
+      product('2'),
+      product('3'),
+    ]);
+
+    expect(summary).toEqual({ inserted: 2, updated: 1, upserted: 0, failed: 0, errors: [] });
+    expect([...table.keys()].sort()).toEqual(['1', '2', '3']);
+
+    const posts = requests.filter(request => request.method === 'POST');
+    expect(posts.map(request => request.rows)).toEqual([2, 1]);
+    expect(posts[0].url).toBe('/rest/v1/products?on_conflict=platform_id');
+    expect(posts[0].headers.prefer).toBe('resolution=merge-duplicates,return=minimal');
+    expect(posts[0].headers.authorization).toBe('Bearer service-key');
+  });
+
+  it('should send each platform_id once per run', async () => {
+    const summary = await newSink().upsert([product('1', 5), product('1', 7)]);
+
+    expect(summary.inserted).toBe(1);
+    expect(table.get('1')?.price).toBe(7);
+  });
+
+  it('should retry 5xx and 429 responses', async () => {
+    queued = [{ status: 503 }, { status: 429, headers: { 'retry-after': '0' } }];
+    const summary = await newSink().upsert([product('1')]);
+
+    expect(summary).toMatchObject({ inserted: 1, failed: 0 });
+    expect(requests.filter(request => request.method === 'POST')).toHaveLength(3);
+  });
+
+  it('should fail the batch when retries are exhausted', async () => {
+    queued = [{ status: 502 }, { status: 502 }];
+    const summary = await newSink({ maxRetries: 1 }).upsert([product('1'), product('2')]);
+
+    expect(summary).toMatchObject({ inserted: 0, failed: 2 });
+    expect(summary.errors[0]).toEqual({ platform_id: '1', status: 502, message: 'stub 502' });
+  });
+
+  it('should capture the error of each rejected row', async () => {
+    const summary = await newSink().upsert([product('1'), product('2', -1), product('3')]);
+
+    expect(summary).toMatchObject({ inserted: 2, updated: 0, failed: 1 });
+    expect(summary.errors).toEqual([
+      {
+        platform_id: '2',
+        status: 400,
+        message:
+          'new row for relation "products" violates check constraint "price_positive" - Failing row contains (2).',
+      },
+    ]);
+    expect([...table.keys()].sort()).toEqual(['1', '3']);
+  });
+
+  it('should still upsert the batch when the lookup fails', async () => {
+    failLookups = true;
+    const summary = await newSink().upsert([product('1'), product('2')]);
+
+    expect(summary).toEqual({ inserted: 0, updated: 0, upserted: 2, failed: 0, errors: [] });
+    expect([...table.keys()].sort()).toEqual(['1', '2']);
+  });
+
+  it('should look up existing rows in chunks of 100 ids', async () => {
+    table.set('150', { platform_id: '150' });
+    const products = Array.from({ length: 150 }, (_, i) => product(String(i + 1)));
+    const summary = await newSink().upsert(products);
+
+    expect(summary).toMatchObject({ inserted: 149, updated: 1, failed: 0 });
+    expect(requests.filter(request => request.method === 'GET')).toHaveLength(2);
+  });
+
+  it('should fail every row the table rejects', async () => {
+    const summary = await newSink({ key: 'wrong' }).upsert([product('1'), product('2')]);
+
+    expect(summary.failed).toBe(2);
+    expect(summary.errors.map(error => error.message)).toEqual([
+      'Invalid API key',
+      'Invalid API key',
+    ]);
+  });
+
+  it('should stop after one request on a 401', async () => {
+    const products = [product('1'), product('2'), product('3')];
+    const summary = await newSink({ key: 'wrong', batchSize: 1 }).upsert(products);
+
+    expect(requests).toHaveLength(1);
+    expect(summary).toMatchObject({ inserted: 0, upserted: 0, failed: 3 });
+    expect(summary.errors.map(error => error.status)).toEqual([401, 401, 401]);
+  });
+
+  it('should not split a batch rejected for a reason other than its rows', async () => {
+    queued = [{ status: 404 }];
+    const notFound = await newSink({ batchSize: 2 }).upsert([1, 2, 3].map(i => product(`${i}`)));
+
+    expect(notFound).toMatchObject({ failed: 3 });
+    expect(requests.filter(request => request.method === 'POST')).toHaveLength(1);
+
+    requests = [];
+    queued = [{ status: 413 }];
+    const tooLarge = await newSink().upsert([product('1'), product('2')]);
+
+    expect(tooLarge).toMatchObject({ failed: 2 });
+    expect(requests.filter(request => request.method === 'POST')).toHaveLength(1);
+  });
+
+  it('should report network errors without throwing', async () => {
+    const sink = createSupabaseSink({
+      url: 'http://127.0.0.1:1/rest/v1',
+      key: 'service-key',
+      maxRetries: 0,
+    });
+    const summary = await sink.upsert([product('1')]);
+
+    expect(summary.failed).toBe(1);
+    expect(summary.errors[0].status).toBe(null);
+  });
+});
+
+describe('resolveSupabaseOptions', () => {
+  it('should be null without a URL', () => {
+    expect(resolveSupabaseOptions({}, {})).toBe(null);
+  });
+
+  it('should fall back to environment variables', () => {
+    const env = { SUPABASE_URL: 'https://abc.supabase.co', SUPABASE_KEY: 'env-key' };
+    expect(resolveSupabaseOptions({ supabaseBatchSize: 100 }, env)).toEqual({
+      url: 'https://abc.supabase.co',
+      key: 'env-key',
+      table: 'products',
+      batchSize: 100,
+      maxRetries: 3,
+    });
+  });
+
+  it('should reject incomplete settings', () => {
+    expect(() => resolveSupabaseOptions({ supabaseUrl: 'https://abc.supabase.co' }, {})).toThrow(
+      'supabaseKey'
+    );
+    expect(() => resolveSupabaseOptions({ supabaseUrl: 'abc', supabaseKey: 'k' }, {})).toThrow(
+      'must be a URL'
+    );
+    expect(() =>
+      resolveSupabaseOptions(
+        { supabaseUrl: 'https://abc.supabase.co', supabaseKey: 'k', supabaseBatchSize: 0 },
+        {}
+      )
+    ).toThrow('supabaseBatchSize');
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Supabase/PostgREST sink: upserts mapped products on `platform_id` in batches, with retries
+ * on 429/5xx and per-row errors
+ */
+
+import { chunk, requestWithRetries } from './delivery.js';
+import type { MappedRow } from './fieldmapping.js';
+import type { HttpRequestOptions, HttpResponse } from './http.js';
+
+export interface SupabaseSinkOptions {
+  /** Project URL (https://<project>.supabase.co) or a PostgREST root with a path */
+  url: string;
+  /** Service role key, sent as `apikey` and bearer token */
+  key: string;
+  table?: string;
+  /** Rows per upsert request */
+  batchSize?: number;
+  /** Retries per request on 429, 5xx and network errors */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * A row PostgREST rejected, with its error
+ */
+export interface UpsertRowError {
+  platform_id: string;
+  /** HTTP status, null for network errors */
+  status: number | null;
+  message: string;
+}
+
+export interface UpsertSummary {
+  inserted: number;
+  updated: number;
+  /** Written rows whose lookup failed, so they are not known to be inserted or updated */
+  upserted: number;
+  failed: number;
+  errors: UpsertRowError[];
+}
+
+export interface SupabaseSink {
+  upsert(rows: MappedRow[]): Promise<UpsertSummary>;
+}
+
+/**
+ * Why a request failed: HTTP status (null for network errors) and message
+ */
+type RequestError = Omit<UpsertRowError, 'platform_id'>;
+
+export const DEFAULT_SUPABASE_BATCH_SIZE = 500;
+
+/**
+ * Statuses that reject the request itself (bad key, missing table or schema): every row
+ * would fail the same way, so the sink stops
+ */
+const FATAL_STATUSES = [401, 403, 404];
+
+/**
+ * Statuses PostgREST gives when rows break a constraint or type: a batch rejected with one is
+ * split to find the rows at fault
+ */
+const ROW_STATUSES = [400, 409, 422];
+
+const isFatal = (error: RequestError): boolean =>
+  error.status !== null && FATAL_STATUSES.includes(error.status);
+
+/**
+ * platform_ids per lookup request, keeping the `in.(...)` filter well under URL length limits
+ */
+const LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * REST endpoint of a table. A bare project URL gets Supabase's `/rest/v1` prefix; a URL
+ * with a path is used as the PostgREST root.
+ */
+export function restEndpoint(url: string, table: string): string {
+  const base = new URL(url);
+  const root = base.pathname === '/' ? '/rest/v1' : base.pathname.replace(/\/+$/, '');
+  return `${base.origin}${root}/${encodeURIComponent(table)}`;
+}
+
+/**
+ * PostgREST error body ({ message, details, hint }) as one line, else the raw body
+ */
+function errorMessage(response: HttpResponse): string {
+  try {
+    const body = JSON.parse(response.body);
+    const parts = [body.message, body.details, body.hint].filter(Boolean);
+    if (parts.length > 0) return parts.join(' - ');
+  } catch {
+    // Not JSON
+  }
+  return response.body.trim() || `HTTP ${response.status}`;
+}
+
+/**
+ * Create a sink that upserts rows into a Supabase/PostgREST table with `on_conflict=platform_id`.
+ * Rows that already exist are counted as updated, found with a lookup before each batch; the
+ * lookup only splits the counts, so when it fails the batch is still sent and its rows are
+ * counted as upserted. When a batch is rejected with a row error (400, 409, 422), its rows are
+ * sent one by one so each failing row gets its own error; on 401, 403 or 404 the remaining
+ * rows fail without further requests.
+ */
+export function createSupabaseSink(options: SupabaseSinkOptions): SupabaseSink {
+  const {
+    url,
+    key,
+    table = 'products',
+    batchSize = DEFAULT_SUPABASE_BATCH_SIZE,
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    timeoutMs,
+  } = options;
+  const endpoint = restEndpoint(url, table);
+  const retry = { maxRetries, baseDelayMs, maxDelayMs };
+  const headers = {
+    apikey: key,
+    authorization: `Bearer ${key}`,
+    'content-type': 'application/json',
+    accept: 'application/json',
+  };
+
+  const send = async (
+    target: string,
+    request: HttpRequestOptions
+  ): Promise<HttpResponse | RequestError> => {
+    try {
+      const requestHeaders = { ...headers, ...request.headers };
+      return await requestWithRetries(
+        target,
+        { timeoutMs, ...request, headers: requestHeaders },
+        retry
+      );
+    } catch (error) {
+      return { status: null, message: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  // platform_ids of the batch that are already in the table; null when a lookup fails, the
+  // error when the table rejects the request
+  const findExisting = async (ids: string[]): Promise<Set<string> | RequestError | null> => {
+    const existing = new Set<string>();
+    for (const lookup of chunk(ids, LOOKUP_BATCH_SIZE)) {
+      const list = lookup.map(id => `"${id.replace(/(["\\])/g, '\\$1')}"`).join(',');
+      const query = `select=platform_id&platform_id=in.(${encodeURIComponent(list)})`;
+      const response = await send(`${endpoint}?${query}`, { method: 'GET' });
+      if (!('body' in response)) {
+        return null;
+      }
+      if (response.status >= 300) {
+        const error = { status: response.status, message: errorMessage(response) };
+        return isFatal(error) ? error : null;
+      }
+      try {
+        const rows = JSON.parse(response.body) as Array<{ platform_id: string }>;
+        rows.forEach(row => existing.add(String(row.platform_id)));
+      } catch {
+        return null;
+      }
+    }
+    return existing;
+  };
+
+  // Upsert rows in one request; null on success, else the error
+  const post = async (rows: MappedRow[]): Promise<RequestError | null> => {
+    const response = await send(`${endpoint}?on_conflict=platform_id`, {
+      method: 'POST',
+      headers: { prefer: 'resolution=merge-duplicates,return=minimal' },
+      body: JSON.stringify(rows),
+    });
+    if (!('body' in response)) {
+      return response;
+    }
+    return response.status < 300
+      ? null
+      : { status: response.status, message: errorMessage(response) };
+  };
+
+  const upsert = async (rows: MappedRow[]): Promise<UpsertSummary> => {
+    const summary: UpsertSummary = { inserted: 0, updated: 0, upserted: 0, failed: 0, errors: [] };
+
+    // A row may be upserted only once per request; the last duplicate wins
+    const unique = [...new Map(rows.map(row => [row.platform_id, row])).values()];
+
+    const fail = (row: MappedRow, error: RequestError) => {
+      summary.failed++;
+      summary.errors.push({ platform_id: row.platform_id, ...error });
+    };
+
+    const batches = chunk(unique, batchSize);
+    for (const [index, batch] of batches.entries()) {
+      // The table rejects every request: fail this batch and the rest without sending them
+      const abort = (error: RequestError) =>
+        batches
+          .slice(index)
+          .flat()
+          .forEach(row => fail(row, error));
+
+      const existing = await findExisting(batch.map(row => row.platform_id));
+      if (existing && !(existing instanceof Set)) {
+        abort(existing);
+        break;
+      }
+      const count = (row: MappedRow) => {
+        if (!existing) {
+          summary.upserted++;
+        } else if (existing.has(row.platform_id)) {
+          summary.updated++;
+        } else {
+          summary.inserted++;
+        }
+      };
+
+      const error = await post(batch);
+      if (!error) {
+        batch.forEach(count);
+        continue;
+      }
+      if (isFatal(error)) {
+        abort(error);
+        break;
+      }
+      // Only row errors are worth finding the rows at fault; after exhausted retries or other
+      // statuses every row would fail again
+      if (error.status === null || !ROW_STATUSES.includes(error.status) || batch.length === 1) {
+        batch.forEach(row => fail(row, error));
+        continue;
+      }
+      for (const row of batch) {
+        const rowError = await post([row]);
+        if (rowError) {
+          fail(row, rowError);
+        } else {
+          count(row);
+        }
+      }
+    }
+
+    return summary;
+  };
+
+  return { upsert };
+}
+
+/**
+ * Sink options from the actor input, falling back to the SUPABASE_URL and SUPABASE_KEY
+ * environment variables. Null when no URL is configured; throws on incomplete settings.
+ */
+export function resolveSupabaseOptions(
+  input: {
+    supabaseUrl?: string;
+    supabaseKey?: string;
+    supabaseTable?: string;
+    supabaseBatchSize?: number;
+    maxRetries?: number;
+  },
+  env: Record<string, string | undefined> = process.env
+): SupabaseSinkOptions | null {
+  const url = input.supabaseUrl || env.SUPABASE_URL;
+  if (!url) {
+    return null;
+  }
+  try {
+    new URL(url);
+  } catch {
+    throw new Error(`Input "supabaseUrl" must be a URL, got ${JSON.stringify(url)}`);
+  }
+
+  const key = input.supabaseKey || env.SUPABASE_KEY;
+  if (!key) {
+    throw new Error('Input "supabaseKey" (or SUPABASE_KEY) is required when supabaseUrl is set');
+  }
+
+  const batchSize = input.supabaseBatchSize ?? DEFAULT_SUPABASE_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Input "supabaseBatchSize" must be a positive integer, got ${batchSize}`);
+  }
+
+  return {
+    url,
+    key,
+    table: input.supabaseTable || 'products',
+    batchSize,
+    maxRetries: input.maxRetries ?? 3,
+  };
+}
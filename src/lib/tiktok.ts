@@ -1,86 +1,260 @@
 /**
- * TikTok Shop scraping logic with Brazilian proxy support
+ * TikTok Shop scraping logic with regional residential proxy support
  */
 
-import { Actor, ProxyConfiguration } from 'apify';
+import { ProxyConfiguration } from 'apify';
+import { getMarketProfile } from './markets.js';
+import { crawlPages, PageRequest } from './pagination.js';
+import { parseProductDetail, parseSearchResponse, parseTrendingResponse } from './parsers.js';
+import type { TikTokItem } from './schema.js';
+import { createSessionPool, SessionPool } from './sessions.js';
+import { mapWithConcurrency } from './utils.js';
 
-interface ScrapingConfig {
+export interface ScrapingConfig {
   region: string;
   limit: number;
   isTrendingProducts: boolean;
   keyword: string;
   sortType: string;
   maxConcurrency: number;
+  trendingCategoryId?: string;
+  enrichDetails?: boolean;
+  maxRetries?: number;
   debug: boolean;
 }
 
-interface TikTokItem {
-  product_id?: string | number;
-  product_id_str?: string;
-  title?: string;
-  cover?: string;
-  img?: string[];
-  floor_price?: string | number;
-  ceiling_price?: string | number;
-  format_price?: string;
-  currency?: string;
-  warehouse_region?: string;
-  seller_product_info?: {
-    seller_name?: string;
-    seller_id?: string | number;
-    seller_id_str?: string;
-  };
-  product_rating?: string | number;
-  review_count?: string | number;
-  sold_count?: string | number;
-  global_sold_count?: string | number;
-  [key: string]: any;
+/**
+ * TikTok Shop web search endpoint (returns JSON, or the SSR search page when challenged)
+ */
+export const SEARCH_API_URL = 'https://shop.tiktok.com/api/shop/search/product_list';
+
+/**
+ * Maximum number of products TikTok returns per search page
+ */
+export const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Map actor sortType input to TikTok's `sort_type` query parameter
+ */
+const SORT_TYPE_PARAMS: Record<string, string> = {
+  RELEVANCE: '0',
+  BEST_SELLERS: '1',
+  PRICE_ASC: '2',
+  PRICE_DESC: '3',
+};
+
+/**
+ * Build the search URL for a keyword, sort order and page offset (or cursor)
+ */
+export function buildSearchUrl(
+  config: ScrapingConfig,
+  offset: number = 0,
+  cursor?: string
+): string {
+  const params = new URLSearchParams({
+    keyword: config.keyword,
+    region: config.region.toUpperCase(),
+    locale: getMarketProfile(config.region).locale,
+    sort_type: SORT_TYPE_PARAMS[config.sortType] ?? SORT_TYPE_PARAMS.RELEVANCE,
+    offset: String(offset),
+    count: String(SEARCH_PAGE_SIZE),
+  });
+
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  return `${SEARCH_API_URL}?${params.toString()}`;
+}
+
+/**
+ * TikTok Shop bestseller ranking endpoint used for trending runs
+ */
+export const TRENDING_API_URL = 'https://shop.tiktok.com/api/shop/trending/product_list';
+
+/**
+ * Build the trending/bestseller URL, optionally scoped to one category
+ */
+export function buildTrendingUrl(
+  config: ScrapingConfig,
+  offset: number = 0,
+  cursor?: string
+): string {
+  const params = new URLSearchParams({
+    region: config.region.toUpperCase(),
+    locale: getMarketProfile(config.region).locale,
+    offset: String(offset),
+    count: String(SEARCH_PAGE_SIZE),
+  });
+
+  if (config.trendingCategoryId) {
+    params.set('category_id', config.trendingCategoryId);
+  }
+
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  return `${TRENDING_API_URL}?${params.toString()}`;
+}
+
+/**
+ * TikTok Shop product detail (PDP) endpoint used by the enrichment pass
+ */
+export const PRODUCT_DETAIL_API_URL = 'https://shop.tiktok.com/api/shop/pdp_desktop/product_detail';
+
+/**
+ * Build the product detail URL for one product
+ */
+export function buildProductDetailUrl(config: ScrapingConfig, productId: string): string {
+  const params = new URLSearchParams({
+    product_id: productId,
+    region: config.region.toUpperCase(),
+    locale: getMarketProfile(config.region).locale,
+  });
+
+  return `${PRODUCT_DETAIL_API_URL}?${params.toString()}`;
+}
+
+/**
+ * Source tag attached to every item so downstream rows can tell runs apart
+ */
+export function sourceTag(config: ScrapingConfig): string {
+  return config.isTrendingProducts ? 'trending' : `search:${config.keyword}`;
+}
+
+/**
+ * Kind of raw TikTok response, used to pick a parser when recording/replaying
+ */
+export type ResponseKind = 'search' | 'trending' | 'detail';
+
+/**
+ * Called with every raw response body so runs can be recorded and replayed
+ */
+export type ResponseRecorder = (kind: ResponseKind, url: string, body: string) => Promise<void>;
+
+export interface ScrapeOptions {
+  recorder?: ResponseRecorder;
+  sessionPool?: SessionPool;
 }
 
 /**
- * Scrape TikTok Shop using the existing Apify actor with Brazilian proxy
- * 
- * Note: This implementation calls the existing TikTok Shop actor (BUvgCrr8PLK08VpbI)
- * but ensures all requests use Brazilian residential proxy for authentic BR results.
- * This approach is documented as acceptable per the requirements when direct scraping
- * is not practical, as long as we apply BR proxy and filter/normalize the data.
+ * Fetches a raw response body for one TikTok request
+ */
+type PageFetcher = (kind: ResponseKind, url: string) => Promise<string>;
+
+/**
+ * Scrape TikTok Shop (keyword search or trending ranking) through the market's residential proxy
  */
 export async function scrapeTikTokShop(
   config: ScrapingConfig, 
-  proxyConfiguration: ProxyConfiguration
+  proxyConfiguration: ProxyConfiguration,
+  options: ScrapeOptions = {}
 ): Promise<TikTokItem[]> {
-  
-  console.log('🔍 Starting TikTok Shop scraping with Brazilian proxy...');
-  
-  // Use direct scraping only since external actors don't support BR region
-  console.log('🎭 Using direct scraping for Brazilian market compatibility...');
-  return await directScrapeTikTokShop(config, proxyConfiguration);
+  const market = getMarketProfile(config.region);
+  console.log(`🔍 Starting TikTok Shop scraping with ${market.name} proxy...`);
+
+  // One proxy session per concurrent request - CRITICAL for regional results
+  const sessionPool = options.sessionPool ?? createLiveSessionPool(config, proxyConfiguration);
+  const fetchBody = createPageFetcher(sessionPool, config.debug, options.recorder);
+
+  let products = config.isTrendingProducts
+    ? await collectTrendingProducts(config, fetchBody)
+    : await searchTikTokShop(config, fetchBody);
+
+  if (config.enrichDetails) {
+    products = await enrichProductDetails(products, config, fetchBody);
+  }
+
+  const source = sourceTag(config);
+  return products.map(product => ({ ...product, source }));
 }
 
 /**
- * Direct scraping implementation for Brazilian TikTok Shop
- * Uses realistic Brazilian product data based on keyword
+ * Session pool with one regional residential proxy session per concurrent request
  */
-async function directScrapeTikTokShop(
+export function createLiveSessionPool(
   config: ScrapingConfig,
   proxyConfiguration: ProxyConfiguration
+): SessionPool {
+  return createSessionPool({
+    newProxyUrl: sessionId => proxyConfiguration.newUrl(sessionId),
+    poolSize: config.maxConcurrency,
+    maxRetries: config.maxRetries,
+  });
+}
+
+/**
+ * Create a fetcher that goes through the session pool, fails on non-200 responses
+ * and hands every successful body to the recorder
+ */
+function createPageFetcher(
+  sessionPool: SessionPool,
+  debug: boolean,
+  recorder?: ResponseRecorder
+): PageFetcher {
+  return async (kind, url) => {
+    if (debug) {
+      console.log('🔗 Fetching:', url);
+    }
+
+    const response = await sessionPool.request(url);
+    if (response.status !== 200) {
+      throw new Error(`TikTok Shop request failed with HTTP ${response.status}: ${url}`);
+    }
+
+    if (recorder) {
+      await recorder(kind, url, response.body);
+    }
+
+    return response.body;
+  };
+}
+
+/**
+ * Crawl search result pages for the configured keyword up to `limit`
+ */
+async function searchTikTokShop(
+  config: ScrapingConfig,
+  fetchBody: PageFetcher
+): Promise<TikTokItem[]> {
+  const products = await crawlPages({
+    limit: config.limit,
+    pageSize: SEARCH_PAGE_SIZE,
+    maxConcurrency: config.maxConcurrency,
+    label: `search "${config.keyword}"`,
+    fetchPage: async ({ offset, cursor }: PageRequest) =>
+      parseSearchResponse(await fetchBody('search', buildSearchUrl(config, offset, cursor))),
+  });
+
+  console.log(`📦 Collected ${products.length} unique products for keyword "${config.keyword}"`);
+
+  if (config.debug && products.length > 0) {
+    console.log('🔍 Sample product:', JSON.stringify(products[0], null, 2));
+  }
+
+  return products;
+}
+
+/**
+ * Crawl the trending/bestseller ranking up to `limit`
+ */
+async function collectTrendingProducts(
+  config: ScrapingConfig,
+  fetchBody: PageFetcher
 ): Promise<TikTokItem[]> {
-  
-  console.log('🎭 Starting TikTok Shop data generation for Brazilian market...');
-  
-  // Get proxy URL for this session - CRITICAL for Brazilian results
-  const proxyUrl = await proxyConfiguration.newUrl();
-  console.log('🌐 Using Brazilian residential proxy:', proxyUrl ? 'configured' : 'failed');
-
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-
-  // Generate realistic Brazilian products based on keyword
-  const products = await generateMockBrazilianProducts(config);
-  
-  console.log(`📦 Generated ${products.length} realistic Brazilian TikTok Shop products`);
-  console.log('🇧🇷 All products configured for Brazilian market with BRL currency');
-  
+  const scope = config.trendingCategoryId ? ` in category ${config.trendingCategoryId}` : '';
+  const products = await crawlPages({
+    limit: config.limit,
+    pageSize: SEARCH_PAGE_SIZE,
+    maxConcurrency: config.maxConcurrency,
+    label: `trending${scope}`,
+    fetchPage: async ({ offset, cursor }: PageRequest) =>
+      parseTrendingResponse(await fetchBody('trending', buildTrendingUrl(config, offset, cursor))),
+  });
+
+  console.log(`🔥 Collected ${products.length} unique trending products${scope}`);
+
   if (config.debug && products.length > 0) {
     console.log('🔍 Sample product:', JSON.stringify(products[0], null, 2));
   }
@@ -89,11 +263,44 @@ async function directScrapeTikTokShop(
 }
 
 /**
- * Generate mock Brazilian products as fallback
+ * Visit each product's detail endpoint and attach variants, description,
+ * category breadcrumb, brand, specs and image gallery as `detail`.
+ * Products whose detail request fails are kept without `detail`.
+ */
+async function enrichProductDetails(
+  products: TikTokItem[],
+  config: ScrapingConfig,
+  fetchBody: PageFetcher
+): Promise<TikTokItem[]> {
+  console.log(`🧾 Enriching ${products.length} products with detail pages...`);
+
+  let failed = 0;
+
+  const enriched = await mapWithConcurrency(products, config.maxConcurrency, async product => {
+    const productId = product.product_id_str || String(product.product_id);
+
+    try {
+      const body = await fetchBody('detail', buildProductDetailUrl(config, productId));
+      return { ...product, detail: parseProductDetail(body) };
+    } catch (error) {
+      failed++;
+      console.warn(`⚠️ Detail enrichment failed for product ${productId}:`, error);
+      return product;
+    }
+  });
+
+  const succeeded = products.length - failed;
+  console.log(`🧾 Enriched ${succeeded}/${products.length} products (${failed} failed)`);
+
+  return enriched;
+}
+
+/**
+ * Generate synthetic Brazilian products for offline runs (mock source)
  */
-async function generateMockBrazilianProducts(config: ScrapingConfig): Promise<TikTokItem[]> {
+export async function generateMockBrazilianProducts(config: ScrapingConfig): Promise<TikTokItem[]> {
   const products: TikTokItem[] = [];
-  const limit = Math.min(config.limit, 20);
+  const limit = config.limit;
 
   const realBrazilianProducts = [
     'Shampoo Pantene 400ml',
@@ -133,7 +340,7 @@ async function generateMockBrazilianProducts(config: ScrapingConfig): Promise<Ti
       sold_count: Math.floor(Math.random() * 500) + 5,
       global_sold_count: Math.floor(Math.random() * 1000) + 10,
       schema: `https://shop.tiktok.com/br/product/br_${i}`,
-      view_in_shop_button: `https://shop.tiktok.com/br/product/br_${i}`
+      view_in_shop_button: { schema: `https://shop.tiktok.com/br/product/br_${i}` }
     };
 
     products.push(product);
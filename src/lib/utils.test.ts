@@ -94,6 +94,12 @@ describe('isBrazilianWarehouse', () => {
     expect(isBrazilianWarehouse('')).toBe(false);
     expect(isBrazilianWarehouse(undefined)).toBe(false);
   });
+
+  it('should only match state codes as whole words', () => {
+    expect(isBrazilianWarehouse('Campinas - SP')).toBe(true);
+    expect(isBrazilianWarehouse('SEOUL')).toBe(false);
+    expect(isBrazilianWarehouse('MALAYSIA')).toBe(false);
+  });
 });
 
 describe('calculateTrendingScore', () => {
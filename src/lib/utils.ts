@@ -2,11 +2,31 @@
  * Utility functions for parsing prices, images, and other data transformations
  */
 
+import type { MarketProfile } from './markets.js';
+
+/**
+ * Number format of a market's prices
+ */
+export type PriceFormat = Pick<
+  MarketProfile,
+  'currencySymbols' | 'decimalSeparator' | 'thousandsSeparator'
+>;
+
+/**
+ * Amount read from a price string. `confidence` (0-1) reflects how ambiguous the separators were.
+ */
+export interface ParsedAmount {
+  amount: number | null;
+  confidence: number;
+}
+
 /**
  * Parse price from various formats to a numeric value
- * Handles formats like: "586671556", "586.671.556₫", "R$ 123,45", "$12.34"
+ * Handles formats like: "586671556", "586.671.556₫", "R$ 123,45", "$1,234.56"
+ * With a market `format`, separators are read the way that market writes prices.
+ * Returns 0 when nothing can be parsed; use parseAmount or parsePriceText to tell failures apart.
  */
-export function parsePrice(priceStr: string | number | undefined): number {
+export function parsePrice(priceStr: string | number | undefined, format?: PriceFormat): number {
   if (typeof priceStr === 'number') {
     return priceStr;
   }
@@ -15,23 +35,58 @@ export function parsePrice(priceStr: string | number | undefined): number {
     return 0;
   }
 
-  // Remove currency symbols and common separators
-  let cleaned = priceStr
-    .replace(/[R$₫$€£¥₹]/g, '') // Remove currency symbols
-    .replace(/[,\s]/g, '') // Remove commas and spaces
-    .replace(/\./g, ''); // Remove dots (assuming they're thousands separators)
-
-  // If the original had decimal places (like R$ 123,45), handle it
-  if (priceStr.includes(',') && !priceStr.includes('.')) {
-    // Likely Brazilian format: R$ 123,45
-    const parts = priceStr.split(',');
-    if (parts.length === 2 && parts[1].length <= 2) {
-      cleaned = parts[0].replace(/[^\d]/g, '') + '.' + parts[1].replace(/[^\d]/g, '');
+  return parseAmount(priceStr, format).amount ?? 0;
+}
+
+/**
+ * Read the first amount in a price string. When both "." and "," appear, the last one is the
+ * decimal separator. A single separator followed by exactly three digits is ambiguous
+ * ("1.234"): it is read with the market `format`, or as a thousands separator without one.
+ */
+export function parseAmount(text: string, format?: PriceFormat): ParsedAmount {
+  // Digit groups with separators; spaces and apostrophes only group thousands ("1 234,56")
+  const match = text.match(/\d+(?:[.,'\s\u00a0\u202f]\d+)*/);
+  if (!match) {
+    return { amount: null, confidence: 0 };
+  }
+
+  let token = '';
+  for (const part of match[0].split(/(?=['\s\u00a0\u202f]\d)/)) {
+    const grouped = /^['\s\u00a0\u202f]/.test(part);
+    if (grouped && !/^['\s\u00a0\u202f]\d{3}(\D|$)/.test(part)) break;
+    token += grouped ? part.slice(1) : part;
+  }
+
+  const separators: string[] = token.match(/[.,]/g) ?? [];
+  let decimal: string | null = null;
+  let confidence = 0.9;
+
+  if (new Set(separators).size === 2) {
+    decimal = token.lastIndexOf('.') > token.lastIndexOf(',') ? '.' : ',';
+    confidence = 0.95;
+  } else if (separators.length === 1) {
+    const separator = separators[0] as string;
+    const digitsAfter = token.length - token.indexOf(separator) - 1;
+    if (digitsAfter !== 3) {
+      decimal = separator;
+    } else if (format) {
+      decimal = format.thousandsSeparator === separator ? null : separator;
+      confidence = decimal ? 0.6 : 0.8;
+    } else {
+      confidence = 0.6;
     }
   }
 
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
+  const decimalIndex = decimal ? token.lastIndexOf(decimal) : token.length;
+  const integerGroups = token.slice(0, decimalIndex).split(/[.,]/);
+  const fraction = token.slice(decimalIndex + 1);
+  // Thousands groups other than the first must have three digits
+  if (integerGroups.slice(1).some(group => group.length !== 3)) {
+    confidence = Math.min(confidence, 0.4);
+  }
+
+  const amount = parseFloat(`${integerGroups.join('')}${fraction ? `.${fraction}` : ''}`);
+  return isNaN(amount) ? { amount: null, confidence: 0 } : { amount, confidence };
 }
 
 /**
@@ -83,6 +138,20 @@ export const BRAZILIAN_STATES = [
   'Brasil', 'Brazil', 'BR'
 ];
 
+/**
+ * Check if a region name appears in text as a whole word, ignoring case and accents.
+ * Two-letter codes such as "MA" or "SE" must not match inside "MALAYSIA" or "SEOUL".
+ */
+export function containsRegionName(text: string, name: string): boolean {
+  const fold = (value: string) =>
+    value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toUpperCase();
+  const escaped = fold(name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^A-Z0-9])${escaped}($|[^A-Z0-9])`).test(fold(text));
+}
+
 /**
  * Check if warehouse region indicates Brazil
  */
@@ -91,15 +160,13 @@ export function isBrazilianWarehouse(warehouseRegion?: string): boolean {
     return false;
   }
   
-  const region = warehouseRegion.toUpperCase();
-  return BRAZILIAN_STATES.some(state => 
-    region.includes(state.toUpperCase())
-  );
+  return BRAZILIAN_STATES.some(state => containsRegionName(warehouseRegion, state));
 }
 
 /**
  * Calculate a simple trending score based on available metrics
  * Formula: (normalized_sales * 0.6) + (normalized_rating * 0.4)
+ * Per-item fallback; runs replace it with the batch-relative score from scoring.ts
  */
 export function calculateTrendingScore(
   soldCount: number = 0, 
@@ -107,21 +174,26 @@ export function calculateTrendingScore(
   maxSold: number = 1000, 
   maxRating: number = 5
 ): number {
-  const normalizedSales = Math.min(soldCount / maxSold, 1);
-  const normalizedRating = Math.min(rating / maxRating, 1);
+  const normalizedSales = Math.min(Math.max(soldCount, 0) / maxSold, 1);
+  const normalizedRating = Math.min(Math.max(rating, 0) / maxRating, 1);
   
   return Math.round((normalizedSales * 0.6 + normalizedRating * 0.4) * 100) / 100;
 }
 
 /**
- * Normalize currency to BRL when Brazil signals are detected
+ * Normalize currency to the market currency (BRL by default) when market signals are detected
  */
 export function normalizeCurrency(
   originalCurrency?: string, 
   priceStr?: string, 
-  hasBrazilSignals: boolean = false
+  hasMarketSignals: boolean = false,
+  marketCurrency: string = 'BRL'
 ): string {
-  if (hasBrazilSignals || hasBrazilianCurrency(priceStr, originalCurrency)) {
+  if (hasMarketSignals) {
+    return marketCurrency;
+  }
+
+  if (hasBrazilianCurrency(priceStr, originalCurrency)) {
     return 'BRL';
   }
   
@@ -143,3 +215,27 @@ export function cleanPlatformId(productId: any): string {
   // Generate a fallback ID if none exists
   return `tiktok_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
+
+/**
+ * Map items through an async function with at most `concurrency` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSalesTracker,
+  loadSoldCountHistory,
+  ordersInWindow,
+  saveSoldCountHistory,
+  SoldCountSnapshot,
+} from './velocity.js';
+import { mapToSupabase } from './mapping.js';
+
+const HOUR = 3600;
+const NOW = Date.UTC(2024, 0, 15, 12) / 1000;
+const hoursAgo = (hours: number) => NOW - hours * HOUR;
+
+describe('ordersInWindow', () => {
+  it('should return null without earlier snapshots', () => {
+    expect(ordersInWindow([], [NOW, 500], 24)).toBe(null);
+  });
+
+  it('should take the delta when a snapshot is exactly 24h old', () => {
+    expect(ordersInWindow([[hoursAgo(24), 400]], [NOW, 500], 24)).toBe(100);
+  });
+
+  it('should interpolate the count at the window start', () => {
+    const snapshots: SoldCountSnapshot[] = [
+      [hoursAgo(36), 300],
+      [hoursAgo(12), 420],
+    ];
+    // Count 24h ago is halfway between 300 and 420
+    expect(ordersInWindow(snapshots, [NOW, 500], 24)).toBe(140);
+  });
+
+  it('should interpolate between the last snapshot and the current count', () => {
+    expect(ordersInWindow([[hoursAgo(30), 200]], [NOW, 500], 24)).toBe(240);
+  });
+
+  it('should scale a shorter history to the full window', () => {
+    expect(ordersInWindow([[hoursAgo(6), 470]], [NOW, 500], 24)).toBe(120);
+  });
+
+  it('should return null when the history is too short to extrapolate', () => {
+    expect(ordersInWindow([[NOW - 600, 499]], [NOW, 500], 24)).toBe(null);
+  });
+
+  it('should not report negative orders when the count is corrected down', () => {
+    expect(ordersInWindow([[hoursAgo(24), 520]], [NOW, 500], 24)).toBe(0);
+  });
+});
+
+describe('createSalesTracker', () => {
+  const now = new Date(NOW * 1000);
+
+  it('should compute 24h and 7d velocity from stored history', () => {
+    const tracker = createSalesTracker(
+      {
+        p1: [
+          [hoursAgo(24 * 7), 100],
+          [hoursAgo(24), 450],
+        ],
+      },
+      { now }
+    );
+
+    expect(tracker.observe('p1', 500)).toEqual({ orders_24h: 50, orders_7d: 400 });
+    expect(tracker.observe('unknown', 10)).toEqual({ orders_24h: null, orders_7d: null });
+    expect(tracker.observe('p1', null)).toEqual({ orders_24h: null, orders_7d: null });
+  });
+
+  it('should record current counts at most once per gap', () => {
+    const tracker = createSalesTracker(
+      { p1: [[hoursAgo(1), 450]], p2: [[hoursAgo(5), 10]] },
+      { now }
+    );
+    tracker.observe('p1', 460);
+    tracker.observe('p2', 20);
+    tracker.observe('p3', 5);
+
+    expect(tracker.history()).toEqual({
+      p1: [[hoursAgo(1), 450]],
+      p2: [
+        [hoursAgo(5), 10],
+        [NOW, 20],
+      ],
+      p3: [[NOW, 5]],
+    });
+  });
+
+  it('should peek at velocity without recording the count', () => {
+    const tracker = createSalesTracker({ p1: [[hoursAgo(24), 450]] }, { now });
+
+    expect(tracker.peek('p1', 500)).toEqual({ orders_24h: 50, orders_7d: 50 * 7 });
+    tracker.peek('p2', 10);
+    expect(tracker.history()).toEqual({ p1: [[hoursAgo(24), 450]] });
+  });
+
+  it('should not compare duplicates of one run against each other', () => {
+    const tracker = createSalesTracker({}, { now });
+    tracker.observe('p1', 100);
+    expect(tracker.observe('p1', 100).orders_24h).toBe(null);
+  });
+
+  it('should prune old snapshots but keep the newest one before the cutoff', () => {
+    const tracker = createSalesTracker(
+      {
+        p1: [
+          [hoursAgo(24 * 10), 1],
+          [hoursAgo(24 * 9), 2],
+          [hoursAgo(24 * 2), 3],
+        ],
+        stale: [[hoursAgo(24 * 20), 1]],
+      },
+      { now }
+    );
+
+    expect(tracker.history()).toEqual({
+      p1: [
+        [hoursAgo(24 * 9), 2],
+        [hoursAgo(24 * 2), 3],
+      ],
+    });
+  });
+
+  it('should round-trip through the key-value store', async () => {
+    const records: Record<string, any> = {};
+    const store = {
+      getValue: async (key: string) => records[key] ?? null,
+      setValue: async (key: string, value: unknown) => {
+        records[key] = value;
+      },
+    };
+
+    expect(await loadSoldCountHistory(store)).toEqual({});
+    await saveSoldCountHistory(store, { p1: [[NOW, 5]] });
+    expect(await loadSoldCountHistory(store)).toEqual({ p1: [[NOW, 5]] });
+  });
+});
+
+describe('mapToSupabase order velocity', () => {
+  it('should fill orders_24h from the sales tracker and keep the lifetime count', () => {
+    const salesTracker = createSalesTracker(
+      { '1001': [[hoursAgo(24), 1400]] },
+      { now: new Date(NOW * 1000) }
+    );
+    const item = {
+      product_id_str: '1001',
+      title: 'Shampoo',
+      floor_price: '24.90',
+      sold_count: 1520,
+    };
+    const mapped = mapToSupabase(item, { salesTracker });
+
+    expect(mapped.orders_24h).toBe(120);
+    expect(mapped.orders_7d).toBe(840);
+    expect(mapped.sold_count_total).toBe(1520);
+  });
+});
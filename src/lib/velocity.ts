@@ -0,0 +1,170 @@
+/**
+ * Order velocity: orders in the last 24h / 7d derived from sold-count deltas between runs
+ */
+
+import type { KeyValueStore } from 'apify';
+
+/**
+ * One stored sold count: [unix seconds, lifetime sold count]
+ */
+export type SoldCountSnapshot = [number, number];
+
+/**
+ * Sold-count snapshots per platform_id, oldest first
+ */
+export type SoldCountHistory = Record<string, SoldCountSnapshot[]>;
+
+export interface OrderVelocity {
+  orders_24h: number | null;
+  orders_7d: number | null;
+}
+
+export interface SalesTrackerOptions {
+  /** Minimum time between two stored snapshots of a product */
+  minSnapshotGapHours?: number;
+  /** Snapshots older than this are dropped, except the newest one before the cutoff */
+  retentionDays?: number;
+  /** Shortest history that is extrapolated to a full window */
+  minSpanHours?: number;
+  now?: Date;
+}
+
+export interface SalesTracker {
+  /** Velocity of a product from earlier runs; records the current sold count */
+  observe(platformId: string, soldCount: number | null): OrderVelocity;
+  /** Velocity like observe, without recording anything */
+  peek(platformId: string, soldCount: number | null): OrderVelocity;
+  /** Pruned history including this run's snapshots, to persist for the next run */
+  history(): SoldCountHistory;
+}
+
+/**
+ * Key of the sold-count history in the sales key-value store
+ */
+export const SOLD_COUNTS_KEY = 'SOLD_COUNTS';
+
+const HOUR = 3600;
+
+/**
+ * Orders within `windowHours` before `now`, from earlier snapshots and the current sold count.
+ * The count at the window start is interpolated between the two snapshots around it. When
+ * the history is shorter than the window, the observed rate is scaled up to the full window.
+ * Returns null without usable history.
+ */
+export function ordersInWindow(
+  snapshots: SoldCountSnapshot[],
+  current: SoldCountSnapshot,
+  windowHours: number,
+  minSpanHours: number = 1
+): number | null {
+  const [now, sold] = current;
+  const earlier = snapshots.filter(([at]) => at < now);
+  if (earlier.length === 0) {
+    return null;
+  }
+
+  const windowStart = now - windowHours * HOUR;
+  const [firstAt, firstSold] = earlier[0];
+
+  let orders: number;
+  if (firstAt > windowStart) {
+    const span = now - firstAt;
+    if (span < minSpanHours * HOUR) {
+      return null;
+    }
+    orders = ((sold - firstSold) * (windowHours * HOUR)) / span;
+  } else {
+    const points = [...earlier, current];
+    const index = points.findIndex(([at]) => at > windowStart) - 1;
+    const [fromAt, fromSold] = points[index];
+    const [toAt, toSold] = points[index + 1];
+    const soldAtStart = fromSold + ((toSold - fromSold) * (windowStart - fromAt)) / (toAt - fromAt);
+    orders = sold - soldAtStart;
+  }
+
+  // Sold counts shown by TikTok are sometimes corrected downwards
+  return Math.max(0, Math.round(orders));
+}
+
+/**
+ * Create a tracker over the history stored by previous runs
+ */
+export function createSalesTracker(
+  previous: SoldCountHistory,
+  options: SalesTrackerOptions = {}
+): SalesTracker {
+  const {
+    minSnapshotGapHours = 3,
+    retentionDays = 8,
+    minSpanHours = 1,
+    now: nowDate = new Date(),
+  } = options;
+  const now = Math.floor(nowDate.getTime() / 1000);
+  const next: SoldCountHistory = { ...previous };
+
+  const peek = (platformId: string, soldCount: number | null): OrderVelocity => {
+    if (soldCount === null) {
+      return { orders_24h: null, orders_7d: null };
+    }
+
+    const snapshots = previous[platformId] ?? [];
+    const current: SoldCountSnapshot = [now, soldCount];
+    return {
+      orders_24h: ordersInWindow(snapshots, current, 24, minSpanHours),
+      orders_7d: ordersInWindow(snapshots, current, 24 * 7, minSpanHours),
+    };
+  };
+
+  const observe = (platformId: string, soldCount: number | null): OrderVelocity => {
+    const velocity = peek(platformId, soldCount);
+    if (soldCount === null) {
+      return velocity;
+    }
+
+    const current: SoldCountSnapshot = [now, soldCount];
+    const stored = next[platformId] ?? [];
+    const last = stored[stored.length - 1];
+    if (!last || now - last[0] >= minSnapshotGapHours * HOUR) {
+      next[platformId] = [...stored, current];
+    }
+
+    return velocity;
+  };
+
+  const history = (): SoldCountHistory => {
+    const cutoff = now - retentionDays * 24 * HOUR;
+    const pruned: SoldCountHistory = {};
+
+    for (const [platformId, snapshots] of Object.entries(next)) {
+      // Keep the newest snapshot before the cutoff so the oldest window can still interpolate
+      const firstKept = Math.max(0, snapshots.findIndex(([at]) => at >= cutoff) - 1);
+      const kept = snapshots.some(([at]) => at >= cutoff) ? snapshots.slice(firstKept) : [];
+      if (kept.length > 0) {
+        pruned[platformId] = kept;
+      }
+    }
+
+    return pruned;
+  };
+
+  return { observe, peek, history };
+}
+
+/**
+ * Load the sold-count history stored by previous runs
+ */
+export async function loadSoldCountHistory(
+  store: Pick<KeyValueStore, 'getValue'>
+): Promise<SoldCountHistory> {
+  return (await store.getValue<SoldCountHistory>(SOLD_COUNTS_KEY)) ?? {};
+}
+
+/**
+ * Persist the sold-count history for the next run
+ */
+export async function saveSoldCountHistory(
+  store: Pick<KeyValueStore, 'setValue'>,
+  history: SoldCountHistory
+): Promise<void> {
+  await store.setValue(SOLD_COUNTS_KEY, history);
+}
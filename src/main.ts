@@ -1,91 +1,548 @@
 import { Actor } from 'apify';
-import { scrapeTikTokShop } from './lib/tiktok.js';
-import { filterBrazil } from './lib/filters.js';
+import {
+  collectItems,
+  createKeyValueRecorder,
+  createLiveSource,
+  createMockSource,
+  createReplaySource,
+  ProductSource,
+  SourceName,
+} from './lib/sources.js';
+import { DropReason, filterBrazilDetailed } from './lib/filters.js';
+import { RuleSet, validateRules } from './lib/rules.js';
+import { resolveMinConfidence, scoreMarketSignals } from './lib/signals.js';
 import { mapToSupabase } from './lib/mapping.js';
+import { getMarketProfile, MarketProfile } from './lib/markets.js';
+import { buildValidationReport, validateItems } from './lib/schema.js';
+import {
+  EmitMode,
+  loadFingerprints,
+  restoreFingerprints,
+  saveFingerprints,
+  shouldEmit,
+  trackChanges,
+} from './lib/incremental.js';
+import { buildPriceHistoryRow } from './lib/history.js';
+import { CategoryTable, createCategoryResolver, loadCategoryTable } from './lib/categories.js';
+import { createCurrencyConverter, loadRateTable, RateTable } from './lib/currency.js';
+import { createAffiliateResolver, loadAffiliateTable } from './lib/affiliate.js';
+import {
+  createSinks,
+  OutputRecord,
+  redactSinkConfig,
+  resolveSinks,
+  SinkConfig,
+  writeToSinks,
+} from './lib/sinks.js';
+import { DEFAULT_DELIVERY_POLICY } from './lib/delivery.js';
+import { buildProfileOutput, entityDatasetName, getMappingProfile } from './lib/profiles.js';
+import { applyFieldMapping, FieldMappingSpec, resolveFieldMapping } from './lib/fieldmapping.js';
+import {
+  buildTableSchema,
+  checkTableDrift,
+  createTableSql,
+  describeDrift,
+  diffTableSchema,
+  hasDrift,
+  migrationSql,
+  parseTableDescription,
+  TableDescription,
+  TableSchema,
+} from './lib/ddl.js';
+import { createSalesTracker, loadSoldCountHistory, saveSoldCountHistory } from './lib/velocity.js';
+import {
+  Normalization,
+  resolveNormalization,
+  resolveWeights,
+  scoreProducts,
+  ScoringWeights,
+} from './lib/scoring.js';
+import {
+  clusterProducts,
+  loadClusterIds,
+  resolveClusterSimilarity,
+  saveClusterIds,
+} from './lib/clustering.js';
 
 interface ActorInput {
   region?: string;
   limit?: number;
   isTrendingProducts?: boolean;
+  trendingCategoryId?: string;
   keyword?: string;
   sortType?: 'PRICE_ASC' | 'PRICE_DESC' | 'BEST_SELLERS' | 'RELEVANCE';
   minPrice?: number;
   maxPrice?: number;
   requireBrazilSignals?: boolean;
+  minBrazilConfidence?: number;
   dropIfNoImage?: boolean;
+  rules?: RuleSet;
+  rejectedDatasetName?: string;
   maxConcurrency?: number;
+  maxRetries?: number;
+  enrichDetails?: boolean;
+  source?: SourceName;
+  replayDir?: string;
+  recordResponses?: boolean;
+  emitMode?: EmitMode;
+  fingerprintStoreName?: string;
+  priceHistoryDatasetName?: string;
+  categoryMapping?: CategoryTable;
+  categoryStoreName?: string;
+  exchangeRates?: RateTable;
+  currencyStoreName?: string;
+  targetCurrency?: string;
+  affiliateData?: Record<string, unknown>[];
+  affiliateCsv?: string;
+  affiliateStoreName?: string;
+  salesStoreName?: string;
+  scoringWeights?: Partial<ScoringWeights>;
+  scoreNormalization?: Normalization;
+  clusterSimilarity?: number;
+  clusterDatasetName?: string;
+  clusterStoreName?: string;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  supabaseTable?: string;
+  supabaseBatchSize?: number;
+  sinks?: SinkConfig[];
+  sinkBatchSize?: number;
+  mappingProfile?: string;
+  entityDatasetPrefix?: string;
+  fieldMapping?: FieldMappingSpec;
+  mode?: 'scrape' | 'schema';
+  tableDescription?: unknown;
   debug?: boolean;
 }
 
+/**
+ * Create the product source selected by the `source` input
+ */
+async function createProductSource(config: {
+  source: SourceName;
+  replayDir?: string;
+  recordResponses: boolean;
+  market: MarketProfile;
+}): Promise<ProductSource> {
+  if (config.source === 'mock') {
+    console.log('🎭 Using synthetic mock products (no network)');
+    return createMockSource();
+  }
+
+  if (config.source === 'replay') {
+    if (!config.replayDir) {
+      throw new Error('Input "replayDir" is required when source is "replay"');
+    }
+    return createReplaySource(config.replayDir);
+  }
+
+  // Create proxy configuration for the market's residential proxies
+  // This is critical for getting regional results and avoiding captcha
+  const { market } = config;
+  const proxyConfiguration = await Actor.createProxyConfiguration({
+    groups: ['RESIDENTIAL'],
+    countryCode: market.proxyCountry,
+  });
+
+  if (!proxyConfiguration) {
+    throw new Error(`Failed to create proxy configuration for ${market.name}`);
+  }
+
+  console.log(`🌎 Using ${market.name} residential proxy (${market.proxyCountry})`);
+
+  if (config.recordResponses) {
+    console.log('📼 Recording raw TikTok responses to the default key-value store');
+    const store = await Actor.openKeyValueStore();
+    return createLiveSource(proxyConfiguration, createKeyValueRecorder(store));
+  }
+
+  return createLiveSource(proxyConfiguration);
+}
+
+/**
+ * Schema mode: store the table SQL and, given the live table, its drift and migration
+ */
+async function generateSchemaSql(
+  schema: TableSchema,
+  description: TableDescription | null
+): Promise<void> {
+  const sql = createTableSql(schema);
+  await Actor.setValue('SCHEMA_SQL', sql, { contentType: 'application/sql' });
+  console.log(`🧱 Table SQL for ${schema.table} (SCHEMA_SQL):\n\n${sql}\n`);
+
+  if (!description) {
+    return;
+  }
+  const drift = diffTableSchema(schema, description);
+  const migration = migrationSql(schema, drift);
+  await Actor.setValue('SCHEMA_DRIFT', drift);
+  await Actor.setValue('MIGRATION_SQL', migration, { contentType: 'application/sql' });
+
+  if (!hasDrift(drift)) {
+    console.log(`✅ Table ${schema.table} matches the field mapping`);
+    return;
+  }
+  console.log(`⚠️ Table ${schema.table} has drifted from the field mapping:`);
+  for (const line of describeDrift(drift)) {
+    console.log(`   ${line}`);
+  }
+  if (migration) {
+    console.log(`\n🛠️ Migration (MIGRATION_SQL):\n\n${migration}\n`);
+  }
+}
+
 Actor.main(async () => {
   const input = await Actor.getInput<ActorInput>();
   
   // Set defaults
+  const region = input?.region || 'BR';
   const config = {
-    region: input?.region || 'BR',
+    region,
+    market: getMarketProfile(region),
     limit: input?.limit || 20,
     isTrendingProducts: input?.isTrendingProducts || false,
+    trendingCategoryId: input?.trendingCategoryId || undefined,
     keyword: input?.keyword || 'baby',
     sortType: input?.sortType || 'RELEVANCE',
     minPrice: input?.minPrice,
     maxPrice: input?.maxPrice,
     requireBrazilSignals: input?.requireBrazilSignals ?? true,
+    minBrazilConfidence: resolveMinConfidence(input?.minBrazilConfidence),
     dropIfNoImage: input?.dropIfNoImage ?? true,
+    rules: validateRules(input?.rules),
+    rejectedDatasetName: input?.rejectedDatasetName || 'tiktok-shop-rejected',
     maxConcurrency: input?.maxConcurrency || 5,
+    maxRetries: input?.maxRetries ?? 3,
+    enrichDetails: input?.enrichDetails || false,
+    source: input?.source || 'live',
+    replayDir: input?.replayDir,
+    recordResponses: input?.recordResponses || false,
+    emitMode: input?.emitMode || 'all',
+    fingerprintStoreName: input?.fingerprintStoreName || 'tiktok-shop-fingerprints',
+    priceHistoryDatasetName: input?.priceHistoryDatasetName || 'tiktok-shop-price-history',
+    categoryMapping: input?.categoryMapping,
+    categoryStoreName: input?.categoryStoreName || 'tiktok-shop-categories',
+    exchangeRates: input?.exchangeRates,
+    currencyStoreName: input?.currencyStoreName || 'tiktok-shop-currency',
+    targetCurrency: (input?.targetCurrency || getMarketProfile(region).currency).toUpperCase(),
+    affiliateData: input?.affiliateData ?? input?.affiliateCsv,
+    affiliateStoreName: input?.affiliateStoreName || 'tiktok-shop-affiliate',
+    salesStoreName: input?.salesStoreName || 'tiktok-shop-sales-history',
+    scoringWeights: resolveWeights(input?.scoringWeights),
+    scoreNormalization: resolveNormalization(input?.scoreNormalization),
+    clusterSimilarity: resolveClusterSimilarity(input?.clusterSimilarity),
+    clusterDatasetName: input?.clusterDatasetName || 'tiktok-shop-clusters',
+    clusterStoreName: input?.clusterStoreName || 'tiktok-shop-cluster-ids',
+    sinks: resolveSinks(input ?? {}),
+    sinkBatchSize: input?.sinkBatchSize || DEFAULT_DELIVERY_POLICY.batchSize,
+    mappingProfile: input?.mappingProfile ? getMappingProfile(input.mappingProfile) : null,
+    entityDatasetPrefix: input?.entityDatasetPrefix || 'tiktok-shop',
+    fieldMapping: resolveFieldMapping(input?.fieldMapping),
+    mode: input?.mode || 'scrape',
+    tableDescription:
+      input?.tableDescription === undefined || input.tableDescription === null
+        ? null
+        : parseTableDescription(input.tableDescription),
     debug: input?.debug || false,
   };
 
   if (config.debug) {
-    console.log('Actor input configuration:', config);
+    const sinks = config.sinks.map(redactSinkConfig);
+    const mappingProfile = config.mappingProfile?.name ?? null;
+    console.log('Actor input configuration:', { ...config, sinks, mappingProfile });
   }
 
-  // Create proxy configuration for Brazil residential proxies
-  // This is critical for getting Brazilian results and avoiding captcha
-  const proxyConfiguration = await Actor.createProxyConfiguration({
-    groups: ['RESIDENTIAL'],
-    countryCode: 'BR',
-  });
+  // The upsert table: the Supabase sink's, else the supabaseTable input
+  const supabaseSink = config.sinks.find(sink => sink.type === 'supabase');
+  const tableSchema = buildTableSchema(
+    config.fieldMapping,
+    supabaseSink?.table || input?.supabaseTable || 'products'
+  );
+  if (config.mode === 'schema') {
+    await generateSchemaSql(tableSchema, config.tableDescription);
+    return;
+  }
 
-  if (!proxyConfiguration) {
-    throw new Error('Failed to create proxy configuration for Brazil');
+  // Compare with the live table before scraping so drift that breaks upserts fails the run,
+  // not every upsert; missing indexes only slow queries down
+  if (config.tableDescription) {
+    const warnings = checkTableDrift(tableSchema, config.tableDescription);
+    if (warnings.length === 0) {
+      console.log(`✅ Table ${tableSchema.table} matches the field mapping`);
+    }
+    for (const warning of warnings) {
+      console.warn(`⚠️ Table ${tableSchema.table}: ${warning}, run with mode "schema" for the SQL`);
+    }
+  }
+
+  const source = await createProductSource(config);
+
+  // Load the category mapping table up front so an invalid table fails before scraping
+  const categoryStore = await Actor.openKeyValueStore(config.categoryStoreName);
+  const categoryResolver = createCategoryResolver(
+    await loadCategoryTable(config.categoryMapping, categoryStore)
+  );
+
+  // Load exchange rates up front so an invalid table or unknown target currency fails early
+  const currencyStore = await Actor.openKeyValueStore(config.currencyStoreName);
+  const converter = createCurrencyConverter(
+    await loadRateTable(config.exchangeRates, currencyStore)
+  );
+  const { targetCurrency } = config;
+  if (!converter.canConvert(config.market.currency, targetCurrency)) {
+    throw new Error(
+      `Exchange rates have no rate for ${config.market.currency} and ${targetCurrency}`
+    );
   }
 
-  console.log('🇧🇷 Using Brazilian residential proxy for authentic BR results');
+  // Load the affiliate export up front so a malformed export fails before scraping
+  const affiliateStore = await Actor.openKeyValueStore(config.affiliateStoreName);
+  const affiliateResolver = createAffiliateResolver(
+    await loadAffiliateTable(config.affiliateData, affiliateStore, config.market)
+  );
+  if (affiliateResolver.size > 0) {
+    console.log(`🤝 Loaded affiliate commissions for ${affiliateResolver.size} products`);
+  }
+
+  // Open the output sinks up front so a misconfigured sink fails before scraping
+  const sinks = await createSinks(config.sinks, {
+    openDataset: name => Actor.openDataset(name),
+    openKeyValueStore: name => Actor.openKeyValueStore(name),
+    policy: { batchSize: config.sinkBatchSize, maxRetries: config.maxRetries },
+  });
+  console.log(`📤 Writing to ${sinks.map(sink => sink.name).join(', ')}`);
 
   try {
     // Step 1: Scrape TikTok Shop
-    console.log(`🔍 Starting TikTok Shop scraping for ${config.isTrendingProducts ? 'trending products' : `keyword: "${config.keyword}"`}`);
-    const rawItems = await scrapeTikTokShop(config, proxyConfiguration);
-    console.log(`📦 Scraped ${rawItems.length} raw items`);
+    const target = config.isTrendingProducts
+      ? `trending products${config.trendingCategoryId ? ` (category ${config.trendingCategoryId})` : ''}`
+      : `keyword: "${config.keyword}"`;
+    console.log(`🔍 Starting TikTok Shop scraping for ${target}`);
+    const scrapedItems = await collectItems(source.stream(config));
+    console.log(`📦 Scraped ${scrapedItems.length} raw items from ${source.name} source`);
+
+    // Step 1b: Validate raw items; invalid ones are set aside with their field errors
+    const validation = validateItems(scrapedItems, config.market);
+    const validationReport = buildValidationReport(validation);
+    const rawItems = validation.valid;
+    if (validation.invalid.length > 0) {
+      const invalidDataset = await Actor.openDataset('invalid');
+      await invalidDataset.pushData(validation.invalid);
+      const count = validation.invalid.length;
+      console.log(`🚫 ${count} items failed validation (see "invalid" dataset)`);
+    }
+    await Actor.setValue('VALIDATION_REPORT', validationReport);
 
-    // Step 2: Filter for Brazil signals
-    const filteredItems = filterBrazil(rawItems, config);
-    console.log(`🇧🇷 After Brazil filtering: ${filteredItems.length} items kept`);
+    // Step 2: Filter for market signals; rejected items are kept with the reason they were dropped.
+    // Rules on mapped fields use the resolvers and sold count history of the mapping stage
+    const { market } = config;
+    const salesStore = await Actor.openKeyValueStore(config.salesStoreName);
+    const salesTracker = createSalesTracker(await loadSoldCountHistory(salesStore));
+    const filterResult = filterBrazilDetailed(rawItems, {
+      ...config,
+      converter,
+      categoryResolver,
+      salesTracker,
+      affiliateResolver,
+    });
+    const filteredItems = filterResult.kept;
+    console.log(`🌎 After ${market.name} filtering: ${filteredItems.length} items kept`);
+    if (filterResult.rejected.length > 0) {
+      const rejectedDataset = await Actor.openDataset(config.rejectedDatasetName);
+      await rejectedDataset.pushData(filterResult.rejected);
+    }
 
-    // Step 3: Map to Supabase schema
-    const mappedItems = filteredItems.map(item => mapToSupabase(item));
+    // Step 3: Map to Supabase schema, with order velocity from the sold counts of earlier runs
+    const mappedItems = filteredItems.map(item =>
+      mapToSupabase(item, {
+        market,
+        categoryResolver,
+        salesTracker,
+        minBrazilConfidence: config.minBrazilConfidence,
+        converter,
+        targetCurrency,
+        affiliateResolver,
+      })
+    );
+    await saveSoldCountHistory(salesStore, salesTracker.history());
     console.log(`🗄️ Mapped ${mappedItems.length} items to Supabase schema`);
 
-    // Step 4: Save to dataset with both raw and mapped data
+    // Step 3a: Score trending relative to the whole batch
+    const scoreBreakdowns = scoreProducts(mappedItems, {
+      weights: config.scoringWeights,
+      normalization: config.scoreNormalization,
+    });
+    mappedItems.forEach((product, i) => {
+      product.trending_score = scoreBreakdowns[i].score;
+    });
+
+    // Step 3b: Cluster listings of the same product across sellers, keeping ids between runs
+    const clusterStore = await Actor.openKeyValueStore(config.clusterStoreName);
+    const clustering = clusterProducts(filteredItems, mappedItems, {
+      similarity: config.clusterSimilarity,
+      previousIds: await loadClusterIds(clusterStore),
+    });
+    mappedItems.forEach((product, i) => {
+      product.cluster_id = clustering.clusterIds[i];
+    });
+    await saveClusterIds(clusterStore, clustering.ids);
+    const clusterDataset = await Actor.openDataset(config.clusterDatasetName);
+    await clusterDataset.pushData(clustering.clusters);
+    const clusterCount = clustering.clusters.length;
+    console.log(`🧩 Grouped ${mappedItems.length} listings into ${clusterCount} clusters`);
+
+    const unmappedCategories = categoryResolver.unmapped();
+    await Actor.setValue('UNMAPPED_CATEGORIES', unmappedCategories);
+    for (const category of unmappedCategories.slice(0, 10)) {
+      const label = category.path || category.tiktok_category_id;
+      console.log(`🏷️ Unmapped category ${label} (${category.count} items)`);
+    }
+
+    // Step 3c: Snapshot prices of every product into the persistent price history dataset
+    const capturedAt = new Date();
+    const historyRows = filteredItems.map((item, i) =>
+      buildPriceHistoryRow(item, mappedItems[i], { market, capturedAt, converter })
+    );
+    const historyDataset = await Actor.openDataset(config.priceHistoryDatasetName);
+    await historyDataset.pushData(historyRows);
+    console.log(`📈 Recorded ${historyRows.length} price snapshots`);
+
+    // Step 4: Compare with the fingerprints of previous runs
+    const fingerprintStore = await Actor.openKeyValueStore(config.fingerprintStoreName);
+    const previousFingerprints = await loadFingerprints(fingerprintStore);
+    const tracked = trackChanges(mappedItems, previousFingerprints);
+    const { changes, summary: changeSummary } = tracked;
+
+    // Step 5: Build records with both raw and mapped data, as selected by emitMode; the mapped
+    // row has the columns of the field mapping
+    const run = {
+      scraped_at: capturedAt.toISOString(),
+      region: market.region,
+      source: source.name,
+    };
+    const outputRecords: OutputRecord[] = [];
+    const emitted: number[] = [];
     for (let i = 0; i < filteredItems.length; i++) {
-      await Actor.pushData({
+      if (!shouldEmit(config.emitMode, changes[i].change_type)) continue;
+      emitted.push(i);
+      outputRecords.push({
         raw: filteredItems[i],
-        mapped: mappedItems[i],
+        mapped: applyFieldMapping(config.fieldMapping, {
+          raw: filteredItems[i],
+          mapped: mappedItems[i],
+          run,
+          market,
+        }),
+        product_price_history: historyRows[i],
+        score_breakdown: scoreBreakdowns[i],
+        market_signals: scoreMarketSignals(filteredItems[i], market),
+        ...changes[i],
       });
     }
 
+    // Step 5b: Write the records of the mapping profile, one dataset per record type
+    const entityCounts: Array<[string, number]> = [];
+    if (config.mappingProfile) {
+      const profileOutput = buildProfileOutput(
+        config.mappingProfile,
+        emitted.map(i => filteredItems[i]),
+        emitted.map(i => mappedItems[i])
+      );
+      for (const { name } of config.mappingProfile.entities) {
+        const rows = profileOutput[name] ?? [];
+        const datasetName = entityDatasetName(config.entityDatasetPrefix, name);
+        const dataset = await Actor.openDataset(datasetName);
+        await dataset.pushData(rows);
+        entityCounts.push([name, rows.length]);
+        console.log(`🗂️ Wrote ${rows.length} ${name} records to dataset "${datasetName}"`);
+      }
+    }
+
+    // Step 6: Write the emitted records to every sink
+    const sinkResults = await writeToSinks(sinks, outputRecords);
+    await Actor.setValue('SINK_REPORT', sinkResults);
+    for (const result of sinkResults) {
+      for (const error of result.errors.slice(0, 10)) {
+        const key = error.key ? ` (${error.key})` : '';
+        console.log(`⚠️ Sink ${result.name} failed${key}: ${error.message}`);
+      }
+    }
+
+    // Save fingerprints once the sinks are closed; rows a sink failed to write keep their
+    // previous fingerprint so incremental runs send them again
+    const failedIds = new Set(sinkResults.flatMap(result => result.failedIds));
+    await saveFingerprints(
+      fingerprintStore,
+      restoreFingerprints(tracked.fingerprints, previousFingerprints, failedIds)
+    );
+
     // Summary log
     console.log('\n📊 SCRAPING SUMMARY:');
-    console.log(`   Total raw items: ${rawItems.length}`);
-    console.log(`   Kept after Brazil filter: ${filteredItems.length}`);
+    console.log(`   Total raw items: ${scrapedItems.length}`);
+    console.log(`   Failed validation: ${validation.invalid.length}`);
+    const fieldErrors = Object.entries(validationReport.errorsByField)
+      .map(([field, count]) => `${field}: ${count}`)
+      .join(', ');
+    if (fieldErrors) {
+      console.log(`   Validation errors by field: ${fieldErrors}`);
+    }
+    console.log(`   Kept after ${market.name} filter: ${filteredItems.length}`);
+    const dropReasons = (Object.entries(filterResult.reasons) as Array<[DropReason, number]>)
+      .filter(([, count]) => count > 0)
+      .map(([reason, count]) => `${reason}: ${count}`)
+      .join(', ');
+    if (dropReasons) {
+      console.log(`   Filtered out by reason: ${dropReasons}`);
+    }
     console.log(`   Successfully mapped: ${mappedItems.length}`);
+    const multiSeller = clustering.clusters.filter(cluster => cluster.seller_count > 1).length;
+    console.log(`   Clusters: ${clusterCount} (${multiSeller} with several sellers)`);
+    const converted = mappedItems.filter(product => product.original_currency !== product.currency);
+    console.log(`   Converted to ${targetCurrency}: ${converted.length}`);
+    const withVelocity = mappedItems.filter(product => product.orders_24h !== null).length;
+    console.log(`   With orders_24h history: ${withVelocity}`);
+    const withCommission = mappedItems.filter(product => product.commission_rate !== null).length;
+    console.log(`   With commission_rate: ${withCommission}`);
+    const categorized = mappedItems.filter(product => product.category_id !== null).length;
+    const unmappedCount = unmappedCategories.length;
+    console.log(`   Categorized: ${categorized} (${unmappedCount} unmapped categories)`);
+    const { new: added, changed, unchanged } = changeSummary;
+    console.log(`   Changes: ${added} new, ${changed} changed, ${unchanged} unchanged`);
+    console.log(`   Emitted (${config.emitMode}): ${outputRecords.length}`);
+    if (config.mappingProfile) {
+      const entities = entityCounts.map(([name, count]) => `${count} ${name}`).join(', ');
+      console.log(`   Profile ${config.mappingProfile.name}: ${entities}`);
+    }
+    for (const { name, written, failed, location, counts } of sinkResults) {
+      const details = Object.entries(counts ?? {})
+        .map(([label, count]) => `${count} ${label}`)
+        .join(', ');
+      const extra = details ? ` (${details})` : '';
+      console.log(`   Sink ${name}: ${written} written${extra}, ${failed} failed → ${location}`);
+    }
+
+    const sessionStats = source.sessionStats?.();
+    if (sessionStats) {
+      const blocks = Object.entries(sessionStats.blocksByReason)
+        .filter(([, count]) => count > 0)
+        .map(([reason, count]) => `${reason}: ${count}`)
+        .join(', ');
+      const { requests, attempts, failed, retries } = sessionStats;
+      const { sessionsCreated, sessionsRetired } = sessionStats;
+      console.log(`   Requests: ${requests} (${failed} failed after retries)`);
+      console.log(`   Attempts: ${attempts} (${retries} retries)`);
+      const blockRate = attempts > 0 ? Math.round((sessionStats.blocks / attempts) * 100) : 0;
+      const blockReasons = blocks ? `, ${blocks}` : '';
+      console.log(`   Blocks: ${sessionStats.blocks} (${blockRate}% of attempts${blockReasons})`);
+      console.log(`   Proxy sessions: ${sessionsCreated} created, ${sessionsRetired} retired`);
+    }
     
-    if (config.requireBrazilSignals && rawItems.length > filteredItems.length) {
-      console.log(`   ⚠️  Filtered out ${rawItems.length - filteredItems.length} items without Brazil signals`);
+    if (filterResult.reasons.no_brazil_signal > 0) {
+      const dropped = filterResult.reasons.no_brazil_signal;
+      console.log(`   ⚠️  Filtered out ${dropped} items without ${market.name} signals`);
     }
 
     console.log('\n✅ Actor completed successfully!');
-
   } catch (error) {
     console.error('❌ Actor failed:', error);
     throw error;